@@ -1,130 +1,75 @@
-
-
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { GameState, PieceType, PlayerColor, BoardInfo, BoardRules } from './types';
-import type { Board, Position, Square, PawnPower, Piece } from './types';
-import { createInitialBoard, getValidMoves, PIECE_VALUES, findKing, isCheck, findBestMove } from './services/chessLogic';
-import { generatePawnAbilities } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, PlayerColor, BoardInfo } from './types';
+import type { PawnPower, Piece, GameSettings, RunMode, MapNode, MapNodeKind, BossDefinition, PlayerProfile, Relic, Puzzle, PuzzlePack } from './types';
+import { loadBoards } from './services/boardLoader';
+import { BOARD_DEFINITIONS } from './boards';
+import { generateShopAbilities } from './services/abilityService';
 import { playMove, playCapture, playSummon } from './services/soundService';
-
-// --- SPECIAL PAWNS ---
-const RELENTLESS_PAWN: PawnPower = { id: 'relentless-pawn', name: 'Relentless Pawn', description: 'After capturing a piece, this pawn can move again immediately.', cost: 0 };
-const STURDY_PAWN: PawnPower = { id: 'sturdy-pawn', name: 'Sturdy Pawn', description: 'Survives the first attack against it, negating the capture and losing this ability.', cost: 0 };
-const ALL_SPECIAL_PAWNS: PawnPower[] = [RELENTLESS_PAWN, STURDY_PAWN];
+import { loadRun, saveRun, clearRun } from './services/runStorage';
+import type { LoadRunResult } from './services/runStorage';
+import { loadSettings, saveSettings, ANIMATION_SCALES } from './services/settingsService';
+import { getBoardHighlights } from './services/boardHighlights';
+import { hasFog } from './services/vision';
+import { setAudioLevels, areEffectsAudible, setMusicMood, startMusic, stopMusic } from './services/audioEngine';
+import { deriveRng, generateSeed, normalizeSeed, getDailySeed } from './services/random';
+import { getDrawReason } from './services/chessRules';
+import { buildPgn } from './services/notation';
+import type { PgnResult } from './services/notation';
+import { createSession, resumeSession, toRunSnapshot, applyAction, getAISearchRequest, chooseAIMove, canUndo, getInspectedPiece, getSelectedPower, getKnownPowers, getSummonThreshold, getPlayerView, getForageGold, getBoss, getLevelRules } from './services/gameEngine';
+import { DRAW_MESSAGES } from './services/matchText';
+import type { GameSession, GameAction, GameEvent } from './services/gameEngine';
+import { createAIClient } from './services/aiClient';
+import type { AIClient } from './services/aiClient';
+import { getCurrentNode, ELITE_BOUNTY } from './services/runMap';
+import { findRunEvent } from './services/runEvents';
+import { BOSS_BOUNTY } from './services/bosses';
+import { loadProfile, saveProfile, isBoardUnlocked, getStartingPawns, recordRunStart, recordLevelEnd, recordPuzzleSolved } from './services/profileService';
+import { ACHIEVEMENTS } from './services/achievements';
+import type { Achievement } from './services/achievements';
+import { getRelics } from './services/relics';
+import { getAnnouncement, getVersusAnnouncement } from './services/boardSpeech';
+import { parseMoveInput } from './services/moveInput';
+import { startRecording, toRecordedAction, appendAction, buildReplay, parseRecording, serializeRecording, getReplayFileName, saveRecording, loadRecording } from './services/runRecording';
+import type { RunRecording, ReplayFrame } from './services/runRecording';
+import { createVersusSession, applyVersusAction, VERSUS_POOL_SIZE } from './services/versusEngine';
+import type { VersusSession, VersusAction } from './services/versusEngine';
+import { generateLocalPawnAbilities } from './services/localAbilityService';
+import { PROTOCOL_VERSION } from './services/netProtocol';
+import type { ClientMessage } from './services/netProtocol';
+import { createNetClient, followServerMessage } from './services/netClient';
+import type { NetClient } from './services/netClient';
+import { loadPuzzlePack } from './services/puzzleLoader';
+import { PUZZLE_PACKS } from './puzzles';
+import { createPuzzleSession, applyPuzzleAction, getPuzzleSearchRequest, getPuzzleStars } from './services/puzzleEngine';
+import type { PuzzleSession, PuzzleAction } from './services/puzzleEngine';
+import { runSearch } from './services/ai';
+import { PixelatedPanel, PixelatedButton } from './components/Pixelated';
+import { GameBoard, PromotionPicker } from './components/GameBoard';
+import { MoveHistoryPanel } from './components/MoveHistoryPanel';
+import { MapScreen } from './components/MapScreen';
+import { ShopScreen } from './components/ShopScreen';
+import { DeployScreen } from './components/DeployScreen';
+import { ReplayScreen } from './components/ReplayScreen';
+import { VersusScreen, OnlineLobby, VersusMenu, describeSeat } from './components/VersusScreen';
+import type { OnlineSeat } from './components/VersusScreen';
+import { PuzzleScreen, PuzzleList } from './components/PuzzleScreen';
+import { SettingsScreen } from './components/SettingsScreen';
 
 // --- NEW BOARDS ---
-const AVAILABLE_BOARDS: BoardInfo[] = [
-    { id: 'classic', name: 'Classic Kingdom', description: 'The standard rules of the gambit.', rules: {}, isLocked: false },
-    { id: 'pawn_march', name: 'The Long March', description: 'Pawns can only move one square forward, even on their first turn.', rules: { pawnHasLimitedFirstMove: true }, isLocked: false },
-    { id: 'fortress', name: 'The Fortress', description: 'Survive 10 levels to unlock this board.', rules: {}, isLocked: true, unlockLevel: 10 },
-];
-
-
-// --- 16-BIT Styled Components ---
-
-const PixelatedPanel: React.FC<{ children: React.ReactNode, className?: string }> = ({ children, className = '' }) => (
-    <div className={`bg-slate-800 p-4 sm:p-6 pixel-border ${className}`}>
-        {children}
-    </div>
-);
-
-const PixelatedButton: React.FC<{ onClick: () => void, children: React.ReactNode, className?: string, disabled?: boolean }> = ({ onClick, children, className = '', disabled = false }) => (
-    <button
-        onClick={onClick}
-        disabled={disabled}
-        className={`px-4 py-2 text-sm sm:text-base text-white uppercase tracking-wider bg-slate-700 hover:bg-slate-600 active:bg-slate-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed pixel-border ${className}`}
-    >
-        {children}
-    </button>
-);
-
-const PieceComponent: React.FC<{ piece: Piece, isSelected: boolean }> = React.memo(({ piece, isSelected }) => {
-    if (piece.isVisible === false) {
-        return null;
-    }
-    
-    const color = piece.color === PlayerColor.WHITE ? '#F9FAFB' : '#52525B';
-    const stroke = piece.color === PlayerColor.WHITE ? '#374151' : '#E4E4E7';
-    const isEnemyKing = piece.type === PieceType.KING && piece.color === PlayerColor.BLACK;
-
-    const styles: React.CSSProperties = {
-        width: '80%',
-        height: '80%',
-        transform: isSelected ? 'scale(1.1)' : 'scale(1)',
-        transition: 'transform 0.2s',
-        filter: piece.powerId ? 'drop-shadow(0 0 6px #22d3ee) drop-shadow(0 0 3px #22d3ee)' : 'none',
-    };
-    
-    const className = isEnemyKing ? 'rainbow-king-glow' : '';
-
-    const paths: Record<PieceType, React.ReactNode> = {
-        [PieceType.PAWN]: <path d="M12 8a2.5 2.5 0 1 1 0 5 2.5 2.5 0 0 1 0-5z M10 13h4v3h-4z M9 16h6v2h-6z" />,
-        [PieceType.ROOK]: <path d="M7 7h2v3h-2z M15 7h2v3h-2z M11 7h2v3h-2z M7 10h10v2h-10z M8 12h8v6h-8z M7 18h10v2h-10z" />,
-        [PieceType.BISHOP]: <path d="M12 6l3 4v3h-6v-3z M11 13h2l-1 2z M9 15h6v3h-6z M8 18h8v2h-8z" />,
-        [PieceType.KNIGHT]: <path d="M9 20v-6l-2-2V8h2l3-3h3v2l-1 1 1 1v2l1 1v2h2v4h2v2H9z" />,
-        [PieceType.QUEEN]: <path d="M6 7l2-3h8l2 3-3 3 3 3-2 3h-8l-2-3 3-3z M8 16h8v2h-8z M7 18h10v2h-10z" />,
-        [PieceType.KING]: isEnemyKing ?
-            <path d="M11 5h2v3h3v2h-3v3h-2v-3h-3v-2h3z M5 13h14v2h-14z M8 15h8v4h-8z M6 19h12v2h-12z" /> :
-            <path d="M11 5h2v3h3v2h-3v3h-2v-3h-3v-2h3z M9 13h6v5h-6z M8 18h8v2h-8z" />,
-    };
-
-    const pieceSvgContent = paths[piece.type];
-
-    return (
-        <svg viewBox="0 0 24 24" style={{...styles, shapeRendering: 'crispEdges'}} className={className} xmlns="http://www.w3.org/2000/svg">
-            <g fill={color} stroke={stroke} strokeWidth="1">
-                {pieceSvgContent}
-            </g>
-        </svg>
-    );
-});
+const AVAILABLE_BOARDS: BoardInfo[] = loadBoards(BOARD_DEFINITIONS);
+// Versus matches have no fog of war: hot-seat players share one screen.
+const VERSUS_BOARDS: BoardInfo[] = AVAILABLE_BOARDS.filter(b => !hasFog(b.rules));
+const AVAILABLE_PUZZLE_PACKS: PuzzlePack[] = PUZZLE_PACKS.flatMap(raw => loadPuzzlePack(raw) ?? []);
+const ALL_PUZZLES: Puzzle[] = AVAILABLE_PUZZLE_PACKS.flatMap(pack => pack.puzzles);
 
 
 // --- Child Components ---
 
-interface GameBoardProps {
-    board: Board;
-    onSquareClick: (pos: Position) => void;
-    selectedPiece: Position | null;
-    validMoves: Position[];
-    playerColor: PlayerColor;
-}
-
-const GameBoard: React.FC<GameBoardProps> = ({ board, onSquareClick, selectedPiece, validMoves, playerColor }) => {
-    const boardToRender = playerColor === PlayerColor.WHITE ? board : [...board].reverse().map(row => [...row].reverse());
-    const isMoveValid = (r: number, c: number) => validMoves.some(move => move.row === r && move.col === c);
-    
-    return (
-        <div className="flex flex-col border-4 border-black bg-slate-600 shadow-2xl pixel-border">
-            {boardToRender.map((row, rIdx) => (
-                <div key={rIdx} className="flex">
-                    {row.map((square, cIdx) => {
-                        const originalR = playerColor === PlayerColor.WHITE ? rIdx : 7 - rIdx;
-                        const originalC = playerColor === PlayerColor.WHITE ? cIdx : 7 - cIdx;
-                        const isSelected = selectedPiece && selectedPiece.row === originalR && selectedPiece.col === originalC;
-                        const isValidMove = isMoveValid(originalR, originalC);
-                        const bgColor = (originalR + originalC) % 2 === 0 ? 'bg-[#c2b280]' : 'bg-[#6b4226]';
-                        
-                        return (
-                            <div
-                                key={`${originalR}-${originalC}`}
-                                className={`w-14 h-14 sm:w-16 sm:h-16 md:w-20 md:h-20 flex items-center justify-center cursor-pointer transition-colors duration-200 ${bgColor} relative`}
-                                onClick={() => onSquareClick({ row: originalR, col: originalC })}
-                            >
-                                {square && <PieceComponent piece={square} isSelected={!!isSelected} />}
-                                {isValidMove && <div className="absolute inset-0 bg-green-500/50 rounded-full w-6 h-6 m-auto"></div>}
-                                {isSelected && <div className="absolute inset-0 border-4 border-yellow-400"></div>}
-                            </div>
-                        );
-                    })}
-                </div>
-            ))}
-        </div>
-    );
-};
-
 interface GameUIProps {
     level: number;
+    act: number;
+    encounter: MapNodeKind | null;
+    boss: BossDefinition | null;
     bank: number;
     captureProgress: number;
     kingSpawnThreshold: number;
@@ -132,19 +77,35 @@ interface GameUIProps {
     onSummonKing: () => void;
     turn: PlayerColor;
     message: string;
+    isThinking: boolean;
     selectedPower: PawnPower | null;
+    seed: string;
+    relics: Relic[];
 }
 
-const GameUI: React.FC<GameUIProps> = ({ level, bank, captureProgress, kingSpawnThreshold, isKingSpawned, onSummonKing, turn, message, selectedPower }) => {
+const GameUI: React.FC<GameUIProps> = ({ level, act, encounter, boss, bank, captureProgress, kingSpawnThreshold, isKingSpawned, onSummonKing, turn, message, isThinking, selectedPower, seed, relics }) => {
     const progressPercent = Math.min((captureProgress / kingSpawnThreshold) * 100, 100);
-    const canSummon = !isKingSpawned && progressPercent >= 100;
+    const canSummon = !isKingSpawned && progressPercent >= 100 && turn === PlayerColor.WHITE;
 
     return (
         <PixelatedPanel className="w-full max-w-lg md:max-w-xl lg:max-w-2xl text-sm">
             <div className="flex justify-between items-center mb-3">
-                <h2 className="text-base sm:text-lg text-yellow-300">LEVEL: {level}</h2>
+                <h2 className="text-base sm:text-lg text-yellow-300">
+                    ACT {act} &middot; LEVEL: {level}
+                    {(encounter === 'elite' || encounter === 'boss') && <span className="ml-2 text-red-400">{encounter.toUpperCase()}</span>}
+                </h2>
                 <h2 className="text-base sm:text-lg text-green-300">BANK: ${bank}</h2>
             </div>
+            <p className="text-xs text-slate-400 mb-3">SEED: {seed}</p>
+            {relics.length > 0 && (
+                <p className="text-xs text-yellow-200 mb-3">RELICS: {relics.map(r => r.name).join(', ')}</p>
+            )}
+            {boss && (
+                <div className="mb-3 p-2 bg-red-950/50 pixel-border">
+                    <h3 className="text-xs text-red-400">{boss.name.toUpperCase()}</h3>
+                    <p className="text-xs text-slate-300 mt-1">{boss.description}</p>
+                </div>
+            )}
             <div className="mb-3">
                 <p className="text-xs text-slate-300 mb-1">CAPTURE VALUE:</p>
                 <div className="w-full bg-slate-600 h-4 border-2 border-black">
@@ -157,7 +118,7 @@ const GameUI: React.FC<GameUIProps> = ({ level, bank, captureProgress, kingSpawn
                 </PixelatedButton>
             )}
             <div className="text-center h-6 mt-2">
-                <p>{message}</p>
+                {isThinking ? <p className="text-cyan-300 animate-pulse">ENEMY IS THINKING...</p> : <p>{message}</p>}
             </div>
             {selectedPower && (
                 <div className="lg:hidden mt-4 p-2 bg-slate-900/50 pixel-border">
@@ -169,346 +130,558 @@ const GameUI: React.FC<GameUIProps> = ({ level, bank, captureProgress, kingSpawn
     );
 };
 
-interface PawnCardProps {
-    pawn: PawnPower;
-    onBuy: (pawn: PawnPower) => void;
-    canAfford: boolean;
-}
-
-const PawnCard: React.FC<PawnCardProps> = ({ pawn, onBuy, canAfford }) => (
-    <PixelatedPanel className="flex flex-col justify-between transform hover:scale-105 transition-transform duration-200">
-        <div>
-            <h3 className="text-base text-cyan-300">{pawn.name}</h3>
-            <p className="text-slate-300 mt-2 text-xs h-16">{pawn.description}</p>
-        </div>
-        <PixelatedButton
-            onClick={() => onBuy(pawn)}
-            disabled={!canAfford}
-            className={`mt-4 w-full ${canAfford ? 'bg-green-600 hover:bg-green-500' : ''}`}
+// An optional text box for typing moves in algebraic notation. The parent answers each submission
+// with an error to show, or null once the move is made.
+const MoveEntry: React.FC<{ onSubmit: (text: string) => string | null }> = ({ onSubmit }) => {
+    const [text, setText] = useState<string>('');
+    const [error, setError] = useState<string | null>(null);
+    return (
+        <form
+            className="w-full max-w-xs"
+            onSubmit={e => {
+                e.preventDefault();
+                const problem = onSubmit(text);
+                setError(problem);
+                if (!problem) setText('');
+            }}
         >
-            Buy ${pawn.cost}
-        </PixelatedButton>
-    </PixelatedPanel>
-);
+            <label className="block text-xs text-slate-300 mb-1" htmlFor="move-entry">TYPE A MOVE</label>
+            <div className="flex gap-2">
+                <input
+                    id="move-entry"
+                    value={text}
+                    onChange={e => setText(e.target.value)}
+                    placeholder="e4, Nf3, O-O"
+                    autoComplete="off"
+                    aria-describedby="move-entry-error"
+                    className="flex-1 p-2 bg-slate-900 text-white text-sm pixel-border"
+                />
+                <button type="submit" className="px-3 text-sm bg-green-600 hover:bg-green-500 pixel-border">Go</button>
+            </div>
+            <p id="move-entry-error" role="alert" className="text-xs text-red-400 mt-1 h-4">{error ?? ''}</p>
+        </form>
+    );
+};
 
-interface ShopProps {
-    bank: number;
-    shopPawns: PawnPower[];
-    onBuyPawn: (pawn: PawnPower) => void;
-    onContinue: () => void;
-    isLoading: boolean;
-}
+const playVersusEvents = (events: GameEvent[]) => {
+    if (!areEffectsAudible()) return;
+    if (events.includes('capture')) playCapture();
+    else if (events.includes('move')) playMove();
+};
+
+// Keeps its own input state so typing doesn't re-render (and remount) the whole screen.
+const SeedEntry: React.FC<{ onSubmit: (seed: string) => void }> = ({ onSubmit }) => {
+    const [value, setValue] = useState('');
+    const seed = normalizeSeed(value);
 
-const Shop: React.FC<ShopProps> = ({ bank, shopPawns, onBuyPawn, onContinue, isLoading }) => {
     return (
-        <div className="flex flex-col items-center justify-center min-h-screen p-4">
-             <PixelatedPanel className="w-full max-w-4xl">
-                <h1 className="text-2xl sm:text-3xl text-center text-yellow-300 mb-2">PAWN SHOP</h1>
-                <p className="text-center text-slate-300 mb-6 text-xs">Purchase powerful pawns.</p>
-                <p className="text-center text-xl text-green-300 mb-8">Bank: ${bank}</p>
-                
-                {isLoading ? (
-                    <div className="text-center text-lg text-cyan-300 animate-pulse">Generating wares...</div>
-                ) : (
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-                        {shopPawns.map(pawn => (
-                            <PawnCard key={pawn.id} pawn={pawn} onBuy={onBuyPawn} canAfford={bank >= pawn.cost} />
-                        ))}
-                    </div>
-                )}
-                
-                <div className="text-center mt-8">
-                    <PixelatedButton onClick={onContinue} className="bg-blue-600 hover:bg-blue-500 py-3 px-6 text-lg">
-                        Next Level
-                    </PixelatedButton>
-                </div>
-            </PixelatedPanel>
+        <div className="flex gap-2 mt-2">
+            <input
+                value={value}
+                onChange={e => setValue(e.target.value)}
+                placeholder="ENTER SEED"
+                maxLength={32}
+                className="flex-1 min-w-0 px-3 py-2 text-xs bg-slate-900 text-white uppercase pixel-border"
+            />
+            <PixelatedButton onClick={() => onSubmit(seed)} disabled={!seed} className="bg-blue-600 hover:bg-blue-500">
+                Use Seed
+            </PixelatedButton>
         </div>
     );
 };
 
-const SpecialPawnInfoPanel: React.FC<{ power: PawnPower | null }> = ({ power }) => {
-    if (!power) {
+const SpecialPawnInfoPanel: React.FC<{ power: PawnPower | null, piece: Piece | null }> = ({ power, piece }) => {
+    if (!piece || (!power && !piece.isElite)) {
       return <div className="hidden lg:block w-72 h-48" />;
     }
+    const isEnemy = piece.color === PlayerColor.BLACK;
   
     return (
       <div className="hidden lg:block w-72">
-        <PixelatedPanel className="h-48">
-          <h3 className="text-lg text-cyan-400">{power.name}</h3>
-          <p className="mt-4 text-sm text-slate-300 leading-relaxed">{power.description}</p>
+        <PixelatedPanel className="h-48 overflow-y-auto">
+          {isEnemy && <p className="text-xs text-red-400 mb-2">ENEMY {piece.isElite ? `ELITE ${piece.type.toUpperCase()}` : piece.type.toUpperCase()}</p>}
+          {power ? (
+            <>
+              <h3 className={`text-lg ${isEnemy ? 'text-red-300' : 'text-cyan-400'}`}>{power.name}</h3>
+              <p className="mt-4 text-sm text-slate-300 leading-relaxed">{power.description}</p>
+            </>
+          ) : (
+            <p className="mt-4 text-sm text-slate-300 leading-relaxed">Promoted from a lesser piece by the enemy's war chest.</p>
+          )}
         </PixelatedPanel>
       </div>
     );
 };
 
+const EarnedAchievements: React.FC<{ achievements: Achievement[] }> = ({ achievements }) => achievements.length === 0 ? null : (
+    <div className="mb-6 p-3 bg-slate-900/50 pixel-border">
+        {achievements.map(a => (
+            <p key={a.id} className="text-xs text-green-300">ACHIEVEMENT: {a.name.toUpperCase()}</p>
+        ))}
+    </div>
+);
+
+const downloadTextFile = (filename: string, text: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const formatPgnDate = (date: Date) =>
+    `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
 
 // --- Main App Component ---
 
 export default function App() {
-    const [gameState, setGameState] = useState<GameState>(GameState.LOADING);
-    const [board, setBoard] = useState<Board>(() => createInitialBoard());
-    const [turn, setTurn] = useState<PlayerColor>(PlayerColor.WHITE);
-    const [bank, setBank] = useState<number>(0);
-    const [level, setLevel] = useState<number>(1);
-    const [captureValue, setCaptureValue] = useState<number>(0);
-    const [selectedPiece, setSelectedPiece] = useState<Position | null>(null);
-    const [validMoves, setValidMoves] = useState<Position[]>([]);
-    const [isKingSpawned, setIsKingSpawned] = useState<boolean>(false);
-    const [ownedPawns, setOwnedPawns] = useState<PawnPower[]>([]);
-    const [shopPawns, setShopPawns] = useState<PawnPower[]>([]);
+    // Screens outside a run; once a session exists its own gameState decides what is shown.
+    const [screen, setScreen] = useState<GameState>(GameState.LOADING);
+    const [session, setSession] = useState<GameSession | null>(null);
+    // Mirrors `session` so dispatch always applies actions to the latest state, even from timers.
+    const sessionRef = useRef<GameSession | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(true);
-    const [message, setMessage] = useState<string>("White's Turn");
-    const [selectedBoard, setSelectedBoard] = useState<BoardInfo>(AVAILABLE_BOARDS[0]);
-
-    const kingSpawnThreshold = useMemo(() => 5 + level * 5, [level]);
-
-    const selectedPawnPower = useMemo(() => {
-        if (!selectedPiece) return null;
-        const piece = board[selectedPiece.row][selectedPiece.col];
-        if (!piece || !piece.powerId) return null;
-        const allKnownPawns = [...ALL_SPECIAL_PAWNS, ...ownedPawns];
-        return allKnownPawns.find(p => p.id === piece.powerId) ?? null;
-      }, [selectedPiece, board, ownedPawns]);
-
-    const resetLevel = useCallback((newLevel: number) => {
-        const newBoard = createInitialBoard();
-        
-        // Handle special pawn assignments
-        if (newLevel === 1) {
-             // Assign Relentless Pawn to a random player pawn
-            const playerPawnCol = Math.floor(Math.random() * 8);
-            (newBoard[6][playerPawnCol] as Piece).powerId = RELENTLESS_PAWN.id;
-            
-            // Assign Sturdy Pawn to a random AI pawn
-            const aiPawnCol = Math.floor(Math.random() * 8);
-            (newBoard[1][aiPawnCol] as Piece).powerId = STURDY_PAWN.id;
-        } else {
-            // Assign bought pawns for subsequent levels
-            const pawnStartRow = 6;
-            let pawnsPlaced = 0;
-            for (let c = 0; c < 8 && pawnsPlaced < ownedPawns.length; c++) {
-                if (newBoard[pawnStartRow][c]?.type === PieceType.PAWN) {
-                     const piece = newBoard[pawnStartRow][c] as Piece;
-                     piece.powerId = ownedPawns[pawnsPlaced].id;
-                     pawnsPlaced++;
+    const [savedRun, setSavedRun] = useState<LoadRunResult>({ status: 'none' });
+    const [settings, setSettings] = useState<GameSettings>(() => loadSettings());
+    const [pendingSeed, setPendingSeed] = useState<string | null>(null);
+    const aiClientRef = useRef<AIClient | null>(null);
+    const [isAIThinking, setIsAIThinking] = useState<boolean>(false);
+    // The current run's recording. Kept out of the session so saves stay small; stored beside them.
+    const recordingRef = useRef<RunRecording | null>(null);
+    const [lastRecording, setLastRecording] = useState<RunRecording | null>(null);
+    const [replay, setReplay] = useState<{ recording: RunRecording, frames: ReplayFrame[] } | null>(null);
+    const [replayError, setReplayError] = useState<string | null>(null);
+
+    const gameState = session ? session.gameState : screen;
+
+    const replaceSession = useCallback((next: GameSession | null) => {
+        sessionRef.current = next;
+        setSession(next);
+    }, []);
+
+    // A hot-seat match lives outside any run, so it has its own state beside the session.
+    const [versus, setVersus] = useState<VersusSession | null>(null);
+    const versusRef = useRef<VersusSession | null>(null);
+    const replaceVersus = useCallback((next: VersusSession | null) => {
+        versusRef.current = next;
+        setVersus(next);
+    }, []);
+
+    const [profile, setProfile] = useState<PlayerProfile>(() => loadProfile());
+    // Achievements earned by the level that just ended, shown on its result screen.
+    const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
+    const [startingPawnId, setStartingPawnId] = useState<string | null>(null);
+
+    // The profile is worked out from the ref, outside any state updater, so it's saved exactly once
+    // per change even when React runs updaters twice.
+    const profileRef = useRef<PlayerProfile>(profile);
+    const updateProfile = useCallback((change: (prev: PlayerProfile) => PlayerProfile) => {
+        const next = change(profileRef.current);
+        profileRef.current = next;
+        setProfile(next);
+        saveProfile(next);
+    }, []);
+
+    const dispatch = useCallback((action: GameAction) => {
+        if (!sessionRef.current) return;
+        const previous = sessionRef.current;
+        const { session: next, events } = applyAction(previous, action);
+        replaceSession(next);
+        const recorded = recordingRef.current && toRecordedAction(previous, action, next);
+        if (recorded) recordingRef.current = appendAction(recordingRef.current as RunRecording, recorded);
+        const levelEnded = previous.gameState === GameState.PLAYING
+            && [GameState.LEVEL_WON, GameState.GAME_OVER, GameState.LEVEL_DRAWN].includes(next.gameState);
+        if (levelEnded) {
+            const record = recordLevelEnd(profileRef.current, next, AVAILABLE_BOARDS);
+            setNewAchievements(record.earned);
+            updateProfile(() => record.profile);
+        }
+        if (!areEffectsAudible()) return;
+        if (events.includes('summon')) playSummon();
+        else if (events.includes('capture')) playCapture();
+        else if (events.includes('move')) playMove();
+    }, [replaceSession, updateProfile]);
+
+    const showScreen = useCallback((next: GameState) => {
+        replaceSession(null);
+        setScreen(next);
+    }, [replaceSession]);
+
+    const handleStartGame = useCallback((boardInfo: BoardInfo, mode: RunMode = pendingSeed ? 'seeded' : 'standard', runSeed: string = pendingSeed ?? generateSeed()) => {
+        setPendingSeed(null);
+        setNewAchievements([]);
+        updateProfile(recordRunStart);
+        // Everyone racing the daily starts with the same pawn.
+        const startingPawn = mode === 'daily' ? undefined : getStartingPawns(profile).find(p => p.id === startingPawnId);
+        const created = createSession(boardInfo, runSeed, mode, startingPawn);
+        recordingRef.current = startRecording(created);
+        replaceSession(created);
+    }, [pendingSeed, replaceSession, updateProfile, profile, startingPawnId]);
+
+    const handleStartDaily = useCallback(() => {
+        // Everyone racing the daily plays the same board.
+        handleStartGame(AVAILABLE_BOARDS[0], 'daily', getDailySeed());
+    }, [handleStartGame]);
+    
+    const handleContinueRun = useCallback(() => {
+        if (savedRun.status !== 'ok') return;
+        const { snapshot } = savedRun;
+        const boardInfo = AVAILABLE_BOARDS.find(b => b.id === snapshot.boardId);
+        if (!boardInfo) {
+            setSavedRun({ status: 'error', reason: `Save uses an unknown board "${snapshot.boardId}".` });
+            return;
+        }
+        setIsLoading(false);
+        // Runs saved before recordings existed, or whose recording was lost, carry on unrecorded.
+        const recording = loadRecording();
+        recordingRef.current = recording?.seed === snapshot.seed && recording.boardId === snapshot.boardId ? recording : null;
+        replaceSession(resumeSession(snapshot, boardInfo));
+    }, [savedRun, replaceSession]);
+
+    const openReplay = useCallback((recording: RunRecording) => {
+        const boardInfo = AVAILABLE_BOARDS.find(b => b.id === recording.boardId);
+        if (!boardInfo) {
+            setReplayError(`Replay uses an unknown board "${recording.boardId}".`);
+            return;
+        }
+        let frames: ReplayFrame[];
+        try {
+            frames = buildReplay(recording, boardInfo);
+        } catch (error) {
+            console.error("Failed to replay recording:", error);
+            setReplayError("Replay file is unusable: its actions don't fit this run.");
+            return;
+        }
+        setReplayError(null);
+        setReplay({ recording, frames });
+        showScreen(GameState.REPLAY);
+    }, [showScreen]);
+
+    const handleImportReplay = useCallback(async (file: File) => {
+        const result = parseRecording(await file.text());
+        if (result.status === 'error') setReplayError(result.reason);
+        else openReplay(result.recording);
+    }, [openReplay]);
+
+    const handleExportReplay = useCallback((recording: RunRecording) => {
+        downloadTextFile(getReplayFileName(recording), serializeRecording(recording));
+    }, []);
+
+    // Online, the match arrives from the relay; `seat` is null for a hot-seat match.
+    const netClientRef = useRef<NetClient | null>(null);
+    const [seat, setSeat] = useState<OnlineSeat | null>(null);
+
+    const handleStartVersus = useCallback(async (boardInfo: BoardInfo) => {
+        // Extra candidates, since powers that only pay gold are dropped from the draft.
+        const pool = await generateLocalPawnAbilities(VERSUS_POOL_SIZE * 2);
+        replaceVersus(createVersusSession(boardInfo, pool));
+    }, [replaceVersus]);
+
+    // Opens a connection to the relay and sends `first`: a create or a join.
+    const handleGoOnline = useCallback((first: ClientMessage) => {
+        netClientRef.current?.close();
+        replaceVersus(null);
+        setSeat({ code: null, color: null, connection: 'connecting', opponent: 'waiting', error: null });
+        const client = createNetClient(settings.relayServerUrl, {
+            onStatus: connection => setSeat(prev => prev && { ...prev, connection }),
+            onMessage: message => {
+                if (message.type === 'lobby') {
+                    setSeat(prev => prev && { ...prev, code: message.code, color: message.color, opponent: message.opponent, error: null });
+                } else if (message.type === 'error') {
+                    setSeat(prev => prev && { ...prev, error: message.message });
                 }
+                const { session: next, events, outOfSync } = followServerMessage(versusRef.current, message);
+                if (outOfSync) client.send({ type: 'sync' });
+                if (next !== versusRef.current) replaceVersus(next);
+                playVersusEvents(events);
+            },
+        });
+        netClientRef.current = client;
+        client.send(first);
+    }, [settings.relayServerUrl, replaceVersus]);
+
+    const handleCancelOnline = useCallback(() => {
+        netClientRef.current?.close();
+        netClientRef.current = null;
+        setSeat(null);
+    }, []);
+
+    const handleLeaveVersus = useCallback(() => {
+        netClientRef.current?.close();
+        netClientRef.current = null;
+        setSeat(null);
+        replaceVersus(null);
+        setScreen(GameState.MENU);
+    }, [replaceVersus]);
+
+    const dispatchVersus = useCallback((action: VersusAction) => {
+        const match = versusRef.current;
+        if (!match) return;
+        const client = netClientRef.current;
+        if (!client) {
+            const { session: next, events } = applyVersusAction(match, action);
+            replaceVersus(next);
+            playVersusEvents(events);
+            return;
+        }
+        // Online, selecting stays on this device; anything that changes the match goes to the relay,
+        // and the board only changes when the relay answers.
+        switch (action.type) {
+            case 'select': {
+                const next = applyVersusAction(match, action).session;
+                if (next.moveLog.length > match.moveLog.length && match.selectedPiece) {
+                    client.send({ type: 'move', from: match.selectedPiece, to: action.pos });
+                    replaceVersus({ ...match, selectedPiece: null, validMoves: [] });
+                } else {
+                    replaceVersus(next);
+                }
+                return;
             }
+            case 'cancel-promotion':
+                replaceVersus(applyVersusAction(match, action).session);
+                return;
+            case 'move':
+                client.send({ type: 'move', from: action.from, to: action.to, promotion: action.promotion });
+                replaceVersus({ ...match, selectedPiece: null, validMoves: [], pendingPromotion: null });
+                return;
+            case 'resign':
+                client.send({ type: 'resign' });
+                return;
+            default:
+                client.send(action);
         }
+    }, [replaceVersus]);
 
-        setBoard(newBoard);
-        setTurn(PlayerColor.WHITE);
-        setCaptureValue(0);
-        const kingPos = findKing(newBoard, PlayerColor.BLACK);
-        setIsKingSpawned(kingPos ? newBoard[kingPos.row][kingPos.col]?.isVisible ?? false : false);
-        setSelectedPiece(null);
-        setValidMoves([]);
-        setMessage("YOUR TURN");
-    }, [ownedPawns]);
-
-    const handleStartGame = useCallback((boardInfo: BoardInfo) => {
-        setSelectedBoard(boardInfo);
-        setBank(0);
-        setLevel(1);
-        setOwnedPawns([RELENTLESS_PAWN]); // Player starts with the relentless pawn
-        resetLevel(1);
-        setGameState(GameState.PLAYING);
-    }, [resetLevel]);
-    
-    const handleNextLevel = useCallback(() => {
-        setGameState(GameState.LEVEL_SELECT);
+    const handleExportVersusPgn = useCallback(() => {
+        if (!versus) return;
+        const { moveLog, boardInfo, drafts, phase, winner } = versus;
+        const result: PgnResult = phase !== 'over' ? '*' : winner === PlayerColor.WHITE ? '1-0' : winner === PlayerColor.BLACK ? '0-1' : '1/2-1/2';
+        const pgn = buildPgn(moveLog, {
+            Event: "Pawn's Gambit Versus",
+            Site: "Pawn's Gambit",
+            Date: formatPgnDate(new Date()),
+            Round: '1',
+            White: 'White',
+            Black: 'Black',
+            Board: boardInfo.id,
+            WhitePowers: drafts[PlayerColor.WHITE].powers.map(p => p.name).join(', '),
+            BlackPowers: drafts[PlayerColor.BLACK].powers.map(p => p.name).join(', '),
+        }, result);
+        downloadTextFile(`pawns-gambit-versus-${boardInfo.id}.pgn`, pgn);
+    }, [versus]);
+
+    // A puzzle, like a versus match, lives outside any run.
+    const [puzzle, setPuzzle] = useState<PuzzleSession | null>(null);
+    const puzzleRef = useRef<PuzzleSession | null>(null);
+    const replacePuzzle = useCallback((next: PuzzleSession | null) => {
+        puzzleRef.current = next;
+        setPuzzle(next);
     }, []);
 
-    const proceedToNextLevel = useCallback(() => {
-        const nextLevel = level + 1;
-        setLevel(nextLevel);
-        resetLevel(nextLevel);
-        setGameState(GameState.PLAYING);
-    }, [level, resetLevel]);
-    
-    const enterShop = useCallback(async () => {
-        setGameState(GameState.SHOP);
+    const dispatchPuzzle = useCallback((action: PuzzleAction) => {
+        const current = puzzleRef.current;
+        if (!current) return;
+        const { session: next, events } = applyPuzzleAction(current, action);
+        if (next === current) return;
+        replacePuzzle(next);
+        playVersusEvents(events);
+        if (next.status === 'solved' && current.status !== 'solved') {
+            updateProfile(prev => recordPuzzleSolved(prev, next.puzzle.id, getPuzzleStars(next)));
+        }
+    }, [replacePuzzle, updateProfile]);
+
+    const handleDiscardRun = useCallback(() => {
+        clearRun();
+        setSavedRun({ status: 'none' });
+    }, []);
+
+    // Shop wares may come from the network, so the engine opens (or rerolls) an empty shop and it is
+    // stocked here. Each reroll draws from its own stream so seeded runs stay reproducible.
+    const stockShop = useCallback(async () => {
+        const shop = sessionRef.current;
+        if (shop?.gameState !== GameState.SHOP) return;
         setIsLoading(true);
         try {
-            const newPawns = await generatePawnAbilities(3);
-            setShopPawns(newPawns);
+            const preference = shop.runMode === 'standard' ? settings.abilitySource : 'local';
+            const nodeId = getCurrentNode(shop.map)?.id ?? '';
+            const random = deriveRng(shop.seed, 'shop', nodeId, shop.shopRerolls).next;
+            const { pawns, source } = await generateShopAbilities(3, preference, random, { serverUrl: settings.abilityServerUrl });
+            dispatch({ type: 'stock-shop', pawns, source });
         } catch (error) {
             console.error("Failed to fetch pawn abilities:", error);
+            dispatch({ type: 'stock-shop', pawns: [], source: settings.abilitySource === 'auto' ? 'local' : settings.abilitySource });
         } finally {
             setIsLoading(false);
         }
+    }, [dispatch, settings.abilitySource, settings.abilityServerUrl]);
+
+    const handleChooseNode = useCallback(async (node: MapNode) => {
+        dispatch({ type: 'choose-node', nodeId: node.id });
+        await stockShop();
+    }, [dispatch, stockShop]);
+
+    const handleRerollShop = useCallback(async () => {
+        const before = sessionRef.current?.shopRerolls;
+        dispatch({ type: 'reroll-shop' });
+        if (sessionRef.current?.shopRerolls !== before) await stockShop();
+    }, [dispatch, stockShop]);
+
+    const updateSettings = useCallback((changes: Partial<GameSettings>) => {
+        setSettings(prev => {
+            const next = { ...prev, ...changes };
+            saveSettings(next);
+            return next;
+        });
     }, []);
 
-    const buyPawn = useCallback((pawn: PawnPower) => {
-        if (bank >= pawn.cost) {
-            setBank(prev => prev - pawn.cost);
-            setOwnedPawns(prev => [...prev, pawn]);
-            setShopPawns(prev => prev.filter(sp => sp.id !== pawn.id));
-        }
-    }, [bank]);
-
-    const makeAIMove = useCallback((currentBoard: Board) => {
-        const bestMove = findBestMove(currentBoard, selectedBoard.rules, level);
-
-        if (!bestMove) {
-            if (isKingSpawned) {
-                 if(isCheck(currentBoard, PlayerColor.BLACK, selectedBoard.rules)) {
-                    setMessage("CHECKMATE! YOU WIN!");
-                 } else {
-                    setMessage("STALEMATE! YOU WIN!");
-                 }
-                 setGameState(GameState.LEVEL_WON);
-            } else {
-                setTurn(PlayerColor.WHITE);
-                setMessage("ENEMY IMMOBILIZED. YOUR MOVE.");
-            }
-            return;
+    const handleExportPgn = useCallback(() => {
+        if (!session) return;
+        const { moveLog, level, boardInfo, ownedPawns, seed } = session;
+        const results: Partial<Record<GameState, PgnResult>> = {
+            [GameState.LEVEL_WON]: '1-0',
+            [GameState.GAME_OVER]: '0-1',
+            [GameState.LEVEL_DRAWN]: '1/2-1/2',
+        };
+        const pgn = buildPgn(moveLog, {
+            Event: "Pawn's Gambit",
+            Site: "Pawn's Gambit",
+            Date: formatPgnDate(new Date()),
+            Round: String(level),
+            White: 'Player',
+            Black: 'AI',
+            Level: String(level),
+            Board: boardInfo.id,
+            Powers: ownedPawns.map(p => p.name).join(', '),
+            Seed: seed,
+        }, results[session.gameState] ?? '*');
+        downloadTextFile(`pawns-gambit-${seed}-level-${level}.pgn`, pgn);
+    }, [session]);
+
+    // Escape on the board backs out of a promotion choice, or deselects (clicking the selected piece again).
+    const handleCancelSelection = useCallback(() => {
+        const current = sessionRef.current;
+        if (current?.pendingPromotion) dispatch({ type: 'cancel-promotion' });
+        else if (current?.selectedPiece) dispatch({ type: 'select', pos: current.selectedPiece });
+    }, [dispatch]);
+
+    const handleTypedMove = useCallback((text: string): string | null => {
+        const current = sessionRef.current;
+        if (current?.gameState !== GameState.PLAYING || current.turn !== PlayerColor.WHITE || current.pendingPromotion) {
+            return 'Wait for your turn.';
         }
-        
-        const newBoard = JSON.parse(JSON.stringify(currentBoard));
-        const capturedPiece = newBoard[bestMove.to.row][bestMove.to.col];
-
-        if (capturedPiece?.powerId === STURDY_PAWN.id) {
-            (newBoard[bestMove.to.row][bestMove.to.col] as Piece).powerId = undefined;
-            setBoard(newBoard);
-            setTurn(PlayerColor.WHITE);
-            setMessage("STURDY PAWN BLOCKED AI ATTACK!");
-            playCapture();
+        const result = parseMoveInput(current, text);
+        if (result.ok === false) return result.reason;
+        dispatch({ type: 'move', ...result.move });
+        return null;
+    }, [dispatch]);
+
+    const restartGame = useCallback(() => {
+        showScreen(GameState.MENU);
+    }, [showScreen]);
+
+    // The AI searches in a worker so the page stays responsive. Its answer waits for a short pause
+    // so the player can see their own move land. Leaving the position cancels the search.
+    useEffect(() => {
+        if (session?.gameState !== GameState.PLAYING || session.turn !== PlayerColor.BLACK) return;
+        const client = aiClientRef.current ??= createAIClient();
+        let cancelled = false;
+        setIsAIThinking(true);
+        const pause = new Promise(resolve => setTimeout(resolve, settings.aiMoveDelayMs));
+        Promise.all([client.search(getAISearchRequest(session)), pause])
+            .then(([{ move, rngState }]) => {
+                if (!cancelled) dispatch({ type: 'ai-move', move, rngState });
+            })
+            .catch(error => {
+                console.error("AI worker failed, searching on the main thread:", error);
+                if (!cancelled) dispatch(chooseAIMove(session));
+            });
+        return () => {
+            cancelled = true;
+            client.cancel();
+            setIsAIThinking(false);
+        };
+    }, [session, dispatch, settings.aiMoveDelayMs]);
+
+    // Black's answers in a puzzle, searched the same way as in a run.
+    useEffect(() => {
+        if (puzzle?.status !== 'playing' || puzzle.match.turn !== PlayerColor.BLACK) return;
+        const client = aiClientRef.current ??= createAIClient();
+        const request = getPuzzleSearchRequest(puzzle);
+        let cancelled = false;
+        setIsAIThinking(true);
+        const pause = new Promise(resolve => setTimeout(resolve, settings.aiMoveDelayMs));
+        Promise.all([client.search(request), pause])
+            .then(([{ move, rngState }]) => {
+                if (!cancelled) dispatchPuzzle({ type: 'ai-move', move, rngState });
+            })
+            .catch(error => {
+                console.error("AI worker failed, searching on the main thread:", error);
+                if (!cancelled) dispatchPuzzle({ type: 'ai-move', ...runSearch(request) });
+            });
+        return () => {
+            cancelled = true;
+            client.cancel();
+            setIsAIThinking(false);
+        };
+    }, [puzzle, dispatchPuzzle, settings.aiMoveDelayMs]);
+
+    useEffect(() => () => aiClientRef.current?.dispose(), []);
+
+    useEffect(() => {
+        setAudioLevels({ master: settings.masterVolume, sfx: settings.sfxVolume, music: settings.musicVolume, muted: settings.muted });
+    }, [settings.masterVolume, settings.sfxVolume, settings.musicVolume, settings.muted]);
+
+    // The soundtrack plays during a run's levels and builds as the player closes in on the summon threshold.
+    useEffect(() => {
+        if (session?.gameState !== GameState.PLAYING) {
+            stopMusic();
             return;
         }
-        
-        newBoard[bestMove.to.row][bestMove.to.col] = newBoard[bestMove.from.row][bestMove.from.col];
-        newBoard[bestMove.from.row][bestMove.from.col] = null;
-        
-        if (capturedPiece) {
-            playCapture();
-            if (capturedPiece.type === PieceType.KING) {
-                setBoard(newBoard);
-                setMessage("YOUR KING WAS CAPTURED!");
-                setGameState(GameState.GAME_OVER);
-                return;
-            }
-        } else {
-            playMove();
-        }
-        
-        setBoard(newBoard);
-        setTurn(PlayerColor.WHITE);
-        setMessage(isKingSpawned && isCheck(newBoard, PlayerColor.WHITE, selectedBoard.rules) ? "CHECK! YOUR TURN" : "YOUR TURN");
-
-    }, [isKingSpawned, selectedBoard.rules, level]);
-
-    const handleSquareClick = useCallback((pos: Position) => {
-        if (turn !== PlayerColor.WHITE || gameState !== GameState.PLAYING) return;
-
-        if (selectedPiece) {
-            const isValidMove = validMoves.some(m => m.row === pos.row && m.col === pos.col);
-            if (isValidMove) {
-                const newBoard = JSON.parse(JSON.stringify(board));
-                const movedPiece = newBoard[selectedPiece.row][selectedPiece.col] as Piece;
-                const capturedPiece = board[pos.row][pos.col];
-
-                if (capturedPiece?.powerId === STURDY_PAWN.id) {
-                    playCapture();
-                    (newBoard[pos.row][pos.col] as Piece).powerId = undefined;
-                    setMessage("ATTACK BLOCKED BY STURDY PAWN!");
-                    setBoard(newBoard);
-                    setSelectedPiece(null);
-                    setValidMoves([]);
-                    setTurn(PlayerColor.BLACK);
-                    setTimeout(() => makeAIMove(newBoard), 500);
-                    return;
-                }
-                
-                if (capturedPiece) {
-                    playCapture();
-                    const value = PIECE_VALUES[capturedPiece.type];
-                    setBank(prev => prev + value);
-                    setCaptureValue(prev => prev + value);
-
-                    if (capturedPiece.type === PieceType.KING) {
-                        setMessage("ENEMY KING CAPTURED!");
-                        setGameState(GameState.LEVEL_WON);
-                        setBoard(newBoard);
-                        return;
-                    }
-                } else {
-                    playMove();
-                }
-                
-                newBoard[pos.row][pos.col] = movedPiece;
-                newBoard[selectedPiece.row][selectedPiece.col] = null;
-                
-                if (movedPiece.type === PieceType.PAWN && pos.row === 0) {
-                    newBoard[pos.row][pos.col].type = PieceType.QUEEN;
-                }
+        setMusicMood({
+            intensity: session.isKingSpawned ? 1 : session.captureValue / getSummonThreshold(session),
+            kingSummoned: session.isKingSpawned,
+        });
+        startMusic();
+    }, [session]);
 
-                setBoard(newBoard);
-                setSelectedPiece(null);
-                setValidMoves([]);
+    useEffect(() => stopMusic, []);
 
-                if (capturedPiece && movedPiece.powerId === RELENTLESS_PAWN.id) {
-                    setMessage("RELENTLESS! MOVE AGAIN.");
-                    // Don't change turn
-                } else {
-                    setTurn(PlayerColor.BLACK);
-                    setMessage("ENEMY'S TURN...");
-                    setTimeout(() => makeAIMove(newBoard), 500);
-                }
+    // Autosave after every turn and state transition. Mid-AI-turn boards are skipped so a resumed run always starts on the player's move.
+    useEffect(() => {
+        if (!session) return;
+        if (session.gameState === GameState.GAME_OVER) {
+            clearRun();
+            // The finished run's recording stays behind so it can be watched from the menu.
+            if (recordingRef.current) saveRecording(recordingRef.current);
+            return;
+        }
+        if ((session.gameState === GameState.PLAYING && session.turn !== PlayerColor.WHITE) || (session.gameState === GameState.SHOP && isLoading)) return;
+        saveRun(toRunSnapshot(session));
+        if (recordingRef.current) saveRecording(recordingRef.current);
+    }, [session, isLoading]);
 
-            } else if (pos.row === selectedPiece.row && pos.col === selectedPiece.col) {
-                 setSelectedPiece(null);
-                 setValidMoves([]);
-            } else {
-                const pieceOnNewPos = board[pos.row][pos.col];
-                if(pieceOnNewPos && pieceOnNewPos.color === PlayerColor.WHITE) {
-                    setSelectedPiece(pos);
-                    setValidMoves(getValidMoves(board, pos, selectedBoard.rules));
-                } else {
-                    setSelectedPiece(null);
-                    setValidMoves([]);
-                }
-            }
-        } else {
-            const piece = board[pos.row][pos.col];
-            if (piece && piece.color === PlayerColor.WHITE) {
-                setSelectedPiece(pos);
-                setValidMoves(getValidMoves(board, pos, selectedBoard.rules));
-            }
+    useEffect(() => {
+        if (gameState === GameState.MENU) {
+            setSavedRun(loadRun());
+            setLastRecording(loadRecording());
         }
-    }, [board, selectedPiece, validMoves, turn, gameState, makeAIMove, selectedBoard.rules]);
-    
-    const handleSummonKing = useCallback(() => {
-        if (isKingSpawned) return;
-        playSummon();
-        setBoard(prevBoard => {
-            const newBoard = JSON.parse(JSON.stringify(prevBoard));
-            const kingPos = findKing(newBoard, PlayerColor.BLACK);
-            if (kingPos) {
-                (newBoard[kingPos.row][kingPos.col] as Piece).isVisible = true;
-            }
-            return newBoard;
-        });
-        setIsKingSpawned(true);
-        setMessage("ENEMY KING HAS APPEARED!");
-    }, [isKingSpawned]);
-    
-    const restartGame = useCallback(() => {
-        setGameState(GameState.MENU);
-    }, []);
+    }, [gameState]);
 
     // Initial load effect
     useEffect(() => {
         if (gameState === GameState.LOADING) {
             const timer = setTimeout(() => {
-                setGameState(GameState.MENU);
+                setScreen(GameState.MENU);
                 setIsLoading(false);
             }, 1500);
             return () => clearTimeout(timer);
         }
     }, [gameState]);
 
-    const MainContent = () => {
+    // Called as a function rather than rendered as <MainContent />: a component defined in here would
+    // be a new type on every render and remount the whole screen, losing focus and local state.
+    const renderMainContent = () => {
         switch(gameState) {
             case GameState.LOADING:
                 return (
@@ -521,19 +694,148 @@ export default function App() {
                     <div className="flex flex-col items-center justify-center min-h-screen p-4 text-center">
                         <h1 className="text-3xl sm:text-5xl text-yellow-300">PAWN'S GAMBIT</h1>
                         <p className="mt-4 mb-8 text-xs sm:text-sm text-slate-300 max-w-2xl leading-relaxed">A roguelike chess adventure. Capture pieces for gold, buy pawns with unique powers, and defeat the king.</p>
-                        <PixelatedButton onClick={() => setGameState(GameState.BOARD_SELECT)} className="bg-green-600 hover:bg-green-500 py-3 px-6 text-lg">
-                            New Game
-                        </PixelatedButton>
+                        <div className="flex flex-col gap-4">
+                            {savedRun.status === 'ok' && (
+                                <PixelatedButton onClick={handleContinueRun} className="bg-blue-600 hover:bg-blue-500 py-3 px-6 text-lg">
+                                    Continue Run
+                                </PixelatedButton>
+                            )}
+                            <PixelatedButton onClick={() => setScreen(GameState.BOARD_SELECT)} className="bg-green-600 hover:bg-green-500 py-3 px-6 text-lg">
+                                New Game
+                            </PixelatedButton>
+                            <PixelatedButton onClick={handleStartDaily} className="bg-purple-600 hover:bg-purple-500">
+                                Daily Challenge
+                            </PixelatedButton>
+                            <PixelatedButton onClick={() => { replaceVersus(null); setScreen(GameState.VERSUS); }}>
+                                Versus
+                            </PixelatedButton>
+                            <PixelatedButton onClick={() => { replacePuzzle(null); setScreen(GameState.PUZZLES); }}>
+                                Puzzles
+                            </PixelatedButton>
+                            {lastRecording && lastRecording.actions.length > 0 && (
+                                <PixelatedButton onClick={() => openReplay(lastRecording)}>
+                                    Watch Last Run
+                                </PixelatedButton>
+                            )}
+                            <label className="pixel-border bg-slate-700 hover:bg-slate-600 px-4 py-2 cursor-pointer text-sm">
+                                Import Replay
+                                <input
+                                    type="file"
+                                    accept=".json,application/json"
+                                    className="hidden"
+                                    onChange={e => {
+                                        const file = e.target.files?.[0];
+                                        if (file) handleImportReplay(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                            <PixelatedButton onClick={() => setScreen(GameState.PROFILE)}>
+                                Profile
+                            </PixelatedButton>
+                            <PixelatedButton onClick={() => setScreen(GameState.SETTINGS)}>
+                                Settings
+                            </PixelatedButton>
+                        </div>
+                        {savedRun.status === 'ok' && (
+                            <p className="mt-4 text-xs text-slate-400">Level {savedRun.snapshot.level} &middot; ${savedRun.snapshot.bank}</p>
+                        )}
+                        {replayError && <p className="mt-4 text-xs text-red-400 max-w-md leading-relaxed">{replayError}</p>}
+                        {savedRun.status === 'error' && (
+                            <div className="mt-8 p-4 bg-slate-800 pixel-border max-w-md">
+                                <p className="text-xs text-red-400 leading-relaxed">Your saved run could not be loaded. {savedRun.reason}</p>
+                                <PixelatedButton onClick={handleDiscardRun} className="mt-4 bg-red-600 hover:bg-red-500">
+                                    Discard Save
+                                </PixelatedButton>
+                            </div>
+                        )}
+                    </div>
+                );
+            case GameState.PROFILE:
+                return (
+                    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+                        <PixelatedPanel className="w-full max-w-2xl">
+                            <h1 className="text-xl text-center mb-6">PROFILE</h1>
+                            <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+                                <div><p className="text-lg text-yellow-300">{profile.totalRuns}</p><p className="text-xs text-slate-400">RUNS</p></div>
+                                <div><p className="text-lg text-yellow-300">{profile.levelsWon}</p><p className="text-xs text-slate-400">LEVELS WON</p></div>
+                                <div><p className="text-lg text-yellow-300">{profile.bossesDefeated}</p><p className="text-xs text-slate-400">BOSSES</p></div>
+                            </div>
+                            <h2 className="text-sm text-yellow-300 mb-2">BEST LEVELS</h2>
+                            <ul className="text-xs text-slate-300 space-y-1 mb-6">
+                                {AVAILABLE_BOARDS.map(b => (
+                                    <li key={b.id} className="flex justify-between">
+                                        <span className={isBoardUnlocked(profile, b) ? '' : 'text-slate-500'}>{b.name}{isBoardUnlocked(profile, b) ? '' : ' (LOCKED)'}</span>
+                                        <span>{profile.bestLevels[b.id] ?? '-'}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                            <h2 className="text-sm text-yellow-300 mb-2">STARTING PAWNS</h2>
+                            <p className="text-xs text-slate-300 mb-6">{getStartingPawns(profile).map(p => p.name).join(', ')}</p>
+                            <h2 className="text-sm text-yellow-300 mb-2">ACHIEVEMENTS ({profile.achievements.length}/{ACHIEVEMENTS.length})</h2>
+                            <ul className="space-y-2">
+                                {ACHIEVEMENTS.map(a => {
+                                    const earned = profile.achievements.includes(a.id);
+                                    return (
+                                        <li key={a.id} className={`p-2 pixel-border ${earned ? 'bg-slate-700' : 'bg-slate-900/50'}`}>
+                                            <p className={`text-xs ${earned ? 'text-green-300' : 'text-slate-500'}`}>{earned ? '★' : '☆'} {a.name}</p>
+                                            <p className="text-xs text-slate-400 mt-1">{a.description}</p>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                            <div className="text-center mt-8">
+                                <PixelatedButton onClick={() => setScreen(GameState.MENU)} className="bg-yellow-500 hover:bg-yellow-600 text-slate-900">
+                                    Back
+                                </PixelatedButton>
+                            </div>
+                        </PixelatedPanel>
                     </div>
                 );
+            case GameState.SETTINGS:
+                return <SettingsScreen settings={settings} onChange={updateSettings} onBack={() => setScreen(GameState.MENU)} />;
             case GameState.BOARD_SELECT:
+                const startingPawns = getStartingPawns(profile);
                 return (
                     <div className="flex flex-col items-center justify-center min-h-screen p-4">
                         <PixelatedPanel className="w-full max-w-2xl">
                             <h1 className="text-xl text-center mb-6">CHOOSE YOUR BATTLEFIELD</h1>
+                            <div className="mb-6 p-4 bg-slate-900/50 pixel-border">
+                                {pendingSeed ? (
+                                    <div className="flex justify-between items-center gap-2">
+                                        <p className="text-xs text-cyan-300">SEED: {pendingSeed}</p>
+                                        <PixelatedButton onClick={() => setPendingSeed(null)} className="text-xs">Clear</PixelatedButton>
+                                    </div>
+                                ) : (
+                                    <>
+                                        <p className="text-xs text-slate-400">START FROM SEED (OPTIONAL)</p>
+                                        <SeedEntry onSubmit={setPendingSeed} />
+                                    </>
+                                )}
+                            </div>
+                            {startingPawns.length > 1 && (
+                                <div className="mb-6 p-4 bg-slate-900/50 pixel-border">
+                                    <p className="text-xs text-slate-400 mb-2">STARTING PAWN</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {startingPawns.map(pawn => {
+                                            const active = (startingPawnId ?? startingPawns[0].id) === pawn.id;
+                                            return (
+                                                <button
+                                                    key={pawn.id}
+                                                    onClick={() => setStartingPawnId(pawn.id)}
+                                                    title={pawn.description}
+                                                    className={`px-3 py-2 text-xs pixel-border ${active ? 'bg-blue-700 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}
+                                                >
+                                                    {pawn.name}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                </div>
+                            )}
                             <div className="space-y-4">
                                 {AVAILABLE_BOARDS.map(b => {
-                                    const locked = b.isLocked && level < (b.unlockLevel || 999);
+                                    const locked = !isBoardUnlocked(profile, b);
                                     return (
                                         <div key={b.id} className={`p-4 pixel-border ${locked ? 'bg-slate-700' : 'bg-slate-800'}`}>
                                             <h2 className={`text-lg ${locked ? 'text-slate-500' : 'text-yellow-300'}`}>{b.name} {locked ? `(LOCKED)`: ''}</h2>
@@ -547,60 +849,230 @@ export default function App() {
                     </div>
                 );
             case GameState.LEVEL_SELECT:
-                 return (
+                 if (!session) return null;
+                 return <MapScreen session={session} onChooseNode={handleChooseNode} />;
+            case GameState.REST:
+                if (!session) return null;
+                return (
                     <div className="flex flex-col items-center justify-center min-h-screen p-4">
-                        <PixelatedPanel className="text-center">
-                             <h1 className="text-xl text-yellow-300">PREPARE FOR BATTLE!</h1>
-                             <p className="my-6 text-slate-300">ENTERING LEVEL {level + 1}</p>
-                             <PixelatedButton onClick={proceedToNextLevel} className="bg-green-600 hover:bg-green-500">CONTINUE</PixelatedButton>
+                        <PixelatedPanel className="w-full max-w-md text-center">
+                            <h1 className="text-2xl mb-4 text-blue-300">CAMPFIRE</h1>
+                            <p className="text-slate-300 text-xs mb-6 leading-relaxed">Your army makes camp. How will you spend the night?</p>
+                            <PixelatedButton onClick={() => dispatch({ type: 'rest', choice: 'drill' })} className="bg-blue-600 hover:bg-blue-500 mb-4 w-full">
+                                Drill (+1 undo every level)
+                            </PixelatedButton>
+                            <PixelatedButton onClick={() => dispatch({ type: 'rest', choice: 'forage' })} className="bg-green-600 hover:bg-green-500 w-full">
+                                Forage (+${getForageGold(session.level)})
+                            </PixelatedButton>
+                        </PixelatedPanel>
+                    </div>
+                );
+            case GameState.EVENT:
+                if (!session) return null;
+                const runEvent = findRunEvent(getCurrentNode(session.map)?.eventId);
+                if (!runEvent) return null;
+                return (
+                    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+                        <PixelatedPanel className="w-full max-w-md text-center">
+                            <h1 className="text-2xl mb-4 text-purple-300">{runEvent.title}</h1>
+                            <p className="text-slate-300 text-xs mb-2 leading-relaxed">{runEvent.description}</p>
+                            <p className="text-green-300 text-xs mb-6">BANK: ${session.bank}</p>
+                            {runEvent.choices.map((choice, i) => (
+                                <PixelatedButton
+                                    key={choice.label}
+                                    onClick={() => dispatch({ type: 'resolve-event', choice: i })}
+                                    disabled={session.bank < (choice.cost ?? 0)}
+                                    className="mb-4 w-full"
+                                >
+                                    {choice.label}
+                                </PixelatedButton>
+                            ))}
                         </PixelatedPanel>
                     </div>
                 );
             case GameState.SHOP:
-                 return <Shop bank={bank} shopPawns={shopPawns} onBuyPawn={buyPawn} onContinue={handleNextLevel} isLoading={isLoading} />;
+                 if (!session) return null;
+                 return <ShopScreen session={session} dispatch={dispatch} onReroll={handleRerollShop} isLoading={isLoading} />;
+            case GameState.LEVEL_DRAWN:
+                if (!session) return null;
+                const drawReason = getDrawReason(session.chessState, getLevelRules(session));
+                return (
+                    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+                         <PixelatedPanel className="w-full max-w-md text-center">
+                            <h1 className="text-2xl mb-4 text-yellow-300">ARMISTICE</h1>
+                            <p className="text-slate-300 text-sm mb-2">{drawReason ? DRAW_MESSAGES[drawReason] : 'DRAW!'}</p>
+                            <p className="text-slate-400 text-xs mb-6 leading-relaxed">The armies withdraw. You keep your gold, but level {session.level} must be fought again.</p>
+                            <EarnedAchievements achievements={newAchievements} />
+                            <PixelatedButton onClick={() => dispatch({ type: 'refight-level' })} className="bg-green-600 hover:bg-green-500 mb-4 w-full">
+                                Refight Level
+                            </PixelatedButton>
+                            <PixelatedButton onClick={restartGame} className="bg-yellow-500 hover:bg-yellow-600 text-slate-900 w-full">
+                                Main Menu
+                            </PixelatedButton>
+                         </PixelatedPanel>
+                    </div>
+                );
             case GameState.GAME_OVER:
             case GameState.LEVEL_WON:
+                if (!session) return null;
                 const isWin = gameState === GameState.LEVEL_WON;
+                const wonNode = getCurrentNode(session.map);
                 return (
                     <div className="flex flex-col items-center justify-center min-h-screen p-4">
                          <PixelatedPanel className="w-full max-w-md text-center">
                             <h1 className={`text-2xl mb-4 ${isWin ? 'text-green-400' : 'text-red-500'}`}>{isWin ? "LEVEL COMPLETE!" : "GAME OVER"}</h1>
-                            <p className="text-slate-300 text-sm mb-6">{isWin ? `You beat level ${level}!` : `You were defeated on level ${level}.`}</p>
+                            <p className="text-slate-300 text-sm mb-2">{isWin ? `You beat level ${session.level}!` : `You were defeated on level ${session.level}.`}</p>
+                            {isWin && wonNode?.kind === 'elite' && <p className="text-green-300 text-xs mb-2">ELITE BOUNTY: +${ELITE_BOUNTY}</p>}
+                            {isWin && wonNode?.kind === 'boss' && (
+                                <>
+                                    <p className="text-yellow-300 text-xs mb-2">ACT {session.map.act} CONQUERED! BOSS BOUNTY: +${BOSS_BOUNTY}</p>
+                                    {getBoss(session) && <p className="text-cyan-300 text-xs mb-2">TROPHY: {getBoss(session)?.reward.name}</p>}
+                                </>
+                            )}
+                            <p className="text-slate-400 text-xs mb-6">{session.runMode === 'daily' ? 'DAILY ' : ''}SEED: {session.seed}</p>
+                            <EarnedAchievements achievements={newAchievements} />
                             {isWin ? (
-                                 <PixelatedButton onClick={enterShop} className="bg-blue-600 hover:bg-blue-500 mb-4 w-full">
-                                    Go to Shop
+                                 <PixelatedButton onClick={() => dispatch({ type: 'open-map' })} className="bg-blue-600 hover:bg-blue-500 mb-4 w-full">
+                                    Continue
                                 </PixelatedButton>
                             ) : null}
+                            {session.moveLog.length > 0 && (
+                                <PixelatedButton onClick={handleExportPgn} className="mb-4 w-full">
+                                    Export PGN
+                                </PixelatedButton>
+                            )}
+                            {!isWin && recordingRef.current && (
+                                <PixelatedButton onClick={() => openReplay(recordingRef.current as RunRecording)} className="mb-4 w-full">
+                                    Watch Replay
+                                </PixelatedButton>
+                            )}
                             <PixelatedButton onClick={restartGame} className="bg-yellow-500 hover:bg-yellow-600 text-slate-900 w-full">
                                 {isWin ? "Main Menu" : "Play Again"}
                             </PixelatedButton>
                          </PixelatedPanel>
                     </div>
                 );
+            case GameState.REPLAY:
+                if (!replay) return null;
+                return (
+                    <ReplayScreen
+                        frames={replay.frames}
+                        seed={replay.recording.seed}
+                        onExport={() => handleExportReplay(replay.recording)}
+                        onExit={() => setScreen(GameState.MENU)}
+                    />
+                );
+            case GameState.VERSUS:
+                if (versus) {
+                    return (
+                        <VersusScreen
+                            match={versus}
+                            onAction={dispatchVersus}
+                            onExportPgn={handleExportVersusPgn}
+                            onRematch={seat ? undefined : () => handleStartVersus(versus.boardInfo)}
+                            onExit={handleLeaveVersus}
+                            localColor={seat?.color ?? undefined}
+                            status={seat ? describeSeat(seat) : undefined}
+                            showThreats={settings.showThreats}
+                        />
+                    );
+                }
+                if (seat) {
+                    return <OnlineLobby seat={seat} onCancel={handleCancelOnline} />;
+                }
+                return (
+                    <VersusMenu
+                        boards={VERSUS_BOARDS.filter(b => isBoardUnlocked(profile, b))}
+                        onStart={handleStartVersus}
+                        onHost={b => handleGoOnline({ type: 'create', version: PROTOCOL_VERSION, boardId: b.id })}
+                        onJoin={code => handleGoOnline({ type: 'join', version: PROTOCOL_VERSION, code })}
+                        onBack={() => setScreen(GameState.MENU)}
+                    />
+                );
+            case GameState.PUZZLES: {
+                if (puzzle) {
+                    const next = ALL_PUZZLES[ALL_PUZZLES.findIndex(p => p.id === puzzle.puzzle.id) + 1];
+                    return (
+                        <PuzzleScreen
+                            puzzle={puzzle}
+                            isThinking={isAIThinking}
+                            onAction={dispatchPuzzle}
+                            onNext={next ? () => replacePuzzle(createPuzzleSession(next)) : undefined}
+                            onExit={() => replacePuzzle(null)}
+                            showThreats={settings.showThreats}
+                        />
+                    );
+                }
+                return (
+                    <PuzzleList
+                        packs={AVAILABLE_PUZZLE_PACKS}
+                        puzzleStars={profile.puzzleStars}
+                        onChoose={p => replacePuzzle(createPuzzleSession(p))}
+                        onBack={() => setScreen(GameState.MENU)}
+                    />
+                );
+            }
+            case GameState.DEPLOY:
+                if (!session) return null;
+                return <DeployScreen session={session} dispatch={dispatch} />;
             case GameState.PLAYING:
+                if (!session) return null;
+                const selectedPower = getSelectedPower(session);
+                const { pendingPromotion } = session;
+                const view = getPlayerView(session);
                 return (
                     <main className="flex flex-col lg:flex-row items-center justify-center min-h-screen p-4 gap-6">
                         <div className="flex flex-col gap-6 items-center">
                             <GameUI 
-                                level={level}
-                                bank={bank}
-                                captureProgress={captureValue}
-                                kingSpawnThreshold={kingSpawnThreshold}
-                                turn={turn}
-                                message={message}
-                                isKingSpawned={isKingSpawned}
-                                onSummonKing={handleSummonKing}
-                                selectedPower={selectedPawnPower}
+                                level={session.level}
+                                act={session.map.act}
+                                encounter={getCurrentNode(session.map)?.kind ?? null}
+                                boss={getBoss(session)}
+                                bank={session.bank}
+                                captureProgress={session.captureValue}
+                                kingSpawnThreshold={getSummonThreshold(session)}
+                                relics={getRelics(session.relics)}
+                                turn={session.turn}
+                                message={session.message}
+                                isThinking={isAIThinking}
+                                isKingSpawned={session.isKingSpawned}
+                                onSummonKing={() => dispatch({ type: 'summon-king' })}
+                                selectedPower={selectedPower}
+                                seed={session.seed}
                             />
-                            <GameBoard 
-                                board={board} 
-                                onSquareClick={handleSquareClick}
-                                selectedPiece={selectedPiece}
-                                validMoves={validMoves}
-                                playerColor={PlayerColor.WHITE}
+                            <div className="relative">
+                                <GameBoard 
+                                    board={view.board} 
+                                    rules={getLevelRules(session)}
+                                    onSquareClick={pos => dispatch({ type: 'select', pos })}
+                                    selectedPiece={session.selectedPiece}
+                                    inspectedPiece={session.inspectedPiece}
+                                    validMoves={session.validMoves}
+                                    playerColor={PlayerColor.WHITE}
+                                    powers={getKnownPowers(session)}
+                                    onCancel={handleCancelSelection}
+                                    highlights={getBoardHighlights(view.board, getLevelRules(session), view.moveLog, session.turn, settings.showThreats ? PlayerColor.BLACK : null)}
+                                    visible={view.visible}
+                                />
+                                {pendingPromotion && (
+                                    <PromotionPicker
+                                        onChoose={type => dispatch({ type: 'move', from: pendingPromotion.from, to: pendingPromotion.to, promotion: type })}
+                                        onCancel={() => dispatch({ type: 'cancel-promotion' })}
+                                    />
+                                )}
+                            </div>
+                            {settings.moveEntry && <MoveEntry onSubmit={handleTypedMove} />}
+                        </div>
+                        <div className="flex flex-col gap-6 items-center">
+                            <SpecialPawnInfoPanel power={selectedPower} piece={getInspectedPiece(session)} />
+                            <MoveHistoryPanel
+                                moves={view.moveLog}
+                                undosRemaining={session.undosRemaining}
+                                canUndo={canUndo(session)}
+                                onUndo={() => dispatch({ type: 'undo' })}
+                                onExportPgn={view.visible ? undefined : handleExportPgn}
                             />
                         </div>
-                        <SpecialPawnInfoPanel power={selectedPawnPower} />
                     </main>
                 );
             default:
@@ -609,8 +1081,12 @@ export default function App() {
     }
 
     return (
-        <div className="w-full h-full bg-slate-900 text-white selection:bg-yellow-300 selection:text-black">
-            <MainContent />
+        <div
+            className="w-full h-full bg-slate-900 text-white selection:bg-yellow-300 selection:text-black"
+            style={{ '--animation-scale': ANIMATION_SCALES[settings.animationSpeed] } as React.CSSProperties}
+        >
+            {renderMainContent()}
+            <div aria-live="polite" aria-atomic="true" className="sr-only">{session ? getAnnouncement(session) : versus ? getVersusAnnouncement(versus) : puzzle ? getVersusAnnouncement(puzzle.match) : ''}</div>
         </div>
     );
 }
\ No newline at end of file
@@ -0,0 +1,9 @@
+import classic from './classic.json';
+import pawnMarch from './pawn_march.json';
+import fortress from './fortress.json';
+import skirmish from './skirmish.json';
+import marsh from './marsh.json';
+import mists from './mists.json';
+
+// Boards in the order they appear on the battlefield screen. Add new definitions here.
+export const BOARD_DEFINITIONS: unknown[] = [classic, pawnMarch, fortress, skirmish, marsh, mists];
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { PlayerColor } from '../types';
+import type { Position } from '../types';
+import { getLevelRules, getPlayerView } from '../services/gameEngine';
+import type { GameSession, GameAction } from '../services/gameEngine';
+import { getDeploySlots, getPlacements, isSwappable } from '../services/deployment';
+import { squareName } from '../services/notation';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+import { GameBoard } from './GameBoard';
+
+interface DeployScreenProps {
+    session: GameSession;
+    dispatch: (action: GameAction) => void;
+}
+
+// Powers are dragged (or clicked, then a pawn clicked) onto pawns; officers trade places the same way.
+// The current pick is local state; every action that changes the board clears it.
+// In the fog of war the board is drawn as the player sees it, so enemy pieces out of sight stay hidden.
+export const DeployScreen: React.FC<DeployScreenProps> = ({ session, dispatch }) => {
+    const { board, visible } = getPlayerView(session);
+    const { level, ownedPawns } = session;
+    const onDeploy = (index: number, pos: Position) => dispatch({ type: 'deploy-power', index, pos });
+    const onSwap = (from: Position, to: Position) => dispatch({ type: 'swap-pieces', from, to });
+    const [picked, setPicked] = useState<{ power: number } | { piece: Position } | null>(null);
+    const placements = getPlacements(board, ownedPawns);
+    const benchedCount = placements.filter(p => !p).length;
+
+    const handleSquareClick = (pos: Position) => {
+        if (picked && 'power' in picked) {
+            onDeploy(picked.power, pos);
+            setPicked(null);
+        } else if (picked && 'piece' in picked) {
+            onSwap(picked.piece, pos);
+            setPicked(null);
+        } else if (isSwappable(board, pos)) {
+            setPicked({ piece: pos });
+        }
+    };
+
+    const handleDrop = (pos: Position, payload: string) => {
+        const [kind, value] = payload.split(':');
+        if (kind === 'power') onDeploy(Number(value), pos);
+        if (kind === 'piece') {
+            const [row, col] = value.split(',').map(Number);
+            onSwap({ row, col }, pos);
+        }
+        setPicked(null);
+    };
+
+    return (
+        <main className="flex flex-col lg:flex-row items-center justify-center min-h-screen p-4 gap-6">
+            <GameBoard
+                board={board}
+                rules={getLevelRules(session)}
+                onSquareClick={handleSquareClick}
+                selectedPiece={picked && 'piece' in picked ? picked.piece : null}
+                inspectedPiece={null}
+                validMoves={picked && 'power' in picked ? getDeploySlots(board) : []}
+                playerColor={PlayerColor.WHITE}
+                powers={ownedPawns}
+                onCancel={() => setPicked(null)}
+                onSquareDrop={handleDrop}
+                isDraggable={pos => isSwappable(board, pos)}
+                visible={visible}
+            />
+            <PixelatedPanel className="w-full max-w-sm">
+                <h1 className="text-lg text-yellow-300 mb-2">DEPLOY &middot; LEVEL {level}</h1>
+                <p className="text-xs text-slate-400 mb-4 leading-relaxed">Drag a power onto one of your pawns, or click it and then the pawn. Drag your officers onto each other to swap them.</p>
+                <ul className="space-y-2 mb-4">
+                    {ownedPawns.map((pawn, i) => {
+                        const placed = placements[i];
+                        const active = picked && 'power' in picked && picked.power === i;
+                        return (
+                            <li
+                                key={i}
+                                draggable
+                                onDragStart={e => e.dataTransfer.setData('text/plain', `power:${i}`)}
+                                onClick={() => setPicked(active ? null : { power: i })}
+                                className={`flex justify-between items-center gap-2 p-2 cursor-grab pixel-border ${active ? 'bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+                            >
+                                <span className="text-xs text-cyan-300">{pawn.name}</span>
+                                {placed ? (
+                                    <span className="flex items-center gap-2">
+                                        <span className="text-xs text-slate-300">{squareName(placed, board)}</span>
+                                        <button onClick={e => { e.stopPropagation(); dispatch({ type: 'bench-power', pos: placed }); }} className="text-xs text-red-300 hover:text-red-200">BENCH</button>
+                                    </span>
+                                ) : (
+                                    <span className="text-xs text-slate-500">BENCHED</span>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+                {benchedCount > 0 && (
+                    <p className="text-xs text-yellow-200 mb-4 leading-relaxed">
+                        {benchedCount} {benchedCount === 1 ? 'power sits' : 'powers sit'} on the bench this level. Benched powers stay yours; a pawn can carry only one power.
+                    </p>
+                )}
+                <div className="flex gap-2">
+                    <PixelatedButton onClick={() => dispatch({ type: 'auto-deploy' })} className="flex-1 text-xs">Auto</PixelatedButton>
+                    <PixelatedButton onClick={() => dispatch({ type: 'start-battle' })} className="flex-1 bg-green-600 hover:bg-green-500">Fight!</PixelatedButton>
+                </div>
+            </PixelatedPanel>
+        </main>
+    );
+};
@@ -0,0 +1,226 @@
+import React, { useState, useRef } from 'react';
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardRules, PawnPower, Piece, Position } from '../types';
+import { isWall, isHazard } from '../services/movement';
+import { describeSquare } from '../services/boardSpeech';
+import { NO_HIGHLIGHTS } from '../services/boardHighlights';
+import type { BoardHighlights } from '../services/boardHighlights';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+
+const PieceComponent: React.FC<{ piece: Piece, isSelected: boolean }> = React.memo(({ piece, isSelected }) => {
+    if (piece.isVisible === false) {
+        return null;
+    }
+    
+    const color = piece.color === PlayerColor.WHITE ? '#F9FAFB' : '#52525B';
+    const stroke = piece.color === PlayerColor.WHITE ? '#374151' : '#E4E4E7';
+    const isEnemyKing = piece.type === PieceType.KING && piece.color === PlayerColor.BLACK;
+    // Cyan for the player's powers, red for the enemy's; enemy elites also glow gold.
+    const powerGlow = piece.color === PlayerColor.WHITE ? '#22d3ee' : '#f87171';
+
+    const styles: React.CSSProperties = {
+        width: '80%',
+        height: '80%',
+        transform: isSelected ? 'scale(1.1)' : 'scale(1)',
+        transition: 'transform calc(0.2s * var(--animation-scale, 1))',
+        filter: [
+            piece.powerId ? `drop-shadow(0 0 6px ${powerGlow}) drop-shadow(0 0 3px ${powerGlow})` : '',
+            piece.isElite ? 'drop-shadow(0 0 4px #facc15)' : '',
+        ].filter(Boolean).join(' ') || 'none',
+    };
+    
+    const className = isEnemyKing ? 'rainbow-king-glow' : '';
+
+    const paths: Record<PieceType, React.ReactNode> = {
+        [PieceType.PAWN]: <path d="M12 8a2.5 2.5 0 1 1 0 5 2.5 2.5 0 0 1 0-5z M10 13h4v3h-4z M9 16h6v2h-6z" />,
+        [PieceType.ROOK]: <path d="M7 7h2v3h-2z M15 7h2v3h-2z M11 7h2v3h-2z M7 10h10v2h-10z M8 12h8v6h-8z M7 18h10v2h-10z" />,
+        [PieceType.BISHOP]: <path d="M12 6l3 4v3h-6v-3z M11 13h2l-1 2z M9 15h6v3h-6z M8 18h8v2h-8z" />,
+        [PieceType.KNIGHT]: <path d="M9 20v-6l-2-2V8h2l3-3h3v2l-1 1 1 1v2l1 1v2h2v4h2v2H9z" />,
+        [PieceType.QUEEN]: <path d="M6 7l2-3h8l2 3-3 3 3 3-2 3h-8l-2-3 3-3z M8 16h8v2h-8z M7 18h10v2h-10z" />,
+        [PieceType.KING]: isEnemyKing ?
+            <path d="M11 5h2v3h3v2h-3v3h-2v-3h-3v-2h3z M5 13h14v2h-14z M8 15h8v4h-8z M6 19h12v2h-12z" /> :
+            <path d="M11 5h2v3h3v2h-3v3h-2v-3h-3v-2h3z M9 13h6v5h-6z M8 18h8v2h-8z" />,
+    };
+
+    const pieceSvgContent = paths[piece.type];
+
+    return (
+        <svg viewBox="0 0 24 24" style={{...styles, shapeRendering: 'crispEdges'}} className={className} xmlns="http://www.w3.org/2000/svg" aria-hidden="true">
+            <g fill={color} stroke={stroke} strokeWidth="1">
+                {pieceSvgContent}
+            </g>
+        </svg>
+    );
+});
+
+interface GameBoardProps {
+    board: Board;
+    rules: BoardRules;
+    onSquareClick: (pos: Position) => void;
+    selectedPiece: Position | null;
+    inspectedPiece: Position | null;
+    validMoves: Position[];
+    playerColor: PlayerColor;
+    // Drag and drop, used by the deployment screen. Dragged pieces carry "piece:row,col".
+    onSquareDrop?: (pos: Position, payload: string) => void;
+    isDraggable?: (pos: Position) => boolean;
+    powers?: PawnPower[]; // Used to name powers in the square labels
+    onCancel?: () => void; // Escape
+    label?: string;
+    highlights?: BoardHighlights;
+    visible?: boolean[][] | null; // Fog of war: squares outside it are drawn as fog
+}
+
+// A roving-focus ARIA grid: one square is tabbable at a time, arrow keys move it as the board is
+// drawn, Enter or Space click the square and Escape cancels.
+export const GameBoard: React.FC<GameBoardProps> = ({ board, rules, onSquareClick, selectedPiece, inspectedPiece, validMoves, playerColor, onSquareDrop, isDraggable, powers = [], onCancel, label = 'Chess board', highlights = NO_HIGHLIGHTS, visible = null }) => {
+    const boardToRender = playerColor === PlayerColor.WHITE ? board : [...board].reverse().map(row => [...row].reverse());
+    const isMoveValid = (r: number, c: number) => validMoves.some(move => move.row === r && move.col === c);
+    const { lastMove, moveNumber, checkedKing, powerPulse } = highlights;
+    const isAt = (square: Position | null | undefined, r: number, c: number) => !!square && square.row === r && square.col === c;
+    // The moved piece starts on its old square and slides over; the offset is in squares as drawn.
+    const flip = playerColor === PlayerColor.WHITE ? 1 : -1;
+    const slideFrom = lastMove && highlights.slide ? {
+        '--slide-x': `${(lastMove.from.col - lastMove.to.col) * flip * 100}%`,
+        '--slide-y': `${(lastMove.from.row - lastMove.to.row) * flip * 100}%`,
+    } as React.CSSProperties : undefined;
+    const [focused, setFocused] = useState<Position>({ row: board.length - 1, col: 0 });
+    const gridRef = useRef<HTMLDivElement | null>(null);
+    const focusedPos = focused.row < board.length && focused.col < board[0].length ? focused : { row: 0, col: 0 };
+
+    const handleKeyDown = (e: React.KeyboardEvent, pos: Position) => {
+        const step = playerColor === PlayerColor.WHITE ? 1 : -1;
+        const deltas: Record<string, [number, number]> = { ArrowUp: [-step, 0], ArrowDown: [step, 0], ArrowLeft: [0, -step], ArrowRight: [0, step] };
+        if (deltas[e.key]) {
+            e.preventDefault();
+            const next = {
+                row: Math.max(0, Math.min(board.length - 1, pos.row + deltas[e.key][0])),
+                col: Math.max(0, Math.min(board[0].length - 1, pos.col + deltas[e.key][1])),
+            };
+            setFocused(next);
+            (gridRef.current?.querySelector(`[data-square="${next.row}-${next.col}"]`) as HTMLElement | null)?.focus();
+        } else if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            if (!isWall(rules, pos.row, pos.col)) onSquareClick(pos);
+        } else if (e.key === 'Escape') {
+            onCancel?.();
+        }
+    };
+    // Wide boards get smaller squares so they still fit the screen.
+    const squareSize = board[0].length > 8
+        ? 'w-9 h-9 sm:w-12 sm:h-12 md:w-16 md:h-16'
+        : 'w-14 h-14 sm:w-16 sm:h-16 md:w-20 md:h-20';
+    
+    return (
+        <div ref={gridRef} role="grid" aria-label={label} className="flex flex-col border-4 border-black bg-slate-600 shadow-2xl pixel-border">
+            {boardToRender.map((row, rIdx) => (
+                <div key={rIdx} role="row" className="flex">
+                    {row.map((square, cIdx) => {
+                        const originalR = playerColor === PlayerColor.WHITE ? rIdx : board.length - 1 - rIdx;
+                        const originalC = playerColor === PlayerColor.WHITE ? cIdx : row.length - 1 - cIdx;
+                        const isSelected = selectedPiece && selectedPiece.row === originalR && selectedPiece.col === originalC;
+                        const isInspected = inspectedPiece && inspectedPiece.row === originalR && inspectedPiece.col === originalC;
+                        const isValidMove = isMoveValid(originalR, originalC);
+                        const pos = { row: originalR, col: originalC };
+                        const isLastMove = isAt(lastMove?.from, originalR, originalC) || isAt(lastMove?.to, originalR, originalC);
+                        const isChecked = isAt(checkedKing, originalR, originalC);
+                        const isThreatened = highlights.threats.some(sq => isAt(sq, originalR, originalC));
+                        const isLanding = isAt(lastMove?.to, originalR, originalC);
+                        const isSeen = !visible || visible[originalR][originalC];
+                        const cellProps = {
+                            role: 'gridcell',
+                            'data-square': `${originalR}-${originalC}`,
+                            tabIndex: focusedPos.row === originalR && focusedPos.col === originalC ? 0 : -1,
+                            'aria-label': `${describeSquare(board, pos, rules, powers, isSeen)}${isChecked ? ', in check' : ''}${isThreatened ? ', attacked' : ''}${isValidMove ? ', legal move' : ''}`,
+                            'aria-selected': !!isSelected,
+                            onKeyDown: (e: React.KeyboardEvent) => handleKeyDown(e, pos),
+                            onFocus: () => setFocused(pos),
+                        };
+
+                        if (isWall(rules, originalR, originalC)) {
+                            return <div key={`${originalR}-${originalC}`} {...cellProps} className={`${squareSize} bg-stone-800 border-2 border-stone-900 focus:outline focus:outline-4 focus:outline-cyan-300`} title="Wall"></div>;
+                        }
+
+                        if (!isSeen) {
+                            return (
+                                <div
+                                    key={`${originalR}-${originalC}`}
+                                    {...cellProps}
+                                    className={`${squareSize} fog-square relative cursor-pointer focus:outline focus:outline-4 focus:outline-cyan-300 focus:z-10`}
+                                    onClick={() => onSquareClick(pos)}
+                                    title="Fog"
+                                >
+                                    {isValidMove && <div className="absolute inset-0 bg-green-500/50 rounded-full w-6 h-6 m-auto"></div>}
+                                </div>
+                            );
+                        }
+
+                        const bgColor = isHazard(rules, originalR, originalC)
+                            ? 'bg-[#2f5d50]'
+                            : (originalR + originalC) % 2 === 0 ? 'bg-[#c2b280]' : 'bg-[#6b4226]';
+                        
+                        return (
+                            <div
+                                key={`${originalR}-${originalC}`}
+                                {...cellProps}
+                                className={`${squareSize} flex items-center justify-center cursor-pointer transition-colors duration-200 ${bgColor} relative focus:outline focus:outline-4 focus:outline-cyan-300 focus:z-10`}
+                                onClick={() => onSquareClick({ row: originalR, col: originalC })}
+                                draggable={!!square && !!isDraggable?.({ row: originalR, col: originalC })}
+                                onDragStart={e => e.dataTransfer.setData('text/plain', `piece:${originalR},${originalC}`)}
+                                onDragOver={onSquareDrop ? e => e.preventDefault() : undefined}
+                                onDrop={onSquareDrop ? e => { e.preventDefault(); onSquareDrop({ row: originalR, col: originalC }, e.dataTransfer.getData('text/plain')); } : undefined}
+                            >
+                                {isLastMove && <div className="absolute inset-0 bg-yellow-300/30 pointer-events-none"></div>}
+                                {isThreatened && <div className="absolute inset-0 bg-red-600/30 pointer-events-none"></div>}
+                                {isChecked && <div className="absolute inset-0 check-glow pointer-events-none"></div>}
+                                {square && (
+                                    <div
+                                        key={isLanding && slideFrom ? `slide-${moveNumber}` : 'piece'}
+                                        className={`relative w-full h-full flex items-center justify-center pointer-events-none ${isLanding && slideFrom ? 'piece-slide z-10' : ''}`}
+                                        style={isLanding ? slideFrom : undefined}
+                                    >
+                                        <PieceComponent piece={square} isSelected={!!isSelected} />
+                                    </div>
+                                )}
+                                {isLanding && highlights.capture && <div key={`capture-${moveNumber}`} className="absolute inset-0 capture-burst pointer-events-none"></div>}
+                                {isAt(powerPulse, originalR, originalC) && (
+                                    <div
+                                        key={`pulse-${moveNumber}`}
+                                        className="absolute inset-0 power-pulse pointer-events-none"
+                                        style={{ '--pulse-color': square?.color === PlayerColor.BLACK ? '#f87171' : '#22d3ee' } as React.CSSProperties}
+                                    ></div>
+                                )}
+                                {isValidMove && <div className="absolute inset-0 bg-green-500/50 rounded-full w-6 h-6 m-auto"></div>}
+                                {isSelected && <div className="absolute inset-0 border-4 border-yellow-400"></div>}
+                                {isInspected && <div className="absolute inset-0 border-4 border-red-400"></div>}
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const PROMOTION_CHOICES = [PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT];
+
+export const PromotionPicker: React.FC<{ onChoose: (type: PieceType) => void, onCancel: () => void, color?: PlayerColor }> = ({ onChoose, onCancel, color = PlayerColor.WHITE }) => (
+    <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60">
+        <PixelatedPanel className="text-center">
+            <h3 className="text-sm text-yellow-300 mb-4">PROMOTE TO</h3>
+            <div className="flex gap-2">
+                {PROMOTION_CHOICES.map(type => (
+                    <button
+                        key={type}
+                        onClick={() => onChoose(type)}
+                        className="w-14 h-14 sm:w-16 sm:h-16 flex items-center justify-center bg-[#c2b280] hover:bg-yellow-200 pixel-border"
+                        aria-label={type}
+                    >
+                        <PieceComponent piece={{ id: `promote-${type}`, type, color }} isSelected={false} />
+                    </button>
+                ))}
+            </div>
+            <PixelatedButton onClick={onCancel} className="mt-4 text-xs">Cancel</PixelatedButton>
+        </PixelatedPanel>
+    </div>
+);
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { MapNode, MapNodeKind, RunMap } from '../types';
+import { getReachableNodes } from '../services/runMap';
+import { findBoss } from '../services/bosses';
+import type { GameSession } from '../services/gameEngine';
+import { PixelatedPanel } from './Pixelated';
+
+const MAP_NODE_STYLES: Record<MapNodeKind, { label: string, icon: string, color: string }> = {
+    battle: { label: 'Battle', icon: '⚔', color: 'bg-slate-600' },
+    elite: { label: 'Elite', icon: '☠', color: 'bg-orange-700' },
+    shop: { label: 'Shop', icon: '$', color: 'bg-green-700' },
+    rest: { label: 'Rest', icon: '⛺', color: 'bg-blue-700' },
+    event: { label: 'Event', icon: '?', color: 'bg-purple-700' },
+    boss: { label: 'Boss', icon: '♚', color: 'bg-red-700' },
+};
+
+// The act's map, boss at the top. Edges are drawn in an SVG behind the node buttons, both laid
+// out in percentages of the same box.
+const RunMapView: React.FC<{ map: RunMap, onChoose: (node: MapNode) => void }> = ({ map, onChoose }) => {
+    const rowCount = Math.max(...map.nodes.map(n => n.row)) + 1;
+    const rowWidths: number[] = [];
+    map.nodes.forEach(n => { rowWidths[n.row] = Math.max(rowWidths[n.row] ?? 0, n.col + 1); });
+    const position = (node: MapNode) => ({
+        x: (node.col + 0.5) / rowWidths[node.row] * 100,
+        y: (rowCount - node.row - 0.5) / rowCount * 100,
+    });
+    const reachable = getReachableNodes(map).map(n => n.id);
+    const byId = new Map(map.nodes.map(n => [n.id, n]));
+
+    return (
+        <div className="relative w-full h-96">
+            <svg className="absolute inset-0 w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                {map.nodes.flatMap(node => node.next.map(nextId => {
+                    const from = position(node);
+                    const to = position(byId.get(nextId) as MapNode);
+                    const travelled = map.visited.includes(node.id) && map.visited.includes(nextId);
+                    return (
+                        <line key={`${node.id}>${nextId}`} x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                            stroke={travelled ? '#facc15' : '#475569'} strokeWidth={travelled ? 1 : 0.5} vectorEffect="non-scaling-stroke" />
+                    );
+                }))}
+            </svg>
+            {map.nodes.map(node => {
+                const { x, y } = position(node);
+                const style = MAP_NODE_STYLES[node.kind];
+                const canChoose = reachable.includes(node.id);
+                const isCurrent = map.currentNodeId === node.id;
+                const isVisited = map.visited.includes(node.id);
+                return (
+                    <button
+                        key={node.id}
+                        onClick={() => onChoose(node)}
+                        disabled={!canChoose}
+                        title={node.kind === 'boss' ? findBoss(node.bossId)?.name ?? style.label : style.label}
+                        aria-label={`${style.label}${isVisited ? ' (visited)' : ''}`}
+                        style={{ left: `${x}%`, top: `${y}%` }}
+                        className={`absolute -translate-x-1/2 -translate-y-1/2 w-10 h-10 flex items-center justify-center text-lg pixel-border ${style.color}
+                            ${canChoose ? 'animate-pulse hover:scale-110 cursor-pointer' : 'cursor-default'}
+                            ${isVisited && !isCurrent ? 'opacity-40' : ''} ${isCurrent ? 'ring-4 ring-yellow-300' : ''}`}
+                    >
+                        {style.icon}
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+// Between fights: the act's map, where the player picks the next node.
+export const MapScreen: React.FC<{ session: GameSession, onChooseNode: (node: MapNode) => void }> = ({ session, onChooseNode }) => (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <PixelatedPanel className="w-full max-w-md text-center">
+            <h1 className="text-xl text-yellow-300">ACT {session.map.act}</h1>
+            <p className="mt-2 text-xs text-slate-400">NEXT FIGHT: LEVEL {session.level + 1} &middot; BANK: ${session.bank}</p>
+            {session.message && <p className="mt-4 text-xs text-cyan-300">{session.message}</p>}
+            <div className="my-6">
+                <RunMapView map={session.map} onChoose={onChooseNode} />
+            </div>
+            <p className="text-xs text-slate-400">CHOOSE YOUR PATH</p>
+        </PixelatedPanel>
+    </div>
+);
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef } from 'react';
+import { PlayerColor } from '../types';
+import type { MoveRecord } from '../types';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+
+interface MoveHistoryPanelProps {
+    moves: MoveRecord[];
+    undosRemaining: number;
+    canUndo: boolean;
+    onUndo: () => void;
+    onExportPgn?: () => void; // No PGN button without it
+}
+
+export const MoveHistoryPanel: React.FC<MoveHistoryPanelProps> = ({ moves, undosRemaining, canUndo, onUndo, onExportPgn }) => {
+    const listRef = useRef<HTMLOListElement>(null);
+
+    useEffect(() => {
+        listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+    }, [moves.length]);
+
+    // Pair moves into numbered rows; a side that lost its turn to an extra move gets an empty cell.
+    const rows: { number: number, white?: MoveRecord, black?: MoveRecord }[] = [];
+    for (const move of moves) {
+        const last = rows[rows.length - 1];
+        if (move.color === PlayerColor.WHITE || !last || last.black) {
+            rows.push({ number: rows.length + 1, [move.color]: move });
+        } else {
+            last.black = move;
+        }
+    }
+
+    const renderMove = (move?: MoveRecord) => move ? (
+        <span>
+            {move.san}
+            {move.notes.map((note, i) => <span key={i} className="block text-[10px] text-cyan-300">{note}</span>)}
+        </span>
+    ) : <span className="text-slate-500">...</span>;
+
+    return (
+        <div className="w-full max-w-lg lg:w-72">
+            <PixelatedPanel>
+                <h3 className="text-sm text-yellow-300 mb-3">MOVES</h3>
+                <ol ref={listRef} className="h-40 lg:h-64 overflow-y-auto text-xs space-y-1 pr-2">
+                    {rows.map(row => (
+                        <li key={row.number} className="grid grid-cols-[2rem_1fr_1fr] gap-2">
+                            <span className="text-slate-500">{row.number}.</span>
+                            {renderMove(row.white)}
+                            {row.black ? renderMove(row.black) : <span />}
+                        </li>
+                    ))}
+                </ol>
+                <div className="flex gap-2 mt-4">
+                    <PixelatedButton onClick={onUndo} disabled={!canUndo} className="flex-1 text-xs">
+                        Undo ({undosRemaining})
+                    </PixelatedButton>
+                    {onExportPgn && (
+                        <PixelatedButton onClick={onExportPgn} disabled={moves.length === 0} className="flex-1 text-xs">
+                            PGN
+                        </PixelatedButton>
+                    )}
+                </div>
+            </PixelatedPanel>
+        </div>
+    );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+
+// --- 16-BIT Styled Components ---
+
+export const PixelatedPanel: React.FC<{ children: React.ReactNode, className?: string }> = ({ children, className = '' }) => (
+    <div className={`bg-slate-800 p-4 sm:p-6 pixel-border ${className}`}>
+        {children}
+    </div>
+);
+
+export const PixelatedButton: React.FC<{ onClick: () => void, children: React.ReactNode, className?: string, disabled?: boolean, ariaLabel?: string }> = ({ onClick, children, className = '', disabled = false, ariaLabel }) => (
+    <button
+        onClick={onClick}
+        disabled={disabled}
+        aria-label={ariaLabel}
+        className={`px-4 py-2 text-sm sm:text-base text-white uppercase tracking-wider bg-slate-700 hover:bg-slate-600 active:bg-slate-500 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed pixel-border ${className}`}
+    >
+        {children}
+    </button>
+);
@@ -0,0 +1,129 @@
+import React from 'react';
+import { PlayerColor } from '../types';
+import type { Puzzle, PuzzlePack } from '../types';
+import { describeGoal, getPuzzleProgress, getPuzzleStars, MAX_STARS } from '../services/puzzleEngine';
+import type { PuzzleSession, PuzzleAction } from '../services/puzzleEngine';
+import { getVersusSelectedPower } from '../services/versusEngine';
+import { getBoardHighlights } from '../services/boardHighlights';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+import { GameBoard, PromotionPicker } from './GameBoard';
+import { MoveHistoryPanel } from './MoveHistoryPanel';
+
+const StarRating: React.FC<{ stars: number }> = ({ stars }) => (
+    <span className="text-yellow-300" aria-label={`${stars} of ${MAX_STARS} stars`}>
+        {'\u2605'.repeat(stars)}<span className="text-slate-500">{'\u2606'.repeat(MAX_STARS - stars)}</span>
+    </span>
+);
+
+interface PuzzleScreenProps {
+    puzzle: PuzzleSession;
+    isThinking: boolean;
+    onAction: (action: PuzzleAction) => void;
+    onNext?: () => void; // Offered once the puzzle is solved, if another follows
+    onExit: () => void;
+    showThreats: boolean;
+}
+
+// One puzzle on the regular board. The player has white; black's answers come from the AI.
+export const PuzzleScreen: React.FC<PuzzleScreenProps> = ({ puzzle, isThinking, onAction, onNext, onExit, showThreats }) => {
+    const { match, status } = puzzle;
+    const selectedPower = getVersusSelectedPower(match);
+    const { pendingPromotion } = match;
+    return (
+        <main className="flex flex-col lg:flex-row items-center justify-center min-h-screen p-4 gap-6">
+            <div className="flex flex-col gap-6 items-center">
+                <PixelatedPanel className="w-full max-w-lg text-sm text-center">
+                    <h2 className="text-base text-yellow-300">{puzzle.puzzle.name.toUpperCase()}</h2>
+                    <p className="mt-2 text-xs text-slate-300 leading-relaxed">{puzzle.puzzle.description}</p>
+                    <p className="mt-3 text-xs text-cyan-300">{describeGoal(puzzle.puzzle)} &middot; {getPuzzleProgress(puzzle)}</p>
+                    <p className="mt-3 h-6">{isThinking ? 'BLACK IS THINKING...' : match.message}</p>
+                    {status === 'solved' && <p className="text-2xl"><StarRating stars={getPuzzleStars(puzzle)} /></p>}
+                    {selectedPower && (
+                        <div className="mt-3 p-2 bg-slate-900/50 pixel-border text-left">
+                            <h4 className="text-cyan-300">{selectedPower.name}</h4>
+                            <p className="text-xs text-slate-300 mt-1">{selectedPower.description}</p>
+                        </div>
+                    )}
+                </PixelatedPanel>
+                <div className="relative">
+                    <GameBoard
+                        board={match.board}
+                        rules={match.boardInfo.rules}
+                        onSquareClick={pos => onAction({ type: 'select', pos })}
+                        selectedPiece={match.selectedPiece}
+                        inspectedPiece={match.inspectedPiece}
+                        validMoves={match.validMoves}
+                        playerColor={PlayerColor.WHITE}
+                        powers={puzzle.puzzle.powers}
+                        onCancel={() => pendingPromotion ? onAction({ type: 'cancel-promotion' }) : match.selectedPiece && onAction({ type: 'select', pos: match.selectedPiece })}
+                        label="Puzzle board"
+                        highlights={getBoardHighlights(match.board, match.boardInfo.rules, match.moveLog, match.turn, showThreats ? PlayerColor.BLACK : null)}
+                    />
+                    {pendingPromotion && (
+                        <PromotionPicker
+                            onChoose={type => onAction({ type: 'move', from: pendingPromotion.from, to: pendingPromotion.to, promotion: type })}
+                            onCancel={() => onAction({ type: 'cancel-promotion' })}
+                        />
+                    )}
+                </div>
+            </div>
+            <div className="flex flex-col gap-6 items-center w-full max-w-lg lg:w-72">
+                <MoveHistoryPanel moves={match.moveLog} undosRemaining={0} canUndo={false} onUndo={() => {}} />
+                <div className="flex gap-2 w-full">
+                    <PixelatedButton onClick={() => onAction({ type: 'retry' })} className="flex-1 text-xs">Retry</PixelatedButton>
+                    {status === 'solved' && onNext && (
+                        <PixelatedButton onClick={onNext} className="flex-1 text-xs bg-green-600 hover:bg-green-500">Next</PixelatedButton>
+                    )}
+                    <PixelatedButton onClick={onExit} className="flex-1 text-xs bg-yellow-500 hover:bg-yellow-600 text-slate-900">Puzzles</PixelatedButton>
+                </div>
+            </div>
+        </main>
+    );
+};
+
+interface PuzzleListProps {
+    packs: PuzzlePack[];
+    puzzleStars: Record<string, number>; // From the profile, by puzzle id
+    onChoose: (puzzle: Puzzle) => void;
+    onBack: () => void;
+}
+
+export const PuzzleList: React.FC<PuzzleListProps> = ({ packs, puzzleStars, onChoose, onBack }) => {
+    const puzzles = packs.flatMap(pack => pack.puzzles);
+    const solved = puzzles.filter(p => puzzleStars[p.id]).length;
+    const stars = puzzles.reduce((sum, p) => sum + (puzzleStars[p.id] ?? 0), 0);
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen p-4">
+            <PixelatedPanel className="w-full max-w-2xl">
+                <h1 className="text-xl text-center mb-2">PUZZLES</h1>
+                <p className="text-xs text-center text-slate-300 mb-6 leading-relaxed">Set positions with one goal each. Solve one first time for three stars; every retry costs a star.</p>
+                <p className="text-xs text-center text-yellow-300 mb-6">SOLVED {solved}/{puzzles.length} &middot; STARS {stars}/{puzzles.length * MAX_STARS}</p>
+                {packs.map(pack => (
+                    <section key={pack.id} className="mb-6">
+                        <h2 className="text-sm text-yellow-300 mb-4">{pack.name.toUpperCase()}</h2>
+                        <div className="space-y-4">
+                            {pack.puzzles.map(p => (
+                                <button
+                                    key={p.id}
+                                    onClick={() => onChoose(p)}
+                                    className="w-full text-left p-4 pixel-border bg-slate-700 hover:bg-slate-600"
+                                >
+                                    <div className="flex justify-between gap-4">
+                                        <p className="text-sm">{p.name}</p>
+                                        <StarRating stars={puzzleStars[p.id] ?? 0} />
+                                    </div>
+                                    <p className="text-xs mt-2 text-slate-300">{describeGoal(p)}</p>
+                                </button>
+                            ))}
+                        </div>
+                    </section>
+                ))}
+                <div className="text-center mt-8">
+                    <PixelatedButton onClick={onBack} className="bg-yellow-500 hover:bg-yellow-600 text-slate-900">
+                        Back
+                    </PixelatedButton>
+                </div>
+            </PixelatedPanel>
+        </div>
+    );
+};
@@ -0,0 +1,90 @@
+import React, { useState, useEffect } from 'react';
+import { PlayerColor } from '../types';
+import { getLevelRules, getKnownPowers } from '../services/gameEngine';
+import { getBoardHighlights } from '../services/boardHighlights';
+import type { ReplayFrame } from '../services/runRecording';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+import { GameBoard } from './GameBoard';
+
+const REPLAY_STEP_MS = 700;
+
+interface ReplayScreenProps {
+    frames: ReplayFrame[];
+    seed: string;
+    onExport: () => void;
+    onExit: () => void;
+}
+
+// Steps through a recorded run on the regular board. Playing advances one frame per tick and
+// stops at the end.
+export const ReplayScreen: React.FC<ReplayScreenProps> = ({ frames, seed, onExport, onExit }) => {
+    const [index, setIndex] = useState<number>(0);
+    const [isPlaying, setIsPlaying] = useState<boolean>(false);
+    const last = frames.length - 1;
+    const frame = frames[Math.min(index, last)];
+    const { session } = frame;
+
+    useEffect(() => {
+        if (!isPlaying) return;
+        if (index >= last) {
+            setIsPlaying(false);
+            return;
+        }
+        const timer = setTimeout(() => setIndex((i: number) => Math.min(i + 1, last)), REPLAY_STEP_MS);
+        return () => clearTimeout(timer);
+    }, [isPlaying, index, last]);
+
+    const step = (delta: number) => {
+        setIsPlaying(false);
+        setIndex((i: number) => Math.max(0, Math.min(last, i + delta)));
+    };
+
+    return (
+        <main className="flex flex-col lg:flex-row items-center justify-center min-h-screen p-4 gap-6">
+            <GameBoard
+                board={session.board}
+                rules={getLevelRules(session)}
+                onSquareClick={() => {}}
+                selectedPiece={null}
+                inspectedPiece={null}
+                validMoves={[]}
+                playerColor={PlayerColor.WHITE}
+                powers={getKnownPowers(session)}
+                label="Replay board"
+                highlights={getBoardHighlights(session.board, getLevelRules(session), session.moveLog, session.turn, null)}
+            />
+            <PixelatedPanel className="w-full max-w-sm">
+                <h1 className="text-lg text-yellow-300 mb-2">REPLAY</h1>
+                <p className="text-xs text-slate-400 mb-4">SEED: {seed}</p>
+                <p className="text-xs text-slate-300 mb-1">ACT {session.map.act} &middot; LEVEL {session.level} &middot; ${session.bank}</p>
+                <p className="text-xs text-cyan-300 mb-4 h-12 leading-relaxed">{frame.label}</p>
+                <input
+                    type="range"
+                    min={0}
+                    max={last}
+                    value={index}
+                    onChange={e => { setIsPlaying(false); setIndex(Number(e.target.value)); }}
+                    className="w-full mb-2"
+                    aria-label="Replay position"
+                />
+                <p className="text-xs text-slate-400 text-center mb-4">{index} / {last}</p>
+                <div className="flex gap-2 mb-4">
+                    <PixelatedButton onClick={() => step(-last)} className="flex-1 text-xs" ariaLabel="First frame">|&lt;</PixelatedButton>
+                    <PixelatedButton onClick={() => step(-1)} className="flex-1 text-xs" ariaLabel="Step back">&lt;</PixelatedButton>
+                    <PixelatedButton
+                        onClick={() => { if (index >= last) setIndex(0); setIsPlaying(!isPlaying); }}
+                        className="flex-1 text-xs bg-green-600 hover:bg-green-500"
+                    >
+                        {isPlaying ? 'Pause' : 'Play'}
+                    </PixelatedButton>
+                    <PixelatedButton onClick={() => step(1)} className="flex-1 text-xs" ariaLabel="Step forward">&gt;</PixelatedButton>
+                    <PixelatedButton onClick={() => step(last)} className="flex-1 text-xs" ariaLabel="Last frame">&gt;|</PixelatedButton>
+                </div>
+                <div className="flex gap-2">
+                    <PixelatedButton onClick={onExport} className="flex-1 text-xs">Export</PixelatedButton>
+                    <PixelatedButton onClick={onExit} className="flex-1 text-xs bg-yellow-500 hover:bg-yellow-600 text-slate-900">Menu</PixelatedButton>
+                </div>
+            </PixelatedPanel>
+        </main>
+    );
+};
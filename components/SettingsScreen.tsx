@@ -0,0 +1,162 @@
+import React from 'react';
+import type { AbilitySourcePreference, AnimationSpeed, GameSettings } from '../types';
+import { MAX_AI_MOVE_DELAY_MS } from '../services/settingsService';
+import { clearAbilityCache } from '../services/abilityCache';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+
+const ABILITY_SOURCES: { id: AbilitySourcePreference, name: string, description: string }[] = [
+    { id: 'auto', name: 'Automatic', description: 'Ask Gemini through the ability server when online, the local armory otherwise.' },
+    { id: 'gemini', name: 'Gemini Only', description: 'Always ask Gemini through the ability server. The shop stays empty if it fails.' },
+    { id: 'http', name: 'Ability Server', description: "Use the ability server's stand-in catalog instead of Gemini. For development." },
+    { id: 'local', name: 'Local Only', description: 'Never go online. Wares come from the built-in catalog.' },
+];
+
+const VOLUME_SLIDERS: { key: 'masterVolume' | 'sfxVolume' | 'musicVolume', name: string }[] = [
+    { key: 'masterVolume', name: 'MASTER' },
+    { key: 'sfxVolume', name: 'EFFECTS' },
+    { key: 'musicVolume', name: 'MUSIC' },
+];
+
+const ANIMATION_SPEEDS: { id: AnimationSpeed, name: string }[] = [
+    { id: 'off', name: 'Off' },
+    { id: 'fast', name: 'Fast' },
+    { id: 'normal', name: 'Normal' },
+    { id: 'slow', name: 'Slow' },
+];
+
+interface SettingsScreenProps {
+    settings: GameSettings;
+    onChange: (changes: Partial<GameSettings>) => void; // Saved as they're made
+    onBack: () => void;
+}
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, onChange, onBack }) => (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <PixelatedPanel className="w-full max-w-2xl">
+            <h1 className="text-xl text-center mb-6">SETTINGS</h1>
+            <h2 className="text-sm text-yellow-300 mb-4">SHOP ABILITY SOURCE</h2>
+            <div className="space-y-4">
+                {ABILITY_SOURCES.map(option => {
+                    const active = settings.abilitySource === option.id;
+                    return (
+                        <button
+                            key={option.id}
+                            onClick={() => onChange({ abilitySource: option.id })}
+                            className={`w-full text-left p-4 pixel-border ${active ? 'bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+                        >
+                            <p className={`text-sm ${active ? 'text-white' : 'text-slate-200'}`}>{option.name}</p>
+                            <p className="text-xs mt-2 text-slate-300">{option.description}</p>
+                        </button>
+                    );
+                })}
+            </div>
+            {settings.abilitySource !== 'local' && (
+                <label className="block mt-4 text-xs text-slate-300">
+                    SERVER URL
+                    <input
+                        type="url"
+                        value={settings.abilityServerUrl}
+                        onChange={e => onChange({ abilityServerUrl: e.target.value })}
+                        className="mt-2 w-full p-2 bg-slate-900 text-white pixel-border"
+                    />
+                </label>
+            )}
+            <h2 className="text-sm text-yellow-300 mt-8 mb-4">ACCESSIBILITY</h2>
+            <button
+                onClick={() => onChange({ moveEntry: !settings.moveEntry })}
+                aria-pressed={settings.moveEntry}
+                className={`w-full text-left p-4 pixel-border ${settings.moveEntry ? 'bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+            >
+                <p className="text-sm">Typed Moves: {settings.moveEntry ? 'On' : 'Off'}</p>
+                <p className="text-xs mt-2 text-slate-300">Show a box under the board for entering moves like Nf3 or e2e4.</p>
+            </button>
+            <h2 className="text-sm text-yellow-300 mt-8 mb-4">AUDIO</h2>
+            <button
+                onClick={() => onChange({ muted: !settings.muted })}
+                aria-pressed={settings.muted}
+                className={`w-full text-left p-4 pixel-border ${settings.muted ? 'bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+            >
+                <p className="text-sm">Mute: {settings.muted ? 'On' : 'Off'}</p>
+                <p className="text-xs mt-2 text-slate-300">Silence the sound effects and the soundtrack.</p>
+            </button>
+            <div className="space-y-4 mt-4">
+                {VOLUME_SLIDERS.map(slider => (
+                    <label key={slider.key} className="block text-xs text-slate-300">
+                        {slider.name}: {Math.round(settings[slider.key] * 100)}%
+                        <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            step={5}
+                            value={Math.round(settings[slider.key] * 100)}
+                            onChange={e => onChange({ [slider.key]: Number(e.target.value) / 100 })}
+                            disabled={settings.muted}
+                            aria-label={`${slider.name} volume`}
+                            className="mt-2 w-full accent-yellow-400"
+                        />
+                    </label>
+                ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">The soundtrack picks up as you close in on the enemy king.</p>
+            <h2 className="text-sm text-yellow-300 mt-8 mb-4">GAMEPLAY</h2>
+            <p className="text-xs text-slate-300 mb-2">ANIMATION SPEED</p>
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Animation speed">
+                {ANIMATION_SPEEDS.map(option => {
+                    const active = settings.animationSpeed === option.id;
+                    return (
+                        <button
+                            key={option.id}
+                            onClick={() => onChange({ animationSpeed: option.id })}
+                            aria-pressed={active}
+                            className={`px-3 py-2 text-xs pixel-border ${active ? 'bg-blue-700 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}
+                        >
+                            {option.name}
+                        </button>
+                    );
+                })}
+            </div>
+            <label className="block mt-4 text-xs text-slate-300">
+                AI MOVE DELAY: {settings.aiMoveDelayMs}MS
+                <input
+                    type="range"
+                    min={0}
+                    max={MAX_AI_MOVE_DELAY_MS}
+                    step={250}
+                    value={settings.aiMoveDelayMs}
+                    onChange={e => onChange({ aiMoveDelayMs: Number(e.target.value) })}
+                    aria-label="AI move delay in milliseconds"
+                    className="mt-2 w-full accent-yellow-400"
+                />
+            </label>
+            <p className="text-xs text-slate-400 mt-2">How long the enemy waits before answering, so you can see your own move land.</p>
+            <button
+                onClick={() => onChange({ showThreats: !settings.showThreats })}
+                aria-pressed={settings.showThreats}
+                className={`w-full text-left p-4 mt-4 pixel-border ${settings.showThreats ? 'bg-blue-700' : 'bg-slate-700 hover:bg-slate-600'}`}
+            >
+                <p className="text-sm">Threat Overlay: {settings.showThreats ? 'On' : 'Off'}</p>
+                <p className="text-xs mt-2 text-slate-300">Tint every square the enemy attacks.</p>
+            </button>
+            <h2 className="text-sm text-yellow-300 mt-8 mb-4">ONLINE VERSUS</h2>
+            <label className="block text-xs text-slate-300">
+                RELAY URL
+                <input
+                    type="url"
+                    value={settings.relayServerUrl}
+                    onChange={e => onChange({ relayServerUrl: e.target.value })}
+                    className="mt-2 w-full p-2 bg-slate-900 text-white pixel-border"
+                />
+            </label>
+            <p className="text-xs text-slate-400 mt-2">Start one with npm run relay-server. Both players must use the same relay.</p>
+            <p className="text-xs text-slate-400 mt-4">Generated abilities are cached for a few days so shops don't wait on the network.</p>
+            <PixelatedButton onClick={clearAbilityCache} className="mt-2 text-xs">
+                Clear Ability Cache
+            </PixelatedButton>
+            <div className="text-center mt-8">
+                <PixelatedButton onClick={onBack} className="bg-yellow-500 hover:bg-yellow-600 text-slate-900">
+                    Back
+                </PixelatedButton>
+            </div>
+        </PixelatedPanel>
+    </div>
+);
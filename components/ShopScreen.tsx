@@ -0,0 +1,151 @@
+import React from 'react';
+import { PowerRarity } from '../types';
+import type { AbilitySource, PawnPower, Relic } from '../types';
+import { getRelics } from '../services/relics';
+import { getSellValue, getRerollCost, getUndoChargeCost } from '../services/gameEngine';
+import { getShopPrice } from '../services/matchText';
+import type { GameSession, GameAction } from '../services/gameEngine';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+
+export const RARITY_STYLES: Record<PowerRarity, { label: string, text: string, border: string }> = {
+    [PowerRarity.COMMON]: { label: 'Common', text: 'text-cyan-300', border: '' },
+    [PowerRarity.RARE]: { label: 'Rare', text: 'text-blue-300', border: 'ring-2 ring-blue-400' },
+    [PowerRarity.LEGENDARY]: { label: 'Legendary', text: 'text-orange-300', border: 'ring-2 ring-orange-400' },
+};
+
+interface ShopCardProps {
+    item: PawnPower | Relic;
+    price: number;
+    onBuy: () => void;
+    canAfford: boolean;
+}
+
+// A power or relic for sale, framed by its rarity.
+export const ShopCard: React.FC<ShopCardProps> = ({ item, price, onBuy, canAfford }) => {
+    const rarity = RARITY_STYLES[item.rarity ?? PowerRarity.COMMON];
+    return (
+        <PixelatedPanel className={`flex flex-col justify-between transform hover:scale-105 transition-transform duration-200 ${rarity.border}`}>
+            <div>
+                <h3 className={`text-base ${rarity.text}`}>{item.name}</h3>
+                <p className={`text-xs mt-1 ${rarity.text}`}>{rarity.label}</p>
+                <p className="text-slate-300 mt-2 text-xs h-16">{item.description}</p>
+            </div>
+            <PixelatedButton
+                onClick={onBuy}
+                disabled={!canAfford}
+                className={`mt-4 w-full ${canAfford ? 'bg-green-600 hover:bg-green-500' : ''}`}
+            >
+                Buy ${price}
+            </PixelatedButton>
+        </PixelatedPanel>
+    );
+};
+
+const ABILITY_SOURCE_LABELS: Record<AbilitySource, string> = {
+    gemini: 'Forged by the Gemini oracle',
+    http: 'From the ability server',
+    local: 'From the local armory',
+};
+
+interface ShopScreenProps {
+    session: GameSession;
+    dispatch: (action: GameAction) => void;
+    onReroll: () => void; // Rerolling restocks the shop, which the app does
+    isLoading: boolean;
+}
+
+export const ShopScreen: React.FC<ShopScreenProps> = ({ session, dispatch, onReroll, isLoading }) => {
+    const { bank, level, shopPawns, ownedPawns, shopSource: source } = session;
+    const shopRelics = getRelics(session.shopRelics);
+    const relics = getRelics(session.relics);
+    const sellValues = ownedPawns.map(pawn => getSellValue(session, pawn));
+    const rerollCost = getRerollCost(session);
+    const undoChargeCost = getUndoChargeCost(session);
+    const onBuyPawn = (pawn: PawnPower) => dispatch({ type: 'buy-pawn', pawnId: pawn.id });
+    const onBuyRelic = (relic: Relic) => dispatch({ type: 'buy-relic', relicId: relic.id });
+
+    return (
+        <div className="flex flex-col items-center justify-center min-h-screen p-4">
+             <PixelatedPanel className="w-full max-w-4xl">
+                <h1 className="text-2xl sm:text-3xl text-center text-yellow-300 mb-2">PAWN SHOP</h1>
+                <p className="text-center text-slate-300 mb-6 text-xs">Purchase powerful pawns.</p>
+                <p className="text-center text-xl text-green-300 mb-8">Bank: ${bank}</p>
+                
+                {isLoading ? (
+                    <div className="text-center text-lg text-cyan-300 animate-pulse">Generating wares...</div>
+                ) : (
+                    <>
+                        <p className="text-center text-slate-400 mb-4 text-xs">{ABILITY_SOURCE_LABELS[source]}</p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                            {shopPawns.map(pawn => {
+                                const price = getShopPrice(pawn, level);
+                                return <ShopCard key={pawn.id} item={pawn} price={price} onBuy={() => onBuyPawn(pawn)} canAfford={bank >= price} />;
+                            })}
+                        </div>
+                    </>
+                )}
+
+                {shopRelics.length > 0 && (
+                    <>
+                        <h2 className="text-center text-lg text-yellow-300 mb-4">RELICS</h2>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                            {shopRelics.map(relic => {
+                                const price = getShopPrice(relic, level);
+                                return <ShopCard key={relic.id} item={relic} price={price} onBuy={() => onBuyRelic(relic)} canAfford={bank >= price} />;
+                            })}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-center mb-8">
+                    <PixelatedButton
+                        onClick={onReroll}
+                        disabled={isLoading || bank < rerollCost}
+                        className={!isLoading && bank >= rerollCost ? 'bg-purple-600 hover:bg-purple-500' : ''}
+                    >
+                        Reroll ${rerollCost}
+                    </PixelatedButton>
+                </div>
+
+                <div className="mb-6 p-4 bg-slate-900/50 pixel-border">
+                    <h3 className="text-sm text-cyan-300 mb-3">Your Powers</h3>
+                    {ownedPawns.map((pawn, i) => (
+                        <div key={`${pawn.id}-${i}`} className="flex items-center justify-between gap-4 mb-2">
+                            <span className={`text-xs ${RARITY_STYLES[pawn.rarity ?? PowerRarity.COMMON].text}`}>{pawn.name}</span>
+                            {sellValues[i] > 0 ? (
+                                <PixelatedButton onClick={() => dispatch({ type: 'sell-pawn', index: i })} className="text-xs bg-red-700 hover:bg-red-600">
+                                    Sell ${sellValues[i]}
+                                </PixelatedButton>
+                            ) : (
+                                <span className="text-xs text-slate-500">Not for sale</span>
+                            )}
+                        </div>
+                    ))}
+                    {relics.length > 0 && (
+                        <p className="text-xs text-slate-400 mt-3">Relics: {relics.map(r => r.name).join(', ')}</p>
+                    )}
+                </div>
+
+                <div className="flex flex-col sm:flex-row items-center justify-between gap-4 p-4 bg-slate-900/50 pixel-border">
+                    <div>
+                        <h3 className="text-sm text-cyan-300">Hourglass</h3>
+                        <p className="text-xs text-slate-300 mt-2">+1 undo on every level for the rest of the run.</p>
+                    </div>
+                    <PixelatedButton
+                        onClick={() => dispatch({ type: 'buy-undo-charge' })}
+                        disabled={bank < undoChargeCost}
+                        className={bank >= undoChargeCost ? 'bg-green-600 hover:bg-green-500' : ''}
+                    >
+                        Buy ${undoChargeCost}
+                    </PixelatedButton>
+                </div>
+                
+                <div className="text-center mt-8">
+                    <PixelatedButton onClick={() => dispatch({ type: 'leave-shop' })} className="bg-blue-600 hover:bg-blue-500 py-3 px-6 text-lg">
+                        Back to Map
+                    </PixelatedButton>
+                </div>
+            </PixelatedPanel>
+        </div>
+    );
+};
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { PlayerColor, PowerRarity } from '../types';
+import type { BoardInfo } from '../types';
+import { getBudgetLeft, getOpponent, getDraftPrice, getVersusPowers, getVersusSelectedPower } from '../services/versusEngine';
+import type { VersusSession, VersusAction } from '../services/versusEngine';
+import type { OpponentStatus } from '../services/netProtocol';
+import type { ConnectionStatus } from '../services/netClient';
+import { getBoardHighlights } from '../services/boardHighlights';
+import { PixelatedPanel, PixelatedButton } from './Pixelated';
+import { GameBoard, PromotionPicker } from './GameBoard';
+import { MoveHistoryPanel } from './MoveHistoryPanel';
+import { RARITY_STYLES, ShopCard } from './ShopScreen';
+
+const SIDE_NAMES: Record<PlayerColor, string> = { [PlayerColor.WHITE]: 'White', [PlayerColor.BLACK]: 'Black' };
+
+// The seat the relay gave this device in an online match, and how the connection is doing.
+export interface OnlineSeat {
+    code: string | null; // Null until the relay opens the room
+    color: PlayerColor | null;
+    connection: ConnectionStatus;
+    opponent: OpponentStatus;
+    error: string | null;
+}
+
+const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+    connecting: 'CONNECTING...',
+    open: 'CONNECTED',
+    reconnecting: 'RECONNECTING...',
+    closed: 'DISCONNECTED',
+};
+
+export const describeSeat = (seat: OnlineSeat) => seat.connection !== 'open'
+    ? CONNECTION_LABELS[seat.connection]
+    : `ROOM ${seat.code ?? '...'} \u00b7 OPPONENT ${seat.opponent.toUpperCase()}`;
+
+interface VersusScreenProps {
+    match: VersusSession;
+    onAction: (action: VersusAction) => void;
+    onExportPgn: () => void;
+    onRematch?: () => void; // Offered when the match is over; not online, where the relay runs one match per room
+    onExit: () => void;
+    localColor?: PlayerColor; // Online, the side this device plays
+    status?: string;
+    showThreats: boolean;
+}
+
+// A versus match: the draft, then the game. Hot-seat, the board turns toward whoever moves next;
+// online, it faces `localColor` and only takes input on that side's turn.
+export const VersusScreen: React.FC<VersusScreenProps> = ({ match, onAction, onExportPgn, onRematch, onExit, localColor, status, showThreats }) => {
+    const sides = [PlayerColor.WHITE, PlayerColor.BLACK];
+    const isMyTurn = !localColor || match.turn === localColor;
+    const rosters = (
+        <div className="grid grid-cols-2 gap-4">
+            {sides.map(color => (
+                <div key={color} className={`p-3 bg-slate-900/50 pixel-border ${match.phase !== 'over' && match.turn === color ? 'ring-2 ring-yellow-300' : ''}`}>
+                    <h3 className="text-sm text-yellow-300">{SIDE_NAMES[color].toUpperCase()}</h3>
+                    {match.phase === 'draft' && <p className="text-xs text-green-300 mt-1">${getBudgetLeft(match, color)} left</p>}
+                    <ul className="mt-2 space-y-1">
+                        {match.drafts[color].powers.map(p => (
+                            <li key={p.id} className={`text-xs ${RARITY_STYLES[p.rarity ?? PowerRarity.COMMON].text}`} title={p.description}>{p.name}</li>
+                        ))}
+                        {match.drafts[color].powers.length === 0 && <li className="text-xs text-slate-500">No powers</li>}
+                    </ul>
+                </div>
+            ))}
+        </div>
+    );
+
+    if (match.phase === 'draft') {
+        const budget = getBudgetLeft(match, match.turn);
+        return (
+            <div className="flex flex-col items-center justify-center min-h-screen p-4">
+                <PixelatedPanel className="w-full max-w-4xl">
+                    <h1 className="text-2xl text-center text-yellow-300 mb-2">THE DRAFT</h1>
+                    <p className="text-center text-xs text-slate-300 mb-6">Take turns picking powers. Each side has ${match.budget} to spend; a drafted power is gone for the other.</p>
+                    {status && <p className="text-center text-xs text-cyan-300 mb-4">{status}</p>}
+                    <p className="text-center text-lg mb-6">{isMyTurn ? `${SIDE_NAMES[match.turn].toUpperCase()} PICKS` : `WAITING FOR ${SIDE_NAMES[match.turn].toUpperCase()}`}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+                        {match.pool.map(power => {
+                            const price = getDraftPrice(power);
+                            return <ShopCard key={power.id} item={power} price={price} onBuy={() => onAction({ type: 'draft-power', pawnId: power.id })} canAfford={isMyTurn && budget >= price} />;
+                        })}
+                    </div>
+                    {rosters}
+                    <div className="flex justify-center gap-4 mt-8">
+                        {isMyTurn && (
+                            <PixelatedButton onClick={() => onAction({ type: 'end-draft' })} className="bg-blue-600 hover:bg-blue-500">
+                                {SIDE_NAMES[match.turn]} is done
+                            </PixelatedButton>
+                        )}
+                        <PixelatedButton onClick={onExit}>Quit</PixelatedButton>
+                    </div>
+                </PixelatedPanel>
+            </div>
+        );
+    }
+
+    const selectedPower = getVersusSelectedPower(match);
+    const { pendingPromotion } = match;
+    return (
+        <main className="flex flex-col lg:flex-row items-center justify-center min-h-screen p-4 gap-6">
+            <div className="flex flex-col gap-6 items-center">
+                <PixelatedPanel className="w-full max-w-lg text-sm text-center">
+                    <h2 className="text-base text-yellow-300">VERSUS &middot; {match.boardInfo.name.toUpperCase()}</h2>
+                    {status && <p className="mt-2 text-xs text-cyan-300">{status}</p>}
+                    <p className="mt-3 h-6">{match.message}</p>
+                    {selectedPower && (
+                        <div className="mt-3 p-2 bg-slate-900/50 pixel-border text-left">
+                            <h4 className="text-cyan-300">{selectedPower.name}</h4>
+                            <p className="text-xs text-slate-300 mt-1">{selectedPower.description}</p>
+                        </div>
+                    )}
+                </PixelatedPanel>
+                <div className="relative">
+                    <GameBoard
+                        board={match.board}
+                        rules={match.boardInfo.rules}
+                        onSquareClick={pos => isMyTurn && onAction({ type: 'select', pos })}
+                        selectedPiece={match.selectedPiece}
+                        inspectedPiece={match.inspectedPiece}
+                        validMoves={match.validMoves}
+                        playerColor={localColor ?? match.turn}
+                        powers={getVersusPowers(match)}
+                        onCancel={() => match.pendingPromotion ? onAction({ type: 'cancel-promotion' }) : match.selectedPiece && onAction({ type: 'select', pos: match.selectedPiece })}
+                        label={`Chess board, ${SIDE_NAMES[match.turn].toLowerCase()} to move`}
+                        highlights={getBoardHighlights(match.board, match.boardInfo.rules, match.moveLog, match.turn, showThreats ? getOpponent(localColor ?? match.turn) : null)}
+                    />
+                    {pendingPromotion && (
+                        <PromotionPicker
+                            color={match.turn}
+                            onChoose={type => onAction({ type: 'move', from: pendingPromotion.from, to: pendingPromotion.to, promotion: type })}
+                            onCancel={() => onAction({ type: 'cancel-promotion' })}
+                        />
+                    )}
+                </div>
+            </div>
+            <div className="flex flex-col gap-6 items-center w-full max-w-lg lg:w-72">
+                <PixelatedPanel className="w-full">{rosters}</PixelatedPanel>
+                <MoveHistoryPanel moves={match.moveLog} undosRemaining={0} canUndo={false} onUndo={() => {}} onExportPgn={onExportPgn} />
+                <div className="flex gap-2 w-full">
+                    {match.phase === 'over' ? (
+                        onRematch && <PixelatedButton onClick={onRematch} className="flex-1 text-xs bg-green-600 hover:bg-green-500">Rematch</PixelatedButton>
+                    ) : (
+                        <PixelatedButton onClick={() => onAction({ type: 'resign' })} className="flex-1 text-xs bg-red-700 hover:bg-red-600">Resign</PixelatedButton>
+                    )}
+                    <PixelatedButton onClick={onExit} className="flex-1 text-xs bg-yellow-500 hover:bg-yellow-600 text-slate-900">Menu</PixelatedButton>
+                </div>
+            </div>
+        </main>
+    );
+};
+
+const RoomCodeEntry: React.FC<{ onSubmit: (code: string) => void }> = ({ onSubmit }) => {
+    const [value, setValue] = useState('');
+    const code = value.trim().toUpperCase();
+
+    return (
+        <div className="flex gap-2 mt-2">
+            <input
+                value={value}
+                onChange={e => setValue(e.target.value)}
+                placeholder="ROOM CODE"
+                maxLength={8}
+                aria-label="Room code"
+                className="flex-1 min-w-0 px-3 py-2 text-xs bg-slate-900 text-white uppercase pixel-border"
+            />
+            <PixelatedButton onClick={() => onSubmit(code)} disabled={!code} className="bg-blue-600 hover:bg-blue-500">
+                Join
+            </PixelatedButton>
+        </div>
+    );
+};
+
+interface OnlineLobbyProps {
+    seat: OnlineSeat;
+    onCancel: () => void;
+}
+
+// Waiting for the relay to open the room, then for the opponent to join it.
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ seat, onCancel }) => (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <PixelatedPanel className="w-full max-w-md text-center">
+            <h1 className="text-xl mb-6">ONLINE VERSUS</h1>
+            {seat.code ? (
+                <>
+                    <p className="text-xs text-slate-300">ROOM CODE</p>
+                    <p className="text-3xl text-yellow-300 my-4 tracking-widest">{seat.code}</p>
+                    <p className="text-xs text-slate-300 leading-relaxed">Share the code with your opponent. The draft starts when they join.</p>
+                </>
+            ) : (
+                <p className="text-sm">{seat.connection === 'closed' ? "COULDN'T REACH THE RELAY" : CONNECTION_LABELS[seat.connection]}</p>
+            )}
+            {seat.error && <p role="alert" className="text-xs text-red-400 mt-4">{seat.error}</p>}
+            <PixelatedButton onClick={onCancel} className="mt-8 bg-yellow-500 hover:bg-yellow-600 text-slate-900">
+                Cancel
+            </PixelatedButton>
+        </PixelatedPanel>
+    </div>
+);
+
+interface VersusMenuProps {
+    boards: BoardInfo[];
+    onStart: (boardInfo: BoardInfo) => void;
+    onHost: (boardInfo: BoardInfo) => void;
+    onJoin: (code: string) => void;
+    onBack: () => void;
+}
+
+// Picks the board for a hot-seat or hosted match, or joins someone else's room.
+export const VersusMenu: React.FC<VersusMenuProps> = ({ boards, onStart, onHost, onJoin, onBack }) => (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <PixelatedPanel className="w-full max-w-2xl">
+            <h1 className="text-xl text-center mb-2">VERSUS</h1>
+            <p className="text-xs text-center text-slate-300 mb-6 leading-relaxed">Two players, one device or two. Draft powers with equal budgets, then play a single game. On one device the board turns to face whoever moves.</p>
+            <div className="space-y-4">
+                {boards.map(b => (
+                    <div key={b.id} className="p-4 pixel-border bg-slate-800">
+                        <h2 className="text-lg text-yellow-300">{b.name}</h2>
+                        <p className="text-xs mt-2 text-slate-400">{b.description}</p>
+                        <div className="flex gap-2 mt-4">
+                            <PixelatedButton onClick={() => onStart(b)} className="bg-blue-600 hover:bg-blue-500">SELECT</PixelatedButton>
+                            <PixelatedButton onClick={() => onHost(b)} className="bg-green-600 hover:bg-green-500">HOST ONLINE</PixelatedButton>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <h2 className="text-sm text-yellow-300 mt-8">JOIN AN ONLINE MATCH</h2>
+            <p className="text-xs text-slate-400 mt-2">Enter the code your opponent's room shows. Both of you need the same relay in Settings.</p>
+            <RoomCodeEntry onSubmit={onJoin} />
+            <div className="text-center mt-8">
+                <PixelatedButton onClick={onBack} className="bg-yellow-500 hover:bg-yellow-600 text-slate-900">
+                    Back
+                </PixelatedButton>
+            </div>
+        </PixelatedPanel>
+    </div>
+);
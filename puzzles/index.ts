@@ -0,0 +1,4 @@
+import tactics from './tactics.json';
+
+// Puzzle packs in the order they appear on the puzzle screen. Add new packs here.
+export const PUZZLE_PACKS: unknown[] = [tactics];
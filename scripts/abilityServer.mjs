@@ -0,0 +1,149 @@
+// Serves pawn abilities to the game over the protocol its remote ability sources speak
+// (services/abilityProviders.ts):
+//
+//   GET /abilities?count=N         ->  { "abilities": [...] }  from a fixed catalog, for development and tests
+//   GET /gemini/abilities?count=N  ->  { "abilities": [...] }  generated by Gemini
+//
+// The Gemini API key stays here and never reaches the browser. Set GEMINI_API_KEY in the
+// environment or in .env.local; without it the Gemini route answers 503.
+//
+// ABILITY_SERVER_DELAY_MS and ABILITY_SERVER_FAIL_RATE (0-1) simulate a slow or flaky network.
+import { createServer } from 'node:http';
+import { GoogleGenAI, Type } from '@google/genai';
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; the key, if any, comes from the environment.
+}
+
+const PORT = Number(process.env.ABILITY_SERVER_PORT ?? 8787);
+const DELAY_MS = Number(process.env.ABILITY_SERVER_DELAY_MS ?? 0);
+const FAIL_RATE = Number(process.env.ABILITY_SERVER_FAIL_RATE ?? 0);
+const MAX_COUNT = 20;
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
+const GEMINI_MODEL = 'gemini-2.5-flash';
+
+const CATALOG = [
+  {
+    id: 'http-lancer', name: 'Lancer', description: 'Can also capture two squares straight ahead.', cost: 6, rarity: 'rare',
+    effects: [{ trigger: 'passive', effect: { kind: 'extra-movement', offsets: [{ row: -2, col: 0 }], mode: 'capture' } }],
+  },
+  {
+    id: 'http-pickpocket', name: 'Pickpocket', description: 'Earns $1 every time it moves.', cost: 4, rarity: 'common',
+    effects: [{ trigger: 'on-move', effect: { kind: 'gold-bonus', amount: 1 } }],
+  },
+  {
+    id: 'http-sentinel', name: 'Sentinel', description: 'Blocks the first attack against it.', cost: 6, rarity: 'rare',
+    effects: [{ trigger: 'on-attacked', effect: { kind: 'shield' }, consumesPower: true }],
+  },
+  {
+    id: 'http-skirmisher', name: 'Skirmisher', description: 'Can step one square sideways or back.', cost: 5, rarity: 'common',
+    effects: [{ trigger: 'passive', effect: { kind: 'extra-movement', offsets: [{ row: 0, col: -1 }, { row: 0, col: 1 }, { row: 1, col: 0 }], mode: 'move' } }],
+  },
+  {
+    id: 'http-reaver', name: 'Reaver', description: 'Moves again after capturing, and earns $2 for it.', cost: 14, rarity: 'legendary',
+    effects: [
+      { trigger: 'on-capture', effect: { kind: 'extra-move' } },
+      { trigger: 'on-capture', effect: { kind: 'gold-bonus', amount: 2 } },
+    ],
+  },
+  {
+    id: 'http-almoner', name: 'Almoner', description: 'Earns $2 at the start of each of your turns.', cost: 9, rarity: 'rare',
+    effects: [{ trigger: 'turn-start', effect: { kind: 'gold-bonus', amount: 2 } }],
+  },
+];
+
+// The game validates whatever comes back (services/abilityValidation.ts), so these limits only
+// steer Gemini; keep them in line with that file and MAX_VISION_RANGE in services/powerEffects.ts.
+const ABILITY_PROMPT = count => `Invent ${count} special powers for pawns in a roguelike chess game.
+Each power has a unique kebab-case id, a short name, a one-sentence description and a cost from 1 to 20.
+Its effects are built only from these triggers and effect kinds:
+- "on-capture": "extra-move" (move again) or "gold-bonus" (amount 1-10 gold)
+- "on-attacked": "shield" (negates one capture; must set consumesPower to true)
+- "on-move" and "turn-start": "gold-bonus"
+- "passive": "extra-movement" with offsets (row -1 is one square forward, each within 2 squares) and mode "move", "capture" or "both"
+- "passive": "vision" (range 1-3) or "stealth"; these only work on fog-of-war boards, so say so in the description
+Stronger powers cost more and are rarer.`;
+
+const ABILITY_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      name: { type: Type.STRING },
+      description: { type: Type.STRING },
+      cost: { type: Type.INTEGER },
+      rarity: { type: Type.STRING, enum: ['common', 'rare', 'legendary'] },
+      effects: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            trigger: { type: Type.STRING, enum: ['on-capture', 'on-attacked', 'on-move', 'turn-start', 'passive'] },
+            consumesPower: { type: Type.BOOLEAN },
+            effect: {
+              type: Type.OBJECT,
+              properties: {
+                kind: { type: Type.STRING, enum: ['extra-move', 'shield', 'extra-movement', 'gold-bonus', 'vision', 'stealth'] },
+                amount: { type: Type.INTEGER },
+                range: { type: Type.INTEGER },
+                mode: { type: Type.STRING, enum: ['move', 'capture', 'both'] },
+                offsets: {
+                  type: Type.ARRAY,
+                  items: { type: Type.OBJECT, properties: { row: { type: Type.INTEGER }, col: { type: Type.INTEGER } }, required: ['row', 'col'] },
+                },
+              },
+              required: ['kind'],
+            },
+          },
+          required: ['trigger', 'effect'],
+        },
+      },
+    },
+    required: ['id', 'name', 'description', 'cost', 'rarity', 'effects'],
+  },
+};
+
+const generateWithGemini = async count => {
+  const response = await new GoogleGenAI({ apiKey: GEMINI_API_KEY }).models.generateContent({
+    model: GEMINI_MODEL,
+    contents: ABILITY_PROMPT(count),
+    config: { responseMimeType: 'application/json', responseSchema: ABILITY_SCHEMA },
+  });
+  return JSON.parse(response.text ?? '');
+};
+
+const shuffled = list => {
+  const copy = [...list];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+};
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  const routes = ['/abilities', '/gemini/abilities'];
+  if (req.method !== 'GET' || !routes.includes(url.pathname)) return send(res, 404, { error: 'not found' });
+  const count = Math.min(MAX_COUNT, Math.max(1, Number(url.searchParams.get('count')) || 3));
+  setTimeout(() => {
+    if (Math.random() < FAIL_RATE) return send(res, 503, { error: 'simulated failure' });
+    if (url.pathname === '/abilities') return send(res, 200, { abilities: shuffled(CATALOG).slice(0, count) });
+    if (!GEMINI_API_KEY) return send(res, 503, { error: 'no Gemini API key configured' });
+    generateWithGemini(count).then(
+      abilities => send(res, 200, { abilities }),
+      error => {
+        console.error('Gemini ability generation failed:', error);
+        send(res, 502, { error: 'Gemini ability generation failed' });
+      },
+    );
+  }, DELAY_MS);
+}).listen(PORT, () => console.log(`Ability server listening on http://localhost:${PORT}${GEMINI_API_KEY ? '' : ' (no Gemini API key)'}`));
@@ -0,0 +1,192 @@
+// The relay for online versus matches. Clients speak the protocol in services/netProtocol.ts over
+// a WebSocket; README.md walks through a match. The relay keeps the authoritative copy of every
+// match and runs each draft pick, move and resignation through the game's own versus engine
+// before telling either player about it, so a modified client can't cheat.
+//
+// RELAY_SERVER_PORT sets the port (8788). A room whose players have both gone is kept for
+// RELAY_RECONNECT_GRACE_MS (60s) so they can rejoin.
+import { randomUUID } from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.RELAY_SERVER_PORT ?? 8788);
+const RECONNECT_GRACE_MS = Number(process.env.RELAY_RECONNECT_GRACE_MS ?? 60_000);
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ'; // No I or O, which read like 1 and 0
+const CODE_LENGTH = 4;
+
+// esbuild bundles the app's own TypeScript modules in memory at startup, so the relay plays by
+// exactly its rules without a build step.
+const RULES_ENTRY = `
+export { applyVersusAction, createVersusSession, VERSUS_POOL_SIZE } from './services/versusEngine';
+export { parseClientMessage, PROTOCOL_VERSION } from './services/netProtocol';
+export { generateLocalPawnAbilities } from './services/localAbilityService';
+export { loadBoards } from './services/boardLoader';
+export { hasFog } from './services/vision';
+export { BOARD_DEFINITIONS } from './boards';
+`;
+const { outputFiles: [rulesBundle] } = await build({
+  stdin: { contents: RULES_ENTRY, resolveDir: fileURLToPath(new URL('..', import.meta.url)), loader: 'ts' },
+  bundle: true,
+  write: false,
+  format: 'esm',
+  platform: 'node',
+  logLevel: 'error',
+});
+const {
+  applyVersusAction, createVersusSession, VERSUS_POOL_SIZE, parseClientMessage, PROTOCOL_VERSION,
+  generateLocalPawnAbilities, loadBoards, hasFog, BOARD_DEFINITIONS,
+} = await import(`data:text/javascript;base64,${Buffer.from(rulesBundle.contents).toString('base64')}`);
+const BOARDS = loadBoards(BOARD_DEFINITIONS).filter(b => !hasFog(b.rules)); // Versus has no fog of war
+
+const COLORS = ['white', 'black'];
+const opponentOf = color => color === 'white' ? 'black' : 'white';
+
+// code -> { code, board, session, seats: { white, black }, expiry }; a seat is { token, socket }.
+const rooms = new Map();
+// socket -> { room, color }
+const seated = new Map();
+
+const newCode = () => {
+  let code;
+  do {
+    code = Array.from({ length: CODE_LENGTH }, () => CODE_LETTERS[Math.floor(Math.random() * CODE_LETTERS.length)]).join('');
+  } while (rooms.has(code));
+  return code;
+};
+
+const send = (socket, message) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const broadcast = (room, message) => COLORS.forEach(color => send(room.seats[color]?.socket, message));
+
+const sendError = (socket, code, message) => send(socket, { type: 'error', code, message });
+
+const opponentStatus = (room, color) => {
+  const seat = room.seats[opponentOf(color)];
+  return !seat ? 'waiting' : seat.socket ? 'connected' : 'disconnected';
+};
+
+const sendLobby = room => COLORS.forEach(color => {
+  const seat = room.seats[color];
+  if (seat) send(seat.socket, { type: 'lobby', code: room.code, color, token: seat.token, opponent: opponentStatus(room, color) });
+});
+
+const takeSeat = (room, color, socket) => {
+  const seat = room.seats[color] ?? { token: randomUUID(), socket: null };
+  if (seat.socket && seat.socket !== socket) seat.socket.close(4000, 'Seat taken over by a rejoin');
+  seat.socket = socket;
+  room.seats[color] = seat;
+  seated.set(socket, { room, color });
+  clearTimeout(room.expiry);
+};
+
+const createRoom = (socket, boardId) => {
+  const board = BOARDS.find(b => b.id === boardId);
+  if (!board) return sendError(socket, 'unknown-board', `No board "${boardId}".`);
+  const room = { code: newCode(), board, session: null, seats: { white: null, black: null }, expiry: undefined };
+  rooms.set(room.code, room);
+  takeSeat(room, 'white', socket);
+  sendLobby(room);
+};
+
+const joinRoom = async (socket, code) => {
+  const room = rooms.get(code);
+  if (!room) return sendError(socket, 'no-room', `No room "${code}".`);
+  if (room.seats.black) return sendError(socket, 'room-full', `Room ${code} already has two players.`);
+  takeSeat(room, 'black', socket);
+  // Extra candidates, since powers that only pay gold are dropped from the draft.
+  room.session = createVersusSession(room.board, await generateLocalPawnAbilities(VERSUS_POOL_SIZE * 2));
+  sendLobby(room);
+  broadcast(room, { type: 'state', session: room.session });
+};
+
+const rejoinRoom = (socket, code, token) => {
+  const room = rooms.get(code);
+  const color = COLORS.find(c => room?.seats[c]?.token === token);
+  if (!room || !color) return sendError(socket, 'no-room', `Can't rejoin room "${code}".`);
+  takeSeat(room, color, socket);
+  sendLobby(room);
+  if (room.session) send(socket, { type: 'state', session: room.session });
+};
+
+// The engine action for a game message, and whether only the player to move may send it.
+const toAction = (message, color) => {
+  switch (message.type) {
+    case 'draft-power': return { action: { type: 'draft-power', pawnId: message.pawnId }, onTurn: true };
+    case 'end-draft': return { action: { type: 'end-draft' }, onTurn: true };
+    case 'move': return { action: { type: 'move', from: message.from, to: message.to, promotion: message.promotion }, onTurn: true };
+    case 'resign': return { action: { type: 'resign', color }, onTurn: false };
+  }
+};
+
+const announce = (next, message, color) => {
+  switch (message.type) {
+    case 'draft-power': return { type: 'drafted', color, pawnId: message.pawnId };
+    case 'end-draft': return { type: 'draft-ended', color };
+    case 'resign': return { type: 'resigned', color };
+    case 'move': {
+      const last = next.moveLog[next.moveLog.length - 1];
+      return { type: 'moved', color, from: message.from, to: message.to, promotion: message.promotion, san: last.san, notes: last.notes };
+    }
+  }
+};
+
+const play = (socket, message) => {
+  const place = seated.get(socket);
+  if (!place) return sendError(socket, 'not-seated', 'Create, join or rejoin a room first.');
+  const { room, color } = place;
+  if (!room.session) return sendError(socket, 'rejected', 'The match starts when a second player joins.');
+  if (message.type === 'sync') return send(socket, { type: 'state', session: room.session });
+
+  const { action, onTurn } = toAction(message, color);
+  if (onTurn && room.session.turn !== color) return sendError(socket, 'not-your-turn', "It is your opponent's turn.");
+  const previous = room.session;
+  const next = applyVersusAction(previous, action).session;
+  if (next === previous) return sendError(socket, 'rejected', `The rules don't allow that ${message.type}.`);
+  room.session = next;
+
+  broadcast(room, announce(next, message, color));
+  if (previous.phase === 'draft' && next.phase !== 'draft') {
+    broadcast(room, { type: 'match-start', boardId: room.board.id, powers: { white: next.drafts.white.powers, black: next.drafts.black.powers } });
+  }
+  if (previous.phase !== 'over' && next.phase === 'over') {
+    broadcast(room, { type: 'game-over', winner: next.winner, message: next.message });
+  }
+};
+
+const leave = socket => {
+  const place = seated.get(socket);
+  if (!place) return;
+  seated.delete(socket);
+  const { room, color } = place;
+  if (room.seats[color]?.socket !== socket) return; // Already replaced by a rejoin
+  room.seats[color].socket = null;
+  sendLobby(room);
+  if (COLORS.every(c => !room.seats[c]?.socket)) {
+    room.expiry = setTimeout(() => rooms.delete(room.code), RECONNECT_GRACE_MS);
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', socket => {
+  socket.on('message', async data => {
+    const message = parseClientMessage(String(data));
+    if (!message) return sendError(socket, 'bad-message', 'Unreadable message.');
+    if ('version' in message && message.version !== PROTOCOL_VERSION) {
+      return sendError(socket, 'version', `The relay speaks protocol version ${PROTOCOL_VERSION}.`);
+    }
+    if (seated.has(socket) && ['create', 'join', 'rejoin'].includes(message.type)) leave(socket);
+    switch (message.type) {
+      case 'create': return createRoom(socket, message.boardId);
+      case 'join': return joinRoom(socket, message.code);
+      case 'rejoin': return rejoinRoom(socket, message.code, message.token);
+      default: return play(socket, message);
+    }
+  });
+  socket.on('close', () => leave(socket));
+});
+
+server.on('listening', () => console.log(`Relay server listening on ws://localhost:${PORT}`));
@@ -0,0 +1,70 @@
+import type { AbilitySource, PawnPower } from '../types';
+import { validateAbility } from './abilityValidation';
+
+// Abilities fetched from a remote provider are kept in localStorage and reused by later shops,
+// so the network is only hit when the cache runs low or goes stale.
+
+const STORAGE_KEY = 'pawns-gambit:ability-cache';
+const MAX_ENTRIES_PER_SOURCE = 48;
+const ENTRY_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+type RemoteSource = Exclude<AbilitySource, 'local'>;
+
+interface CachedAbility {
+  power: PawnPower;
+  fetchedAt: number;
+}
+
+type AbilityCache = Partial<Record<RemoteSource, CachedAbility[]>>;
+
+const readCache = (): AbilityCache => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    console.error("Failed to load ability cache:", error);
+    return {};
+  }
+};
+
+const writeCache = (cache: AbilityCache) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Failed to save ability cache:", error);
+  }
+};
+
+// Entries are validated again on the way out; storage can be edited by hand.
+const freshEntries = (cache: AbilityCache, source: RemoteSource, now: number): CachedAbility[] => {
+  const entries = Array.isArray(cache[source]) ? cache[source] as CachedAbility[] : [];
+  return entries.flatMap(entry => {
+    if (typeof entry?.fetchedAt !== 'number' || now - entry.fetchedAt > ENTRY_TTL_MS) return [];
+    const result = validateAbility(entry.power);
+    return result.ok === false ? [] : [{ power: result.power, fetchedAt: entry.fetchedAt }];
+  });
+};
+
+export const loadCachedAbilities = (source: RemoteSource, now: number = Date.now()): PawnPower[] =>
+  freshEntries(readCache(), source, now).map(entry => entry.power);
+
+/**
+ * Adds newly fetched abilities to the cache, replacing any with the same id and dropping the
+ * oldest once the source holds more than it may keep.
+ */
+export const cacheAbilities = (source: RemoteSource, powers: PawnPower[], now: number = Date.now()) => {
+  const cache = readCache();
+  const ids = powers.map(p => p.id);
+  const kept = freshEntries(cache, source, now).filter(entry => !ids.includes(entry.power.id));
+  const entries = [...kept, ...powers.map(power => ({ power, fetchedAt: now }))];
+  writeCache({ ...cache, [source]: entries.slice(-MAX_ENTRIES_PER_SOURCE) });
+};
+
+export const clearAbilityCache = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear ability cache:", error);
+  }
+};
@@ -0,0 +1,37 @@
+import type { AbilitySource } from '../types';
+
+// A provider fetches raw ability JSON from somewhere remote. Providers don't validate, retry or
+// cache; abilityService.ts does that the same way for all of them.
+
+export interface AbilityProvider {
+  source: Exclude<AbilitySource, 'local'>;
+  fetchAbilities: (count: number, signal: AbortSignal) => Promise<unknown>;
+}
+
+// Both remote sources are served by the ability server (scripts/abilityServer.mjs), which holds
+// the Gemini key so it never ships to the browser.
+const fetchFromServer = async (url: string, signal: AbortSignal): Promise<unknown> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Ability server answered ${response.status}`);
+  return response.json();
+};
+
+const trimSlashes = (baseUrl: string) => baseUrl.replace(/\/+$/, '');
+
+/**
+ * Gemini-generated abilities, fetched through the ability server: `GET {baseUrl}/gemini/abilities?count=N`
+ * answering `{ "abilities": [...] }`.
+ */
+export const createGeminiProvider = (baseUrl: string): AbilityProvider => ({
+  source: 'gemini',
+  fetchAbilities: (count, signal) => fetchFromServer(`${trimSlashes(baseUrl)}/gemini/abilities?count=${count}`, signal),
+});
+
+/**
+ * A stand-in for Gemini that asks an HTTP server for abilities: `GET {baseUrl}/abilities?count=N`
+ * answering `{ "abilities": [...] }`. scripts/abilityServer.mjs serves a fixed catalog this way.
+ */
+export const createHttpProvider = (baseUrl: string): AbilityProvider => ({
+  source: 'http',
+  fetchAbilities: (count, signal) => fetchFromServer(`${trimSlashes(baseUrl)}/abilities?count=${count}`, signal),
+});
@@ -0,0 +1,119 @@
+import type { AbilitySource, AbilitySourcePreference, PawnPower } from '../types';
+import { createGeminiProvider, createHttpProvider } from './abilityProviders';
+import type { AbilityProvider } from './abilityProviders';
+import { validateAbilities } from './abilityValidation';
+import { cacheAbilities, loadCachedAbilities } from './abilityCache';
+import { generateLocalPawnAbilities } from './localAbilityService';
+import { ALL_SPECIAL_PAWNS } from './powerEffects';
+import { BOSSES } from './bosses';
+import { DEFAULT_SETTINGS } from './settingsService';
+
+const FETCH_TIMEOUT_MS = 8000; // Per attempt
+const FETCH_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500; // Doubles after each failed attempt
+// Each fetch asks for more than one shop needs, so the next few shops can come from the cache.
+const FETCH_BATCH_SIZE = 9;
+const CACHE_LOW_WATER = 2; // Refill the cache once it holds fewer than this many shops' worth
+
+// Generated abilities may not reuse the ids of powers the game hands out itself.
+const RESERVED_IDS = [...ALL_SPECIAL_PAWNS, ...BOSSES.map(b => b.reward)].map(p => p.id);
+
+export interface ShopAbilities {
+  pawns: PawnPower[];
+  source: AbilitySource;
+}
+
+export interface AbilityServiceOptions {
+  serverUrl?: string; // Base URL of the ability server, which serves both remote sources
+}
+
+// Runs `task`, aborting it if it hasn't settled within `ms`.
+const withTimeout = <T,>(task: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Timed out after ${ms}ms`));
+    }, ms);
+    task(controller.signal).then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); },
+    );
+  });
+};
+
+const withRetries = async <T,>(task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt < FETCH_ATTEMPTS; attempt++) {
+    try {
+      return await withTimeout(task, FETCH_TIMEOUT_MS);
+    } catch (error) {
+      lastError = error;
+      if (attempt < FETCH_ATTEMPTS - 1) await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt));
+    }
+  }
+  throw lastError;
+};
+
+const getProvider = (source: Exclude<AbilitySource, 'local'>, options: AbilityServiceOptions): AbilityProvider => {
+  const serverUrl = options.serverUrl ?? DEFAULT_SETTINGS.abilityServerUrl;
+  return source === 'gemini' ? createGeminiProvider(serverUrl) : createHttpProvider(serverUrl);
+};
+
+// `count` different abilities from `pool`, chosen with `random`.
+const draw = (pool: PawnPower[], count: number, random: () => number): PawnPower[] => {
+  const remaining = [...pool];
+  const picked: PawnPower[] = [];
+  while (picked.length < count && remaining.length > 0) {
+    picked.push(remaining.splice(Math.floor(random() * remaining.length), 1)[0]);
+  }
+  return picked;
+};
+
+/**
+ * Shop wares from a remote provider. They come out of the cache when it holds enough; otherwise
+ * a fresh batch is fetched (with retries), validated and cached first. A failed fetch falls back
+ * to whatever the cache still has, and only throws when that is nothing.
+ */
+const getRemoteAbilities = async (provider: AbilityProvider, count: number, random: () => number): Promise<PawnPower[]> => {
+  let pool = loadCachedAbilities(provider.source);
+  if (pool.length < count * CACHE_LOW_WATER) {
+    try {
+      const raw = await withRetries(signal => provider.fetchAbilities(FETCH_BATCH_SIZE, signal));
+      const { powers, rejected } = validateAbilities(raw, RESERVED_IDS);
+      if (rejected.length > 0) console.warn(`Rejected ${rejected.length} generated abilities:`, rejected);
+      cacheAbilities(provider.source, powers);
+      pool = loadCachedAbilities(provider.source);
+    } catch (error) {
+      if (pool.length === 0) throw error;
+      console.error(`Fetching ${provider.source} abilities failed, using cached ones:`, error);
+    }
+  }
+  return draw(pool, count, random);
+};
+
+/**
+ * Generates shop wares from the preferred source. In 'auto' mode Gemini is tried first and the
+ * local catalog takes over when it is offline, fails, times out or returns nothing usable.
+ * An explicitly chosen remote source never falls back; its errors are thrown.
+ */
+export const generateShopAbilities = async (
+  count: number,
+  preference: AbilitySourcePreference,
+  random: () => number = Math.random,
+  options: AbilityServiceOptions = {},
+): Promise<ShopAbilities> => {
+  const remote = preference === 'auto' ? (navigator.onLine ? 'gemini' : null) : preference === 'local' ? null : preference;
+  if (remote) {
+    try {
+      const pawns = await getRemoteAbilities(getProvider(remote, options), count, random);
+      if (pawns.length > 0 || preference !== 'auto') {
+        return { pawns, source: remote };
+      }
+    } catch (error) {
+      if (preference !== 'auto') throw error;
+      console.error("Gemini ability generation failed, using local catalog:", error);
+    }
+  }
+  return { pawns: await generateLocalPawnAbilities(count, random), source: 'local' };
+};
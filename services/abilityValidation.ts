@@ -0,0 +1,112 @@
+import { PowerEffectKind, PowerRarity, PowerTrigger } from '../types';
+import type { PawnPower, PowerEffectDefinition } from '../types';
+import { isInterpretablePower } from './powerEffects';
+
+// Abilities from a remote provider are untrusted JSON. Each one is checked field by field and
+// rebuilt from the fields we know, so nothing unexpected reaches the shop or a save file.
+
+export const MIN_ABILITY_COST = 1;
+export const MAX_ABILITY_COST = 20;
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 160;
+const MAX_EFFECTS = 3;
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/;
+
+export type AbilityValidation =
+  | { ok: true; power: PawnPower }
+  | { ok: false; reason: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEnumValue = <T extends Record<string, string>>(enumObj: T, value: unknown): value is T[keyof T] =>
+  Object.values(enumObj).includes(value as string);
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+
+const toEffect = (raw: unknown): PowerEffectDefinition | null => {
+  if (!isRecord(raw) || !isEnumValue(PowerTrigger, raw.trigger) || !isRecord(raw.effect)) return null;
+  const { effect } = raw;
+  if (!isEnumValue(PowerEffectKind, effect.kind)) return null;
+  const definition = raw.consumesPower === true ? { trigger: raw.trigger, consumesPower: true } : { trigger: raw.trigger };
+  switch (effect.kind) {
+    case PowerEffectKind.GOLD_BONUS:
+      return { ...definition, effect: { kind: effect.kind, amount: effect.amount as number } };
+    case PowerEffectKind.VISION:
+      return { ...definition, effect: { kind: effect.kind, range: effect.range as number } };
+    case PowerEffectKind.EXTRA_MOVEMENT:
+      if (!Array.isArray(effect.offsets) || !effect.offsets.every(isRecord)) return null;
+      return {
+        ...definition,
+        effect: {
+          kind: effect.kind,
+          offsets: effect.offsets.map(o => ({ row: o.row as number, col: o.col as number })),
+          mode: effect.mode as 'move' | 'capture' | 'both',
+        },
+      };
+    default:
+      return { ...definition, effect: { kind: effect.kind } };
+  }
+};
+
+/**
+ * Checks one generated ability and returns a clean copy of it, or why it was rejected.
+ */
+export const validateAbility = (raw: unknown): AbilityValidation => {
+  if (!isRecord(raw)) return { ok: false, reason: 'not an object' };
+  if (typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id)) return { ok: false, reason: 'invalid id' };
+  if (!isText(raw.name, MAX_NAME_LENGTH)) return { ok: false, reason: `${raw.id}: invalid name` };
+  if (!isText(raw.description, MAX_DESCRIPTION_LENGTH)) return { ok: false, reason: `${raw.id}: invalid description` };
+  if (typeof raw.cost !== 'number' || !Number.isInteger(raw.cost) || raw.cost < MIN_ABILITY_COST || raw.cost > MAX_ABILITY_COST) {
+    return { ok: false, reason: `${raw.id}: cost outside ${MIN_ABILITY_COST}-${MAX_ABILITY_COST}` };
+  }
+  if (raw.rarity !== undefined && !isEnumValue(PowerRarity, raw.rarity)) return { ok: false, reason: `${raw.id}: unknown rarity` };
+  if (!Array.isArray(raw.effects) || raw.effects.length === 0 || raw.effects.length > MAX_EFFECTS) {
+    return { ok: false, reason: `${raw.id}: needs 1-${MAX_EFFECTS} effects` };
+  }
+  const effects = raw.effects.map(toEffect);
+  if (effects.some(e => e === null)) return { ok: false, reason: `${raw.id}: unknown trigger or effect kind` };
+
+  const power: PawnPower = {
+    id: raw.id,
+    name: raw.name.trim(),
+    description: raw.description.trim(),
+    cost: raw.cost,
+    effects: effects as PowerEffectDefinition[],
+  };
+  if (raw.rarity !== undefined) power.rarity = raw.rarity as PowerRarity;
+  // Only offer powers the effect interpreter can actually run.
+  if (!isInterpretablePower(power)) return { ok: false, reason: `${raw.id}: effects the game can't run` };
+  return { ok: true, power };
+};
+
+export interface ValidatedAbilities {
+  powers: PawnPower[];
+  rejected: string[]; // One reason per ability that was dropped
+}
+
+/**
+ * Validates a provider's whole response. Ids must be unique within it and must not clash with
+ * `takenIds` (built-in powers, or abilities already cached).
+ */
+export const validateAbilities = (raw: unknown, takenIds: string[] = []): ValidatedAbilities => {
+  const list = isRecord(raw) && Array.isArray(raw.abilities) ? raw.abilities : raw;
+  if (!Array.isArray(list)) return { powers: [], rejected: ['response is not a list of abilities'] };
+
+  const seen = new Set(takenIds);
+  const powers: PawnPower[] = [];
+  const rejected: string[] = [];
+  list.forEach(item => {
+    const result = validateAbility(item);
+    if (result.ok === false) {
+      rejected.push(result.reason);
+    } else if (seen.has(result.power.id)) {
+      rejected.push(`${result.power.id}: duplicate id`);
+    } else {
+      seen.add(result.power.id);
+      powers.push(result.power);
+    }
+  });
+  return { powers, rejected };
+};
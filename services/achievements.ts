@@ -0,0 +1,59 @@
+import { GameState, PieceType, PlayerColor } from '../types';
+import type { PlayerProfile } from '../types';
+import type { GameSession } from './gameEngine';
+import { STURDY_PAWN } from './powerEffects';
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  // Checked when a level ends, against the profile already updated for that level.
+  isEarned: (profile: PlayerProfile, session: GameSession) => boolean;
+  unlocksPawn?: string; // A power id that becomes a starting pawn option
+}
+
+const STURDY_BLOCKS_NEEDED = 5;
+
+const hasOnlyPawnsLeft = (session: GameSession) =>
+  session.board.every(row => row.every(sq =>
+    sq?.color !== PlayerColor.WHITE || sq.type === PieceType.PAWN || sq.type === PieceType.KING));
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-victory',
+    name: 'First Victory',
+    description: 'Win a level.',
+    isEarned: profile => profile.levelsWon > 0,
+  },
+  {
+    id: 'pawn-storm',
+    name: 'Pawn Storm',
+    description: 'Win a level with nothing but pawns and your king left on the board.',
+    isEarned: (_, session) => session.gameState === GameState.LEVEL_WON && hasOnlyPawnsLeft(session),
+  },
+  {
+    id: 'stone-wall',
+    name: 'Stone Wall',
+    description: `Block ${STURDY_BLOCKS_NEEDED} enemy attacks with Sturdy Pawns.`,
+    isEarned: profile => profile.sturdyBlocks >= STURDY_BLOCKS_NEEDED,
+    unlocksPawn: STURDY_PAWN.id,
+  },
+  {
+    id: 'kingslayer',
+    name: 'Kingslayer',
+    description: 'Defeat a boss.',
+    isEarned: profile => profile.bossesDefeated > 0,
+  },
+  {
+    id: 'veteran',
+    name: 'Veteran',
+    description: 'Reach level 10 on any board.',
+    isEarned: profile => Object.values(profile.bestLevels).some(level => level >= 10),
+  },
+  {
+    id: 'war-chest',
+    name: 'War Chest',
+    description: 'Finish a level with $100 in the bank.',
+    isEarned: (_, session) => session.bank >= 100,
+  },
+];
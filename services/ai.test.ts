@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { PieceType, PlayerColor } from '../types';
+import type { Board, ChessState, PawnPower } from '../types';
+import { buildBoardInfo } from './boardLoader';
+import { createChessState } from './chessRules';
+import { searchBestMove } from './ai';
+import type { CaptureRace, SearchContext, SearchOptions } from './ai';
+import { RELENTLESS_PAWN, STURDY_PAWN } from './powerEffects';
+import { createRng } from './random';
+
+// Layouts use the board file format: uppercase is white, row 0 is the eighth rank. The black king
+// starts hidden, as in a run.
+const toBoard = (layout: string[], powers: Record<string, string> = {}): Board => {
+  const board = buildBoardInfo({ id: 'test', name: 'Test', description: '', layout }).startingBoard;
+  for (const [square, powerId] of Object.entries(powers)) {
+    const row = layout.length - Number(square.slice(1));
+    const col = square.charCodeAt(0) - 'a'.charCodeAt(0);
+    board[row][col] = { ...board[row][col]!, powerId };
+  }
+  return board;
+};
+
+const context = (board: Board, powers: PawnPower[], race: CaptureRace | null = null, chessState: ChessState = createChessState(board)): SearchContext =>
+  ({ rules: {}, powers, race, chessState });
+
+const options = (maxDepth: number): SearchOptions => ({ maxDepth, budget: { nodes: 200000 }, random: createRng(1).next });
+
+const CAPTURE_VALUES: Record<PieceType, number> = {
+  [PieceType.PAWN]: 1,
+  [PieceType.KNIGHT]: 3,
+  [PieceType.BISHOP]: 4,
+  [PieceType.ROOK]: 5,
+  [PieceType.QUEEN]: 9,
+  [PieceType.KING]: 0,
+};
+
+describe('searchBestMove', () => {
+  it('takes a plain pawn rather than attack a Sturdy Pawn', () => {
+    const board = toBoard([
+      '.......k',
+      '........',
+      '........',
+      '........',
+      '........',
+      'P..r...P',
+      '........',
+      'K.......',
+    ], { a3: STURDY_PAWN.id });
+    const { move } = searchBestMove(board, PlayerColor.BLACK, context(board, [STURDY_PAWN]), options(2));
+    expect(move).toEqual({ from: { row: 5, col: 3 }, to: { row: 5, col: 7 } });
+  });
+
+  it('counts the extra move a Relentless capture earns', () => {
+    // Qxb6 wins a bishop. dxe4 only wins a knight, but the pawn moves again and the queen takes the bishop too.
+    const board = toBoard([
+      '.q.....k',
+      '........',
+      '.B......',
+      '...p....',
+      '....N...',
+      '........',
+      '........',
+      '.......K',
+    ], { d5: RELENTLESS_PAWN.id });
+    const { move } = searchBestMove(board, PlayerColor.BLACK, context(board, [RELENTLESS_PAWN]), options(2));
+    expect(move).toEqual({ from: { row: 3, col: 3 }, to: { row: 4, col: 4 } });
+  });
+
+  it('takes en passant', () => {
+    // White's pawn has just stepped e2-e4 past the pawn on d4.
+    const board = toBoard([
+      '.......k',
+      '........',
+      '........',
+      '........',
+      '...pP...',
+      '........',
+      '........',
+      'K.......',
+    ]);
+    const state = { ...createChessState(board), enPassantTarget: { row: 5, col: 4 } };
+    const { move } = searchBestMove(board, PlayerColor.BLACK, context(board, [], null, state), options(2));
+    expect(move).toEqual({ from: { row: 4, col: 3 }, to: { row: 5, col: 4 } });
+  });
+
+  describe('as the player nears the summon threshold', () => {
+    // Bxe4 wins the exchange, but dxe4 pays the player for the bishop.
+    const board = toBoard([
+      'p......k',
+      '........',
+      '..b.....',
+      '........',
+      '....R...',
+      '...P....',
+      '........',
+      'K.......',
+    ]);
+    const trade = { from: { row: 2, col: 2 }, to: { row: 4, col: 4 } };
+    const race = (progress: number): CaptureRace => ({ progress, threshold: 10, captureValues: CAPTURE_VALUES });
+
+    it('wins the exchange while the king is safe', () => {
+      expect(searchBestMove(board, PlayerColor.BLACK, context(board, []), options(2)).move).toEqual(trade);
+      expect(searchBestMove(board, PlayerColor.BLACK, context(board, [], race(0)), options(2)).move).toEqual(trade);
+    });
+
+    it('keeps its pieces out of reach once the player is close', () => {
+      expect(searchBestMove(board, PlayerColor.BLACK, context(board, [], race(5)), options(2)).move).not.toEqual(trade);
+    });
+  });
+
+  it('finds the same move for the same random stream and node budget', () => {
+    const board = toBoard(['rnbqkbnr', 'pppppppp', '........', '........', '....P...', '........', 'PPPP.PPP', 'RNBQKBNR']);
+    const first = searchBestMove(board, PlayerColor.BLACK, context(board, []), options(3));
+    const second = searchBestMove(board, PlayerColor.BLACK, context(board, []), options(3));
+    expect(second).toEqual(first);
+    expect(first.depth).toBe(3);
+  });
+});
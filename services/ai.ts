@@ -0,0 +1,349 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardRules, ChessState, PawnPower, Piece, Position } from '../types';
+import { advanceChessState, getAllLegalMoves, getMoveDetails, getPositionKey, recordBlockedAttack } from './chessRules';
+import { getPowerMoves, getPowerTraits } from './powerEffects';
+import { createRng } from './random';
+
+export interface AIMove {
+  from: Position;
+  to: Position;
+}
+
+/**
+ * The player's race to summon the hidden enemy king: every white capture adds its gold value to
+ * `progress`, and once it reaches `threshold` the king can be revealed (and captured) at any time.
+ */
+export interface CaptureRace {
+  progress: number;
+  threshold: number;
+  captureValues: Record<PieceType, number>;
+}
+
+// Everything about the position beyond the bare board that the search takes into account.
+export interface SearchContext {
+  rules: BoardRules;
+  powers: PawnPower[];
+  race: CaptureRace | null; // null once the king is on the board
+  chessState: ChessState; // Castling rights and the en-passant target at the root
+}
+
+// When a search gives up on the next iteration: after some wall-clock time, which depends on how
+// fast the machine is, or after visiting some number of positions, which plays the same everywhere.
+export type SearchBudget = { timeMs: number } | { nodes: number };
+
+export interface SearchOptions {
+  maxDepth: number;
+  budget: SearchBudget;
+  random?: () => number;
+  now?: () => number;
+}
+
+// A search described as plain data, so it can be posted to the AI worker.
+export interface AISearchRequest extends SearchContext {
+  board: Board;
+  color: PlayerColor;
+  maxDepth: number;
+  budget: SearchBudget;
+  rngState: number; // Tie-break stream; its state after the search is returned
+}
+
+export interface AISearchResponse {
+  move: AIMove | null;
+  rngState: number;
+  depth: number;
+  nodes: number;
+}
+
+export interface SearchResult {
+  move: AIMove | null;
+  depth: number; // Deepest fully searched iteration
+  score: number;
+  nodes: number;
+}
+
+// Centipawn values for the search; PIECE_VALUES in movement is the gold payout, not a strength estimate.
+const SEARCH_VALUES: Record<PieceType, number> = {
+  [PieceType.PAWN]: 100,
+  [PieceType.KNIGHT]: 320,
+  [PieceType.BISHOP]: 330,
+  [PieceType.ROOK]: 500,
+  [PieceType.QUEEN]: 900,
+  [PieceType.KING]: 0,
+};
+
+const KING_CAPTURE_SCORE = 100000;
+
+// A shield soaks up one attack, which costs the attacker a whole tempo.
+const SHIELD_BONUS = 50;
+const EXTRA_MOVE_BONUS = 40;
+
+// What a full capture-progress bar costs black: at the threshold the hidden king can be summoned and hunted.
+const RACE_WEIGHT = 400;
+
+// How often (in nodes) the search looks at the clock.
+const TIME_CHECK_INTERVAL = 1024;
+
+// Roughly how many nodes a mid-range machine searches per millisecond.
+const NODES_PER_MS = 100;
+
+const opponentOf = (color: PlayerColor) => color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+
+export const getSearchDepth = (level: number) => level <= 2 ? 1 : level <= 5 ? 2 : level <= 8 ? 3 : 4;
+
+// Later levels think longer, up to a cap that keeps the game moving.
+export const getTimeBudget = (level: number) => Math.min(250 + level * 100, 1500);
+
+// The same allowance counted in nodes, for searches that must replay identically.
+export const getNodeBudget = (level: number) => getTimeBudget(level) * NODES_PER_MS;
+
+// A position inside the search: the board, its castling and en-passant state, and how far the
+// player's capture race has got.
+interface SearchNode {
+  board: Board;
+  state: ChessState;
+  progress: number;
+}
+
+interface SearchStep {
+  node: SearchNode;
+  extraMove: boolean; // The same side moves again
+}
+
+const isKingHidden = (board: Board) =>
+  board.some(row => row.some(sq => sq?.type === PieceType.KING && sq.isVisible === false));
+
+const revealKing = (board: Board) => {
+  board.forEach(row => row.forEach((sq, c) => {
+    if (sq?.type === PieceType.KING && sq.isVisible === false) row[c] = { ...sq, isVisible: true };
+  }));
+};
+
+/**
+ * Plays a move the way applyPoweredMove and completeMove would, cheaply: shields negate captures,
+ * Relentless-style captures grant another move, castling hops the rook, en passant takes the pawn
+ * beside, pawns promote to queens and hazards sink pieces. The player is assumed to summon the king
+ * the moment the capture race allows it.
+ */
+const applySearchMove = (node: SearchNode, move: AIMove, context: SearchContext): SearchStep => {
+  const { rules, powers, race } = context;
+  const { from, to } = move;
+  const details = getMoveDetails(node.board, from, to, node.state, rules);
+  const next = node.board.map(row => row.slice());
+  const mover = next[from.row][from.col] as Piece;
+  let piece = mover;
+  const captureAt = details.captureAt ?? to;
+  const target = next[captureAt.row][captureAt.col];
+  const opponent = opponentOf(mover.color);
+
+  if (target && getPowerTraits(target, powers).shield) {
+    next[captureAt.row][captureAt.col] = { ...target, powerId: undefined };
+    return { node: { board: next, state: recordBlockedAttack(node.state, next, opponent), progress: node.progress }, extraMove: false };
+  }
+
+  const moverTraits = getPowerTraits(piece, powers);
+  if (target && moverTraits.captureConsumesPower) piece = { ...piece, powerId: undefined };
+  next[from.row][from.col] = null;
+  next[captureAt.row][captureAt.col] = null;
+  if (details.castleRook) {
+    next[details.castleRook.to.row][details.castleRook.to.col] = next[details.castleRook.from.row][details.castleRook.from.col];
+    next[details.castleRook.from.row][details.castleRook.from.col] = null;
+  }
+  if (details.promotes) piece = { ...piece, type: PieceType.QUEEN };
+  next[to.row][to.col] = details.entersHazard ? null : piece;
+
+  let progress = node.progress;
+  if (race && target && piece.color === PlayerColor.WHITE) {
+    progress += race.captureValues[target.type] ?? 0;
+    if (progress >= race.threshold) revealKing(next);
+  }
+  const extraMove = !!target && moverTraits.extraMoveOnCapture;
+  const state = advanceChessState(node.state, next, mover, from, to, !!target, extraMove ? mover.color : opponent);
+  return { node: { board: next, state, progress }, extraMove };
+};
+
+const getSearchMoves = (node: SearchNode, color: PlayerColor, context: SearchContext): AIMove[] => {
+  const { board } = node;
+  const moves = getAllLegalMoves(board, color, context.rules, node.state);
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece?.color !== color || !piece.powerId) return;
+    const from = { row: r, col: c };
+    for (const to of getPowerMoves(board, from, context.powers, context.rules)) {
+      if (!moves.some(m => m.from.row === r && m.from.col === c && m.to.row === to.row && m.to.col === to.col)) {
+        moves.push({ from, to });
+      }
+    }
+  }));
+  return moves;
+};
+
+const evaluate = (node: SearchNode, color: PlayerColor, context: SearchContext): number => {
+  const { board } = node;
+  const centerRow = (board.length - 1) / 2;
+  const centerCol = (board[0].length - 1) / 2;
+  let score = 0;
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (!piece) return;
+    let value = SEARCH_VALUES[piece.type];
+    if (piece.type === PieceType.KNIGHT || piece.type === PieceType.PAWN) {
+      // A small pull toward the center keeps quiet positions from being scored as ties.
+      value += 10 - 2 * (Math.abs(r - centerRow) + Math.abs(c - centerCol));
+    }
+    if (piece.powerId) {
+      const traits = getPowerTraits(piece, context.powers);
+      if (traits.shield) value += SHIELD_BONUS;
+      if (traits.extraMoveOnCapture) value += EXTRA_MOVE_BONUS;
+    }
+    score += piece.color === color ? value : -value;
+  }));
+
+  // The closer the player gets to summoning, the more every piece black gives up hurts.
+  const { race } = context;
+  if (race && isKingHidden(board)) {
+    const filled = Math.min(node.progress / race.threshold, 1);
+    const danger = RACE_WEIGHT * filled * filled;
+    score += color === PlayerColor.BLACK ? -danger : danger;
+  }
+  return score;
+};
+
+const sameMove = (a: AIMove | undefined, b: AIMove) =>
+  !!a && a.from.row === b.from.row && a.from.col === b.from.col && a.to.row === b.to.row && a.to.col === b.to.col;
+
+// Hash move first, then captures by most valuable victim and least valuable attacker.
+// Attacks on shielded pieces only strip the shield, so they go last.
+const orderMoves = (board: Board, moves: AIMove[], powers: PawnPower[], hashMove?: AIMove): AIMove[] => {
+  const rank = (move: AIMove) => {
+    if (sameMove(hashMove, move)) return Infinity;
+    const victim = board[move.to.row][move.to.col];
+    if (!victim) return 0;
+    if (getPowerTraits(victim, powers).shield) return -1;
+    const attacker = board[move.from.row][move.from.col] as Piece;
+    return 10 * (SEARCH_VALUES[victim.type] + 1) - SEARCH_VALUES[attacker.type] / 100;
+  };
+  return [...moves].sort((a, b) => rank(b) - rank(a));
+};
+
+const positionKey = (node: SearchNode, toMove: PlayerColor) => `${node.progress} ${getPositionKey(node.board, toMove, node.state)}`;
+
+type Bound = 'exact' | 'lower' | 'upper';
+
+interface TableEntry {
+  depth: number;
+  score: number;
+  bound: Bound;
+  best?: AIMove;
+}
+
+class SearchTimeout extends Error {}
+
+const createSearch = (context: SearchContext, budget: SearchBudget, now: () => number) => {
+  const table = new Map<string, TableEntry>();
+  let nodes = 0;
+  const deadline = 'timeMs' in budget ? now() + budget.timeMs : Infinity;
+  const isOutOfBudget = 'nodes' in budget
+    ? () => nodes > budget.nodes
+    : () => nodes % TIME_CHECK_INTERVAL === 0 && now() > deadline;
+
+  // Score of one move for the side making it. An extra move keeps the turn, so there's no negation.
+  const scoreMove = (node: SearchNode, move: AIMove, depth: number, alpha: number, beta: number, color: PlayerColor): number => {
+    if (node.board[move.to.row][move.to.col]?.type === PieceType.KING) {
+      return KING_CAPTURE_SCORE + depth; // Sooner is better
+    }
+    const step = applySearchMove(node, move, context);
+    return step.extraMove
+      ? negamax(step.node, depth - 1, alpha, beta, color)
+      : -negamax(step.node, depth - 1, -beta, -alpha, opponentOf(color));
+  };
+
+  const negamax = (node: SearchNode, depth: number, alpha: number, beta: number, color: PlayerColor): number => {
+    nodes++;
+    if (isOutOfBudget()) throw new SearchTimeout();
+
+    const key = positionKey(node, color);
+    const entry = table.get(key);
+    if (entry && entry.depth >= depth) {
+      if (entry.bound === 'exact') return entry.score;
+      if (entry.bound === 'lower' && entry.score >= beta) return entry.score;
+      if (entry.bound === 'upper' && entry.score <= alpha) return entry.score;
+    }
+
+    const moves = getSearchMoves(node, color, context);
+    if (depth === 0 || moves.length === 0) return evaluate(node, color, context);
+
+    const originalAlpha = alpha;
+    let best = -Infinity;
+    let bestMove: AIMove | undefined;
+    for (const move of orderMoves(node.board, moves, context.powers, entry?.best)) {
+      const score = scoreMove(node, move, depth, alpha, beta, color);
+      if (score > best) {
+        best = score;
+        bestMove = move;
+      }
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+
+    const bound: Bound = best <= originalAlpha ? 'upper' : best >= beta ? 'lower' : 'exact';
+    table.set(key, { depth, score: best, bound, best: bestMove });
+    return best;
+  };
+
+  // One full-width pass over the root moves, best first from the previous iteration.
+  const searchRoot = (node: SearchNode, moves: AIMove[], depth: number, color: PlayerColor) => {
+    let bestMove: AIMove | null = null;
+    let bestScore = -Infinity;
+    for (const move of moves) {
+      const score = scoreMove(node, move, depth, bestScore, Infinity, color);
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+      }
+    }
+    return { move: bestMove, score: bestScore };
+  };
+
+  return { searchRoot, getNodes: () => nodes };
+};
+
+/**
+ * Iterative-deepening alpha-beta search for `color`. Each iteration reuses the transposition table
+ * of the last one, and the best move of the deepest finished iteration is returned when the
+ * budget runs out. Equal moves are decided by `random`, so with a node budget the same position
+ * and random stream always give the same move.
+ */
+export const searchBestMove = (board: Board, color: PlayerColor, context: SearchContext, options: SearchOptions): SearchResult => {
+  const { maxDepth, budget, random = Math.random, now = Date.now } = options;
+  // The search never looks at repetitions, so the root's history is left behind.
+  const root: SearchNode = { board, state: { ...context.chessState, positionCounts: {} }, progress: context.race?.progress ?? 0 };
+  let moves = getSearchMoves(root, color, context);
+  if (moves.length === 0) return { move: null, depth: 0, score: 0, nodes: 0 };
+
+  // Shuffle first; the stable sort in orderMoves keeps the shuffled order among equals.
+  for (let i = moves.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [moves[i], moves[j]] = [moves[j], moves[i]];
+  }
+  moves = orderMoves(board, moves, context.powers);
+
+  const search = createSearch(context, budget, now);
+  let result: SearchResult = { move: moves[0], depth: 0, score: 0, nodes: 0 };
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    try {
+      const { move, score } = search.searchRoot(root, moves, depth, color);
+      result = { move, depth, score, nodes: search.getNodes() };
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+    if (result.score >= KING_CAPTURE_SCORE) break; // Nothing beats taking the king
+    moves = orderMoves(board, moves, context.powers, result.move ?? undefined);
+  }
+  return { ...result, nodes: search.getNodes() };
+};
+
+export const runSearch = (request: AISearchRequest): AISearchResponse => {
+  const { board, color, rules, powers, race, chessState, maxDepth, budget } = request;
+  const rng = createRng(request.rngState);
+  const { move, depth, nodes } = searchBestMove(board, color, { rules, powers, race, chessState }, { maxDepth, budget, random: rng.next });
+  return { move, rngState: rng.getState(), depth, nodes };
+};
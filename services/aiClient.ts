@@ -0,0 +1,83 @@
+import { runSearch } from './ai';
+import type { AISearchRequest, AISearchResponse } from './ai';
+import type { AIWorkerRequest, AIWorkerResponse } from './aiWorker';
+
+export interface AIClient {
+  search: (request: AISearchRequest) => Promise<AISearchResponse>;
+  // Abandons the running search; its promise never settles.
+  cancel: () => void;
+  dispose: () => void;
+}
+
+const spawnWorker = (): Worker | null => {
+  try {
+    return new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('AI worker unavailable, searching on the main thread:', error);
+    return null;
+  }
+};
+
+/**
+ * Talks to the AI worker. The worker is started lazily and replaced after a cancel,
+ * since terminating it is the only way to stop a search midway. If the worker fails (its script
+ * won't load, or a message can't be read) the running search is rejected and every later one
+ * runs on the main thread.
+ */
+export const createAIClient = (): AIClient => {
+  let worker: Worker | null = null;
+  let workerFailed = false;
+  let nextId = 1;
+  let pending: { id: number, resolve: (response: AISearchResponse) => void, reject: (error: Error) => void } | null = null;
+
+  const handleMessage = (event: MessageEvent<AIWorkerResponse>) => {
+    const response = event.data;
+    if (!pending || response.id !== pending.id) return; // Stale answer to a cancelled search
+    const { resolve, reject } = pending;
+    pending = null;
+    if (response.type === 'result') resolve(response);
+    else reject(new Error(response.message));
+  };
+
+  const dispose = () => {
+    pending = null;
+    worker?.terminate();
+    worker = null;
+  };
+
+  const handleFailure = (what: string) => (event: Event) => {
+    event.preventDefault();
+    console.warn(`AI worker ${what}, searching on the main thread from now on:`, event);
+    const failed = pending;
+    workerFailed = true;
+    dispose();
+    failed?.reject(new Error(`AI worker ${what}`));
+  };
+
+  const cancel = () => {
+    if (pending) dispose();
+  };
+
+  const search = (request: AISearchRequest): Promise<AISearchResponse> => {
+    cancel();
+    if (!worker && !workerFailed) {
+      worker = spawnWorker();
+      if (worker) {
+        worker.onmessage = handleMessage;
+        worker.onerror = handleFailure('failed');
+        worker.onmessageerror = handleFailure('sent an unreadable message');
+      }
+    }
+    // Same search on this thread when module workers aren't available.
+    if (!worker) return Promise.resolve(runSearch(request));
+
+    const id = nextId++;
+    const message: AIWorkerRequest = { type: 'search', id, ...request };
+    return new Promise((resolve, reject) => {
+      pending = { id, resolve, reject };
+      worker?.postMessage(message);
+    });
+  };
+
+  return { search, cancel, dispose };
+};
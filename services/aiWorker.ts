@@ -0,0 +1,29 @@
+import { runSearch } from './ai';
+import type { AISearchRequest, AISearchResponse } from './ai';
+
+// Runs the AI search off the main thread.
+//
+// Protocol: the page posts an AIWorkerRequest and gets exactly one AIWorkerResponse with the same
+// `id` back. The search is synchronous, so a request can't be interrupted from inside; to cancel,
+// the page terminates the worker (see aiClient.ts).
+
+export type AIWorkerRequest = { type: 'search'; id: number } & AISearchRequest;
+
+export type AIWorkerResponse =
+  | ({ type: 'result'; id: number } & AISearchResponse)
+  | { type: 'error'; id: number; message: string };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AIWorkerRequest>) => void) | null;
+  postMessage: (message: AIWorkerResponse) => void;
+};
+
+scope.onmessage = event => {
+  const { type, id, ...request } = event.data;
+  if (type !== 'search') return;
+  try {
+    scope.postMessage({ type: 'result', id, ...runSearch(request) });
+  } catch (error) {
+    scope.postMessage({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
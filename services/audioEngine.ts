@@ -0,0 +1,173 @@
+// The mixer and the soundtrack. The soundtrack is a chiptune synthesized on the fly with Web Audio:
+// a triangle bass, a square-wave arpeggio and a noise hi-hat over a four-chord loop. Its intensity
+// follows the hunt for the enemy king, adding layers and tempo as the player nears the summon
+// threshold, and it turns to a minor key with a kick drum once the king is on the board.
+//
+// The move, capture and summon effects come from soundService, which plays at its own level, so
+// the mixer can only let them through or silence them.
+
+export interface AudioLevels {
+  master: number; // 0 to 1
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export interface MusicMood {
+  intensity: number; // 0 to 1: how close the enemy king is to being summoned
+  kingSummoned: boolean;
+}
+
+const STEPS_PER_BAR = 16;
+const LOOKAHEAD_MS = 25;
+const SCHEDULE_AHEAD_S = 0.1;
+const MUSIC_HEADROOM = 0.25; // The music sits under the effects even at full volume
+const ROOT_MIDI = 57; // A3
+
+// Bar roots in semitones from the root and whether each chord is minor: I-vi-IV-V in A major
+// while hunting, i-VI-VII-V in A minor once the king is out.
+const HUNT_CHORDS: { root: number, minor: boolean }[] = [
+  { root: 0, minor: false }, { root: -3, minor: true }, { root: 5, minor: false }, { root: 7, minor: false },
+];
+const KING_CHORDS: { root: number, minor: boolean }[] = [
+  { root: 0, minor: true }, { root: -4, minor: false }, { root: -2, minor: false }, { root: -5, minor: false },
+];
+
+// Which chord tone (0 to 3) the arpeggio plays on each step; null rests.
+const ARPEGGIO: (number | null)[] = [0, 2, 1, 3, 2, 1, 0, 2, 3, 1, 2, 0, 1, 3, 2, 1];
+
+let levels: AudioLevels = { master: 0.8, sfx: 1, music: 0.5, muted: false };
+let mood: MusicMood = { intensity: 0, kingSummoned: false };
+
+let context: AudioContext | null = null;
+let musicGain: GainNode | null = null;
+let noise: AudioBuffer | null = null;
+let timer: ReturnType<typeof setInterval> | undefined;
+let nextStepTime = 0;
+let step = 0;
+
+const toFrequency = (midi: number) => 440 * 2 ** ((midi - 69) / 12);
+
+const getMusicLevel = () => levels.muted ? 0 : levels.master * levels.music * MUSIC_HEADROOM;
+
+const ensureContext = (): AudioContext | null => {
+  if (context) return context;
+  const AudioContextClass = typeof window === 'undefined' ? undefined : window.AudioContext;
+  if (!AudioContextClass) return null;
+  context = new AudioContextClass();
+  musicGain = context.createGain();
+  musicGain.gain.value = getMusicLevel();
+  musicGain.connect(context.destination);
+  noise = context.createBuffer(1, Math.floor(context.sampleRate * 0.05), context.sampleRate);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+  return context;
+};
+
+export const setAudioLevels = (next: AudioLevels) => {
+  levels = next;
+  if (context && musicGain) musicGain.gain.setTargetAtTime(getMusicLevel(), context.currentTime, 0.05);
+};
+
+// Whether soundService's effects should play at all.
+export const areEffectsAudible = () => !levels.muted && levels.master > 0 && levels.sfx > 0;
+
+export const setMusicMood = (next: MusicMood) => {
+  mood = { intensity: Math.min(1, Math.max(0, next.intensity)), kingSummoned: next.kingSummoned };
+};
+
+const getStepSeconds = () => {
+  const bpm = mood.kingSummoned ? 150 : 96 + 40 * mood.intensity;
+  return 60 / bpm / 4;
+};
+
+const playTone = (type: OscillatorType, frequency: number, time: number, duration: number, volume: number) => {
+  if (!context || !musicGain) return;
+  const oscillator = context.createOscillator();
+  const envelope = context.createGain();
+  oscillator.type = type;
+  oscillator.frequency.value = frequency;
+  envelope.gain.setValueAtTime(volume, time);
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + duration);
+  oscillator.connect(envelope).connect(musicGain);
+  oscillator.start(time);
+  oscillator.stop(time + duration);
+};
+
+const playHat = (time: number, volume: number) => {
+  if (!context || !musicGain || !noise) return;
+  const source = context.createBufferSource();
+  const filter = context.createBiquadFilter();
+  const envelope = context.createGain();
+  source.buffer = noise;
+  filter.type = 'highpass';
+  filter.frequency.value = 7000;
+  envelope.gain.setValueAtTime(volume, time);
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + 0.04);
+  source.connect(filter).connect(envelope).connect(musicGain);
+  source.start(time);
+};
+
+const playKick = (time: number) => {
+  if (!context || !musicGain) return;
+  const oscillator = context.createOscillator();
+  const envelope = context.createGain();
+  oscillator.frequency.setValueAtTime(150, time);
+  oscillator.frequency.exponentialRampToValueAtTime(40, time + 0.12);
+  envelope.gain.setValueAtTime(0.9, time);
+  envelope.gain.exponentialRampToValueAtTime(0.001, time + 0.15);
+  oscillator.connect(envelope).connect(musicGain);
+  oscillator.start(time);
+  oscillator.stop(time + 0.15);
+};
+
+// One sixteenth note. Layers come in as intensity rises: bass alone, then the arpeggio on eighths,
+// then the hi-hat, then the arpeggio on every sixteenth.
+const scheduleStep = (time: number) => {
+  const { intensity, kingSummoned } = mood;
+  const bar = Math.floor(step / STEPS_PER_BAR) % 4;
+  const beat = step % STEPS_PER_BAR;
+  const chord = (kingSummoned ? KING_CHORDS : HUNT_CHORDS)[bar];
+  const root = ROOT_MIDI + chord.root;
+  const stepSeconds = getStepSeconds();
+
+  if (beat % 8 === 0 || (intensity >= 0.5 && beat % 4 === 0)) {
+    playTone('triangle', toFrequency(root - 12), time, stepSeconds * 3, 0.5);
+  }
+  const tone = ARPEGGIO[beat];
+  const arpeggioOn = kingSummoned || intensity >= 0.75 || (intensity >= 0.25 && beat % 2 === 0);
+  if (tone !== null && arpeggioOn) {
+    const intervals = [0, chord.minor ? 3 : 4, 7, 12];
+    playTone('square', toFrequency(root + 12 + intervals[tone]), time, stepSeconds * 0.9, 0.12);
+  }
+  if ((intensity >= 0.5 && beat % 4 === 2) || (kingSummoned && beat % 2 === 1)) playHat(time, 0.15);
+  if (kingSummoned && beat % 4 === 0) playKick(time);
+};
+
+const tick = () => {
+  if (!context) return;
+  while (nextStepTime < context.currentTime + SCHEDULE_AHEAD_S) {
+    if (getMusicLevel() > 0) scheduleStep(nextStepTime);
+    nextStepTime += getStepSeconds();
+    step++;
+  }
+};
+
+/**
+ * Starts the soundtrack if it isn't playing. Browsers only allow audio after the player has
+ * interacted with the page, so call this from a click or after one.
+ */
+export const startMusic = () => {
+  if (timer !== undefined) return;
+  const audio = ensureContext();
+  if (!audio) return;
+  if (audio.state === 'suspended') audio.resume().catch(error => console.warn("Couldn't start the soundtrack:", error));
+  step = 0;
+  nextStepTime = audio.currentTime + 0.05;
+  timer = setInterval(tick, LOOKAHEAD_MS);
+};
+
+export const stopMusic = () => {
+  clearInterval(timer);
+  timer = undefined;
+};
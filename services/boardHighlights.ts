@@ -0,0 +1,59 @@
+import type { Board, BoardRules, MoveRecord, PlayerColor, Position } from '../types';
+import { findKing, getThreatenedSquares, isCheck } from './movement';
+import { isPowerTriggerNote } from './matchText';
+import { UNSEEN_SAN } from './vision';
+
+// What the board draws on top of the pieces: the last move, a king in check, the squares the
+// enemy attacks, and the animations for the move that just landed. Runs, versus matches, puzzles
+// and replays all keep a MoveRecord log, so they share this.
+
+export interface BoardHighlights {
+  lastMove: MoveRecord | null;
+  moveNumber: number; // Restarts the move's animations each time a move lands
+  slide: boolean; // Whether the piece on lastMove.to slid there; a blocked attacker stays put
+  capture: boolean;
+  powerPulse: Position | null; // Where a power just fired (a Sturdy block, a Relentless extra move)
+  checkedKing: Position | null;
+  threats: Position[];
+}
+
+export const NO_HIGHLIGHTS: BoardHighlights = {
+  lastMove: null,
+  moveNumber: 0,
+  slide: false,
+  capture: false,
+  powerPulse: null,
+  checkedKing: null,
+  threats: [],
+};
+
+/**
+ * `toMove` is the side whose king is checked for check; `threatsBy` is the side whose attacks are
+ * shown, or null to hide the overlay. A last move made in the fog isn't drawn or animated, since
+ * its squares would give the hidden piece away.
+ */
+export const getBoardHighlights = (
+  board: Board,
+  rules: BoardRules,
+  moveLog: MoveRecord[],
+  toMove: PlayerColor | null,
+  threatsBy: PlayerColor | null,
+): BoardHighlights => {
+  const latest = moveLog.length > 0 ? moveLog[moveLog.length - 1] : null;
+  const lastMove = latest?.san === UNSEEN_SAN ? null : latest;
+  const powerFired = !!lastMove?.notes.some(isPowerTriggerNote);
+  const moved = !!lastMove && board[lastMove.from.row]?.[lastMove.from.col]?.color !== lastMove.color;
+  // The unsummoned king is hidden, so it can't be in check yet.
+  const king = toMove !== null ? findKing(board, toMove) : null;
+  const inCheck = !!king && board[king.row][king.col]?.isVisible !== false && isCheck(board, toMove as PlayerColor, rules);
+  return {
+    lastMove,
+    moveNumber: moveLog.length,
+    slide: moved,
+    // Notation marks every capture with an x, including blocked ones, which only pulse.
+    capture: moved && lastMove!.san.includes('x'),
+    powerPulse: powerFired ? lastMove!.to : null,
+    checkedKing: inCheck ? king : null,
+    threats: threatsBy !== null ? getThreatenedSquares(board, threatsBy, rules) : [],
+  };
+};
@@ -0,0 +1,144 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardDefinition, BoardInfo, BoardRules, Position } from '../types';
+
+const MIN_SIZE = 4;
+const MAX_SIZE = 12;
+
+const PIECE_CHARS: Record<string, PieceType> = {
+  p: PieceType.PAWN,
+  n: PieceType.KNIGHT,
+  b: PieceType.BISHOP,
+  r: PieceType.ROOK,
+  q: PieceType.QUEEN,
+  k: PieceType.KING,
+};
+
+const BOOLEAN_RULES: (keyof BoardRules)[] = ['pawnHasLimitedFirstMove', 'disableCastling', 'disableEnPassant', 'autoPromoteToQueen', 'disableDrawRules', 'fogOfWar'];
+
+export type BoardDefinitionResult =
+  | { ok: true; definition: BoardDefinition }
+  | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks raw JSON against the board definition format and reports every problem found.
+ */
+export const validateBoardDefinition = (raw: unknown): BoardDefinitionResult => {
+  if (!isRecord(raw)) return { ok: false, errors: ['definition must be an object'] };
+  const errors: string[] = [];
+
+  for (const key of ['id', 'name', 'description']) {
+    if (typeof raw[key] !== 'string' || !raw[key]) errors.push(`"${key}" must be a non-empty string`);
+  }
+
+  const layout = raw.layout;
+  if (!Array.isArray(layout) || !layout.every(row => typeof row === 'string')) {
+    errors.push('"layout" must be an array of strings');
+    return { ok: false, errors };
+  }
+  const height = layout.length;
+  const width = layout[0]?.length ?? 0;
+  if (height < MIN_SIZE || height > MAX_SIZE || width < MIN_SIZE || width > MAX_SIZE) {
+    errors.push(`board must be between ${MIN_SIZE}x${MIN_SIZE} and ${MAX_SIZE}x${MAX_SIZE}`);
+  }
+  if (layout.some(row => row.length !== width)) errors.push('every layout row must be the same length');
+
+  const kings = { [PlayerColor.WHITE]: 0, [PlayerColor.BLACK]: 0 };
+  layout.forEach((row: string, r: number) => [...row].forEach((char, c) => {
+    if (char === '.' || char === '#' || char === '~') return;
+    const type = PIECE_CHARS[char.toLowerCase()];
+    if (!type) {
+      errors.push(`unknown layout character "${char}" at row ${r}, column ${c}`);
+      return;
+    }
+    const color = char === char.toUpperCase() ? PlayerColor.WHITE : PlayerColor.BLACK;
+    if (type === PieceType.KING) kings[color]++;
+  }));
+  if (kings[PlayerColor.WHITE] !== 1 || kings[PlayerColor.BLACK] !== 1) errors.push('each side needs exactly one king');
+
+  const promotionRows = raw.promotionRows;
+  if (promotionRows !== undefined) {
+    if (!isRecord(promotionRows)) {
+      errors.push('"promotionRows" must be an object');
+    } else {
+      for (const [color, row] of Object.entries(promotionRows)) {
+        if (color !== PlayerColor.WHITE && color !== PlayerColor.BLACK) errors.push(`unknown promotion color "${color}"`);
+        if (!Number.isInteger(row) || (row as number) < 0 || (row as number) >= height) errors.push(`promotion row for ${color} is off the board`);
+      }
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!isRecord(raw.rules)) {
+      errors.push('"rules" must be an object');
+    } else {
+      for (const [key, value] of Object.entries(raw.rules)) {
+        if (!BOOLEAN_RULES.includes(key as keyof BoardRules)) errors.push(`unknown rule "${key}"`);
+        else if (typeof value !== 'boolean') errors.push(`rule "${key}" must be true or false`);
+      }
+    }
+  }
+
+  if (raw.unlockLevel !== undefined && (!Number.isInteger(raw.unlockLevel) || (raw.unlockLevel as number) < 1)) {
+    errors.push('"unlockLevel" must be a positive whole number');
+  }
+
+  if (raw.enemyBudgetBonus !== undefined && (!Number.isInteger(raw.enemyBudgetBonus) || Math.abs(raw.enemyBudgetBonus as number) > 20)) {
+    errors.push('"enemyBudgetBonus" must be a whole number between -20 and 20');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, definition: raw as unknown as BoardDefinition };
+};
+
+/**
+ * Turns a validated definition into the BoardInfo the game plays on. The enemy king starts hidden.
+ */
+export const buildBoardInfo = (definition: BoardDefinition): BoardInfo => {
+  const walls: Position[] = [];
+  const hazards: Position[] = [];
+  const startingBoard: Board = definition.layout.map((row, r) => [...row].map((char, c) => {
+    if (char === '#') walls.push({ row: r, col: c });
+    if (char === '~') hazards.push({ row: r, col: c });
+    const type = PIECE_CHARS[char.toLowerCase()];
+    if (!type) return null;
+    const color = char === char.toUpperCase() ? PlayerColor.WHITE : PlayerColor.BLACK;
+    return {
+      id: `${color}-${type}-${r}-${c}`,
+      type,
+      color,
+      ...(type === PieceType.KING && color === PlayerColor.BLACK ? { isVisible: false } : {}),
+    };
+  }));
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    rules: {
+      ...definition.rules,
+      ...(walls.length > 0 ? { walls } : {}),
+      ...(hazards.length > 0 ? { hazards } : {}),
+      ...(definition.promotionRows ? { promotionRows: definition.promotionRows } : {}),
+    },
+    startingBoard,
+    isLocked: definition.unlockLevel !== undefined,
+    unlockLevel: definition.unlockLevel,
+    enemyBudgetBonus: definition.enemyBudgetBonus,
+  };
+};
+
+/**
+ * Validates every definition, logging and skipping the ones that fail.
+ */
+export const loadBoards = (definitions: unknown[]): BoardInfo[] =>
+  definitions.flatMap(raw => {
+    const result = validateBoardDefinition(raw);
+    if (result.ok === false) {
+      const id = isRecord(raw) && typeof raw.id === 'string' ? raw.id : 'unknown';
+      console.error(`Skipping invalid board definition "${id}":`, result.errors);
+      return [];
+    }
+    return [buildBoardInfo(result.definition)];
+  });
@@ -0,0 +1,91 @@
+import { PlayerColor } from '../types';
+import type { Board, BoardRules, MoveRecord, PawnPower, Piece, Position } from '../types';
+import { isHazard, isWall } from './movement';
+import { findPower } from './powerEffects';
+import { squareName } from './notation';
+import { UNSEEN_SAN } from './vision';
+import { getKnownPowers, getPlayerView } from './gameEngine';
+import type { GameSession } from './gameEngine';
+import { getVersusPowers } from './versusEngine';
+import type { VersusSession } from './versusEngine';
+
+// Plain-language descriptions of the board for screen readers: square labels for the board grid
+// and the text of the live region that announces each move.
+
+const PIECE_NAMES: Record<string, string> = { K: 'king', Q: 'queen', R: 'rook', B: 'bishop', N: 'knight' };
+
+export const describePiece = (piece: Piece, powers: PawnPower[]): string => {
+  const power = findPower(piece.powerId, powers);
+  return [
+    piece.color,
+    piece.isElite ? 'elite' : '',
+    piece.type,
+    power ? `with ${power.name}` : '',
+  ].filter(Boolean).join(' ');
+};
+
+/**
+ * A square's label, e.g. "e4, white pawn with Relentless Pawn". Hidden pieces read as an empty square.
+ */
+export const describeSquare = (board: Board, pos: Position, rules: BoardRules, powers: PawnPower[], isSeen: boolean = true): string => {
+  const name = squareName(pos, board);
+  if (isWall(rules, pos.row, pos.col)) return `${name}, wall`;
+  if (!isSeen) return `${name}, fog`;
+  const piece = board[pos.row][pos.col];
+  const contents = piece && piece.isVisible !== false ? describePiece(piece, powers) : 'empty';
+  return `${name}, ${contents}${isHazard(rules, pos.row, pos.col) ? ', hazard' : ''}`;
+};
+
+/**
+ * Reads a SAN move out in words: "Nxe5+" becomes "knight takes e5, check".
+ */
+export const speakSan = (san: string): string => {
+  if (san === UNSEEN_SAN) return 'moves in the fog';
+  const check = san.endsWith('#') ? ', checkmate' : san.endsWith('+') ? ', check' : '';
+  const move = san.replace(/[+#]$/, '');
+  if (move.startsWith('O-O-O')) return `castles queenside${check}`;
+  if (move.startsWith('O-O')) return `castles kingside${check}`;
+
+  const match = /^([KQRBN])?([a-z]??\d*?)(x)?([a-z]\d+)(?:=([QRBN]))?$/.exec(move);
+  if (!match) return san;
+  const [, letter, origin, capture, target, promotion] = match;
+  return [
+    letter ? PIECE_NAMES[letter] : `${origin && capture ? `${origin} ` : ''}pawn`,
+    letter && origin ? `from ${origin}` : '',
+    capture ? 'takes' : 'to',
+    target,
+    promotion ? `promotes to ${PIECE_NAMES[promotion]}` : '',
+  ].filter(Boolean).join(' ') + check;
+};
+
+// How moves name their side: a run is played against the enemy, a versus match between colors.
+const RUN_SIDES: Record<PlayerColor, string> = { [PlayerColor.WHITE]: 'You', [PlayerColor.BLACK]: 'Enemy' };
+const VERSUS_SIDES: Record<PlayerColor, string> = { [PlayerColor.WHITE]: 'White', [PlayerColor.BLACK]: 'Black' };
+
+export const describeMove = (record: MoveRecord, sides: Record<PlayerColor, string> = RUN_SIDES): string =>
+  [`${sides[record.color]}: ${speakSan(record.san)}`, ...record.notes].join('. ');
+
+type Announceable = Pick<GameSession, 'selectedPiece' | 'board' | 'moveLog' | 'validMoves' | 'message'>;
+
+const announce = (session: Announceable, powers: PawnPower[], sides: Record<PlayerColor, string>): string => {
+  const { selectedPiece, board, moveLog } = session;
+  if (selectedPiece) {
+    const piece = board[selectedPiece.row][selectedPiece.col];
+    const count = session.validMoves.length;
+    const name = piece ? `${describePiece(piece, powers)} on ${squareName(selectedPiece, board)}` : squareName(selectedPiece, board);
+    return `Selected ${name}, ${count} ${count === 1 ? 'move' : 'moves'}.`;
+  }
+  const last = moveLog[moveLog.length - 1];
+  return [last ? describeMove(last, sides) : '', session.message].filter(Boolean).join('. ');
+};
+
+/**
+ * What the live region should say about the session: the selected piece and how many moves it has,
+ * or else the last move with any power triggers, followed by the game's own message.
+ */
+export const getAnnouncement = (session: GameSession): string => {
+  const { board, moveLog } = getPlayerView(session);
+  return announce({ ...session, board, moveLog }, getKnownPowers(session), RUN_SIDES);
+};
+
+export const getVersusAnnouncement = (session: VersusSession): string => announce(session, getVersusPowers(session), VERSUS_SIDES);
@@ -0,0 +1,103 @@
+import { PlayerColor, PowerEffectKind, PowerRarity, PowerTrigger, PieceType } from '../types';
+import type { Board, BoardRules, BossDefinition, BossModifier, Position } from '../types';
+
+// Each act ends with a boss. A boss is plain data: a list of modifiers layered over the board's
+// rules, and a power that only that boss hands out.
+
+export const BOSS_BOUNTY = 25;
+
+export const BOSSES: BossDefinition[] = [
+  {
+    id: 'restless-king',
+    name: 'The Restless King',
+    description: 'The enemy king slides up to two squares in any direction. Nobody castles on his watch.',
+    modifiers: [{ kind: 'swift-king', range: 2 }],
+    reward: {
+      id: 'boss-courier-pawn',
+      name: 'Royal Courier',
+      description: 'Can leap two squares straight ahead onto an empty square.',
+      cost: 0,
+      rarity: PowerRarity.LEGENDARY,
+      effects: [{ trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: -2, col: 0 }], mode: 'move' } }],
+    },
+  },
+  {
+    id: 'warded-king',
+    name: 'The Warded King',
+    description: 'The enemy king takes the field at once, but no one can capture him until your capture bar is full.',
+    modifiers: [{ kind: 'warded-king' }],
+    reward: {
+      id: 'boss-aegis-pawn',
+      name: 'Aegis Pawn',
+      description: 'Survives the first attack against it, and earns an extra $2 for every capture it makes.',
+      cost: 0,
+      rarity: PowerRarity.LEGENDARY,
+      effects: [
+        { trigger: PowerTrigger.ON_ATTACKED, effect: { kind: PowerEffectKind.SHIELD }, consumesPower: true },
+        { trigger: PowerTrigger.ON_CAPTURE, effect: { kind: PowerEffectKind.GOLD_BONUS, amount: 2 } },
+      ],
+    },
+  },
+  {
+    id: 'collapsing-keep',
+    name: 'The Collapsing Keep',
+    description: 'Every six enemy moves the outermost files cave in, crushing anything but a king standing on them.',
+    modifiers: [{ kind: 'shrinking-board', every: 6, maxRings: 2 }],
+    reward: {
+      id: 'boss-tithe-pawn',
+      name: "Mason's Tithe",
+      description: 'Earns $2 at the start of each of your turns.',
+      cost: 0,
+      rarity: PowerRarity.LEGENDARY,
+      effects: [{ trigger: PowerTrigger.TURN_START, effect: { kind: PowerEffectKind.GOLD_BONUS, amount: 2 } }],
+    },
+  },
+];
+
+export const findBoss = (id: string | undefined): BossDefinition | null =>
+  BOSSES.find(b => b.id === id) ?? null;
+
+export const findModifier = <K extends BossModifier['kind']>(boss: BossDefinition | null, kind: K): Extract<BossModifier, { kind: K }> | null =>
+  (boss?.modifiers.find(m => m.kind === kind) as Extract<BossModifier, { kind: K }> | undefined) ?? null;
+
+export interface BossState {
+  wardUp: boolean; // The capture bar hasn't filled yet
+  collapsed: Position[]; // Squares the board has lost so far
+}
+
+/**
+ * The rules in force during a boss level: the board's own, changed by each of the boss's modifiers.
+ */
+export const applyBossModifiers = (rules: BoardRules, boss: BossDefinition, state: BossState): BoardRules =>
+  boss.modifiers.reduce<BoardRules>((current, modifier) => {
+    switch (modifier.kind) {
+      case 'swift-king':
+        // A two-square king slide would look exactly like castling, so castling is off for both sides.
+        return { ...current, kingRange: { ...current.kingRange, [PlayerColor.BLACK]: modifier.range }, disableCastling: true };
+      case 'warded-king':
+        return state.wardUp ? { ...current, wardedKings: [...(current.wardedKings ?? []), PlayerColor.BLACK] } : current;
+      case 'shrinking-board':
+        return { ...current, walls: [...(current.walls ?? []), ...state.collapsed] };
+    }
+  }, rules);
+
+/**
+ * The squares that should have caved in by black's `enemyMoves`-th move but haven't yet. Ring 0 is
+ * the two edge files, ring 1 the files inside them, and so on. A square holding a king holds out
+ * until the king leaves it.
+ */
+export const getCollapsingSquares = (
+  board: Board,
+  modifier: Extract<BossModifier, { kind: 'shrinking-board' }>,
+  enemyMoves: number,
+  collapsed: Position[],
+): Position[] => {
+  const rings = Math.min(modifier.maxRings, Math.floor(enemyMoves / modifier.every));
+  const squares: Position[] = [];
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    const ring = Math.min(c, row.length - 1 - c);
+    if (ring >= rings || piece?.type === PieceType.KING) return;
+    if (!collapsed.some(sq => sq.row === r && sq.col === c)) squares.push({ row: r, col: c });
+  }));
+  return squares;
+};
@@ -0,0 +1,239 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardRules, ChessState, DrawReason, Piece, Position } from '../types';
+import { getValidMoves, isCheck, isHazard, isSquareAttacked } from './movement';
+
+// Rules that need more than the bare board: castling, en passant, promotion, hazards and draws.
+// Builds on the plain piece movement in movement.ts.
+
+const getHomeRow = (color: PlayerColor, board: Board) => color === PlayerColor.WHITE ? board.length - 1 : 0;
+
+// Castling keeps its classical geometry, so it only exists on 8-file boards.
+const CASTLING_WIDTH = 8;
+const KING_COL = 4;
+const ROOK_COLS = { queenSide: 0, kingSide: 7 };
+
+const samePos = (a: Position | null, b: Position | null) => !!a && !!b && a.row === b.row && a.col === b.col;
+
+const cloneBoard = (board: Board): Board => JSON.parse(JSON.stringify(board));
+
+const isPieceAt = (board: Board, pos: Position, type: PieceType, color: PlayerColor) => {
+  const piece = board[pos.row]?.[pos.col];
+  return !!piece && piece.type === type && piece.color === color;
+};
+
+export const getPromotionRow = (color: PlayerColor, board: Board, rules: BoardRules) =>
+  rules.promotionRows?.[color] ?? (color === PlayerColor.WHITE ? 0 : board.length - 1);
+
+/**
+ * Rights are only granted where the king and rook still stand on their home squares, so this
+ * also gives a safe answer for positions that were saved before rights were tracked.
+ */
+export const createChessState = (board: Board): ChessState => {
+  const rightsFor = (color: PlayerColor) => {
+    const row = getHomeRow(color, board);
+    const kingHome = board[0].length === CASTLING_WIDTH && isPieceAt(board, { row, col: KING_COL }, PieceType.KING, color);
+    return {
+      kingSide: kingHome && isPieceAt(board, { row, col: ROOK_COLS.kingSide }, PieceType.ROOK, color),
+      queenSide: kingHome && isPieceAt(board, { row, col: ROOK_COLS.queenSide }, PieceType.ROOK, color),
+    };
+  };
+  return {
+    castling: { [PlayerColor.WHITE]: rightsFor(PlayerColor.WHITE), [PlayerColor.BLACK]: rightsFor(PlayerColor.BLACK) },
+    enPassantTarget: null,
+    halfmoveClock: 0,
+    positionCounts: {},
+  };
+};
+
+const getCastlingMoves = (board: Board, pos: Position, rules: BoardRules, state: ChessState): Position[] => {
+  const king = board[pos.row][pos.col] as Piece;
+  const row = getHomeRow(king.color, board);
+  if (rules.disableCastling || board[row].length !== CASTLING_WIDTH || pos.row !== row || pos.col !== KING_COL) return [];
+  if (isCheck(board, king.color, rules)) return [];
+
+  const moves: Position[] = [];
+  const rights = state.castling[king.color];
+  const sides: { side: keyof typeof ROOK_COLS, step: number }[] = [
+    { side: 'kingSide', step: 1 },
+    { side: 'queenSide', step: -1 },
+  ];
+
+  for (const { side, step } of sides) {
+    if (!rights[side] || !isPieceAt(board, { row, col: ROOK_COLS[side] }, PieceType.ROOK, king.color)) continue;
+
+    let pathClear = true;
+    for (let col = KING_COL + step; col !== ROOK_COLS[side]; col += step) {
+      if (board[row][col]) pathClear = false;
+    }
+    if (!pathClear) continue;
+
+    // The king may not pass through or land on an attacked square.
+    const crossed = [{ row, col: KING_COL + step }, { row, col: KING_COL + 2 * step }];
+    const enemy = king.color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+    if (crossed.some(square => isSquareAttacked(board, square, enemy, rules))) continue;
+
+    moves.push({ row, col: KING_COL + 2 * step });
+  }
+  return moves;
+};
+
+const getEnPassantMoves = (board: Board, pos: Position, rules: BoardRules, state: ChessState): Position[] => {
+  const target = state.enPassantTarget;
+  if (rules.disableEnPassant || !target) return [];
+
+  const pawn = board[pos.row][pos.col] as Piece;
+  const forward = pawn.color === PlayerColor.WHITE ? -1 : 1;
+  const victim = board[pos.row]?.[target.col];
+  if (target.row !== pos.row + forward || Math.abs(target.col - pos.col) !== 1) return [];
+  if (!victim || victim.type !== PieceType.PAWN || victim.color === pawn.color) return [];
+  return [target];
+};
+
+/**
+ * getValidMoves from movement.ts plus the moves that depend on ChessState.
+ */
+export const getLegalMoves = (board: Board, pos: Position, rules: BoardRules, state: ChessState): Position[] => {
+  const piece = board[pos.row]?.[pos.col];
+  if (!piece) return [];
+
+  const moves = getValidMoves(board, pos, rules);
+  if (piece.type === PieceType.KING) {
+    moves.push(...getCastlingMoves(board, pos, rules, state));
+  } else if (piece.type === PieceType.PAWN) {
+    moves.push(...getEnPassantMoves(board, pos, rules, state));
+  }
+  return moves;
+};
+
+/**
+ * Every legal move for `color`, castling and en passant included.
+ */
+export const getAllLegalMoves = (board: Board, color: PlayerColor, rules: BoardRules, state: ChessState): { from: Position, to: Position }[] => {
+  const moves: { from: Position, to: Position }[] = [];
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece?.color !== color) return;
+    const from = { row: r, col: c };
+    getLegalMoves(board, from, rules, state).forEach(to => moves.push({ from, to }));
+  }));
+  return moves;
+};
+
+export interface MoveDetails {
+  captureAt: Position | null; // Differs from the destination for en passant
+  castleRook: { from: Position; to: Position } | null;
+  promotes: boolean;
+  entersHazard: boolean; // The moving piece is destroyed once the move completes
+}
+
+export const getMoveDetails = (board: Board, from: Position, to: Position, state: ChessState, rules: BoardRules): MoveDetails => {
+  const piece = board[from.row][from.col] as Piece;
+  let captureAt: Position | null = board[to.row][to.col] ? to : null;
+  let castleRook: MoveDetails['castleRook'] = null;
+
+  if (piece.type === PieceType.PAWN && !captureAt && from.col !== to.col && samePos(to, state.enPassantTarget)) {
+    captureAt = { row: from.row, col: to.col };
+  }
+  if (piece.type === PieceType.KING && !rules.disableCastling && Math.abs(to.col - from.col) === 2) {
+    const kingSide = to.col > from.col;
+    castleRook = {
+      from: { row: from.row, col: kingSide ? ROOK_COLS.kingSide : ROOK_COLS.queenSide },
+      to: { row: from.row, col: kingSide ? to.col - 1 : to.col + 1 },
+    };
+  }
+
+  return {
+    captureAt,
+    castleRook,
+    promotes: piece.type === PieceType.PAWN && to.row === getPromotionRow(piece.color, board, rules),
+    entersHazard: isHazard(rules, to.row, to.col),
+  };
+};
+
+/**
+ * Finishes a move whose piece has already been moved to `to`: hops the castling rook, promotes,
+ * and sinks the piece if it stopped on a hazard.
+ */
+export const completeMove = (board: Board, to: Position, details: MoveDetails, promotion: PieceType = PieceType.QUEEN): Board => {
+  const newBoard = cloneBoard(board);
+  if (details.castleRook) {
+    const { from, to: rookTo } = details.castleRook;
+    newBoard[rookTo.row][rookTo.col] = newBoard[from.row][from.col];
+    newBoard[from.row][from.col] = null;
+  }
+  if (details.promotes && newBoard[to.row][to.col]) {
+    (newBoard[to.row][to.col] as Piece).type = promotion;
+  }
+  if (details.entersHazard) {
+    newBoard[to.row][to.col] = null;
+  }
+  return newBoard;
+};
+
+export const getPositionKey = (board: Board, toMove: PlayerColor, state: Pick<ChessState, 'castling' | 'enPassantTarget'>): string => {
+  const squares = board.map(row => row.map(sq => sq ? `${sq.color[0]}${sq.type}${sq.powerId ? `+${sq.powerId}` : ''}${sq.isVisible === false ? '?' : ''}` : '.').join(',')).join('/');
+  const rights = [PlayerColor.WHITE, PlayerColor.BLACK]
+    .map(color => `${state.castling[color].kingSide ? 'K' : '-'}${state.castling[color].queenSide ? 'Q' : '-'}`)
+    .join('');
+  const ep = state.enPassantTarget ? `${state.enPassantTarget.row}${state.enPassantTarget.col}` : '-';
+  return `${squares} ${toMove} ${rights} ${ep}`;
+};
+
+/**
+ * Updates castling rights, the en-passant target, the fifty-move clock and repetition counts after a move.
+ * `movedPiece` is the piece as it stood on `from`; `wasCapture` covers captures negated by powers too.
+ */
+export const advanceChessState = (
+  state: ChessState,
+  boardAfter: Board,
+  movedPiece: Piece,
+  from: Position,
+  to: Position,
+  wasCapture: boolean,
+  nextToMove: PlayerColor,
+): ChessState => {
+  const castling = {
+    [PlayerColor.WHITE]: { ...state.castling[PlayerColor.WHITE] },
+    [PlayerColor.BLACK]: { ...state.castling[PlayerColor.BLACK] },
+  };
+
+  if (movedPiece.type === PieceType.KING) {
+    castling[movedPiece.color] = { kingSide: false, queenSide: false };
+  }
+  // A rook leaving or being captured on its home square ends that side's right.
+  for (const square of [from, to]) {
+    for (const color of [PlayerColor.WHITE, PlayerColor.BLACK]) {
+      if (square.row !== getHomeRow(color, boardAfter)) continue;
+      if (square.col === ROOK_COLS.kingSide) castling[color].kingSide = false;
+      if (square.col === ROOK_COLS.queenSide) castling[color].queenSide = false;
+    }
+  }
+
+  const isDoubleStep = movedPiece.type === PieceType.PAWN && Math.abs(to.row - from.row) === 2;
+  const enPassantTarget = isDoubleStep ? { row: (from.row + to.row) / 2, col: from.col } : null;
+  const halfmoveClock = movedPiece.type === PieceType.PAWN || wasCapture ? 0 : state.halfmoveClock + 1;
+
+  const key = getPositionKey(boardAfter, nextToMove, { castling, enPassantTarget });
+  const positionCounts = { ...state.positionCounts, [key]: (state.positionCounts[key] ?? 0) + 1 };
+
+  return { castling, enPassantTarget, halfmoveClock, positionCounts };
+};
+
+/**
+ * A capture negated by a power: nothing moved, but the attack still resets the fifty-move clock.
+ */
+export const recordBlockedAttack = (state: ChessState, boardAfter: Board, nextToMove: PlayerColor): ChessState => {
+  const key = getPositionKey(boardAfter, nextToMove, { castling: state.castling, enPassantTarget: null });
+  return {
+    ...state,
+    enPassantTarget: null,
+    halfmoveClock: 0,
+    positionCounts: { ...state.positionCounts, [key]: (state.positionCounts[key] ?? 0) + 1 },
+  };
+};
+
+export const getDrawReason = (state: ChessState, rules: BoardRules): DrawReason | null => {
+  if (rules.disableDrawRules) return null;
+  if (state.halfmoveClock >= 100) return 'fifty-move';
+  if (Object.values(state.positionCounts).some(count => count >= 3)) return 'threefold-repetition';
+  return null;
+};
@@ -0,0 +1,100 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, PawnPower, Piece, Position } from '../types';
+
+// Before each level the player decides which pawns carry their owned powers and may rearrange
+// their back-rank pieces. Powers live on the pieces themselves (Piece.powerId), so the board
+// alone records the deployment.
+
+const samePos = (a: Position, b: Position) => a.row === b.row && a.col === b.col;
+
+const clonePieces = (board: Board): Board => board.map(row => row.map(sq => sq ? { ...sq } : null));
+
+const isPlayerPawn = (piece: Piece | null | undefined, color: PlayerColor = PlayerColor.WHITE): piece is Piece =>
+  piece?.type === PieceType.PAWN && piece.color === color;
+
+/**
+ * The pawns of `color` (the player's by default) in auto-placement order: the home pawn line first,
+ * centre files before the wings.
+ */
+export const getDeploySlots = (board: Board, color: PlayerColor = PlayerColor.WHITE): Position[] => {
+  const slots: Position[] = [];
+  board.forEach((row, r) => row.forEach((sq, c) => { if (isPlayerPawn(sq, color)) slots.push({ row: r, col: c }); }));
+  const center = (board[0].length - 1) / 2;
+  const homeward = color === PlayerColor.WHITE ? 1 : -1;
+  return slots.sort((a, b) => homeward * (b.row - a.row) || Math.abs(a.col - center) - Math.abs(b.col - center) || a.col - b.col);
+};
+
+/**
+ * Where each owned power (by index into `ownedPawns`) is deployed, or null if it is benched.
+ * Copies of the same power are interchangeable, so they are matched to pawns in slot order.
+ */
+export const getPlacements = (board: Board, ownedPawns: PawnPower[]): (Position | null)[] => {
+  const slots = getDeploySlots(board);
+  const claimed: Position[] = [];
+  return ownedPawns.map(power => {
+    const slot = slots.find(pos => board[pos.row][pos.col]?.powerId === power.id && !claimed.some(c => samePos(c, pos)));
+    if (!slot) return null;
+    claimed.push(slot);
+    return slot;
+  });
+};
+
+/**
+ * The default deployment: the roster in order over the slots. Powers beyond the last slot are
+ * benched for the level; they stay owned and can be swapped in before the next one.
+ * Versus matches deploy black's roster the same way.
+ */
+export const autoDeploy = (board: Board, ownedPawns: PawnPower[], color: PlayerColor = PlayerColor.WHITE): Board => {
+  const next = clonePieces(board);
+  getDeploySlots(next, color).forEach((pos, i) => {
+    const pawn = next[pos.row][pos.col] as Piece;
+    if (i < ownedPawns.length) pawn.powerId = ownedPawns[i].id;
+    else delete pawn.powerId;
+  });
+  return next;
+};
+
+/**
+ * Puts owned power `index` on the player's pawn at `pos`. The power leaves the pawn it was on,
+ * and any power the target carried takes its place there (or goes to the bench).
+ */
+export const deployPower = (board: Board, ownedPawns: PawnPower[], index: number, pos: Position): Board => {
+  const power = ownedPawns[index];
+  if (!power || !isPlayerPawn(board[pos.row]?.[pos.col])) return board;
+  const from = getPlacements(board, ownedPawns)[index];
+  if (from && samePos(from, pos)) return board;
+
+  const next = clonePieces(board);
+  const target = next[pos.row][pos.col] as Piece;
+  if (from) {
+    const source = next[from.row][from.col] as Piece;
+    if (target.powerId) source.powerId = target.powerId;
+    else delete source.powerId;
+  }
+  target.powerId = power.id;
+  return next;
+};
+
+export const benchPower = (board: Board, pos: Position): Board => {
+  const pawn = board[pos.row]?.[pos.col];
+  if (!isPlayerPawn(pawn) || !pawn.powerId) return board;
+  const next = clonePieces(board);
+  delete (next[pos.row][pos.col] as Piece).powerId;
+  return next;
+};
+
+/**
+ * Whether the player may rearrange the piece at `pos`: pawns and the king stay where the board
+ * put them, everything else can trade places.
+ */
+export const isSwappable = (board: Board, pos: Position): boolean => {
+  const piece = board[pos.row]?.[pos.col];
+  return piece?.color === PlayerColor.WHITE && piece.type !== PieceType.PAWN && piece.type !== PieceType.KING;
+};
+
+export const swapPieces = (board: Board, a: Position, b: Position): Board => {
+  if (samePos(a, b) || !isSwappable(board, a) || !isSwappable(board, b)) return board;
+  const next = clonePieces(board);
+  [next[a.row][a.col], next[b.row][b.col]] = [next[b.row][b.col], next[a.row][a.col]];
+  return next;
+};
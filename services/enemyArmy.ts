@@ -0,0 +1,77 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardInfo, Piece } from '../types';
+import { RELENTLESS_PAWN, STEALTH_PAWN, STURDY_PAWN, VANGUARD_PAWN } from './powerEffects';
+
+// Black's army grows with the level: each level grants a budget that is spent on powers for
+// enemy pawns and on elite upgrades for enemy pieces.
+
+// What each enemy power costs out of the budget, roughly by how much trouble it causes.
+const ENEMY_POWERS = [
+  { power: STURDY_PAWN, cost: 2 },
+  { power: VANGUARD_PAWN, cost: 3 },
+  { power: RELENTLESS_PAWN, cost: 4 },
+];
+
+// Stealth is only for sale on fog-of-war boards, where it does something.
+const FOG_ENEMY_POWERS = [...ENEMY_POWERS, { power: STEALTH_PAWN, cost: 3 }];
+
+// Elite upgrades turn a piece into the next stronger type. Kings and queens never upgrade.
+const ELITE_UPGRADES: Partial<Record<PieceType, { to: PieceType, cost: number }>> = {
+  [PieceType.PAWN]: { to: PieceType.KNIGHT, cost: 4 },
+  [PieceType.KNIGHT]: { to: PieceType.ROOK, cost: 5 },
+  [PieceType.BISHOP]: { to: PieceType.ROOK, cost: 5 },
+  [PieceType.ROOK]: { to: PieceType.QUEEN, cost: 7 },
+};
+
+const BUDGET_PER_LEVEL = 2.5;
+
+/**
+ * Level 1 is the tutorial fight and gets nothing; from there the budget rises steadily,
+ * shifted by the board's `enemyBudgetBonus`.
+ */
+export const getEnemyBudget = (level: number, boardInfo: BoardInfo): number =>
+  level <= 1 ? 0 : Math.max(0, Math.floor((level - 1) * BUDGET_PER_LEVEL) + (boardInfo.enemyBudgetBonus ?? 0));
+
+// One elite for every three levels, so the budget isn't spent turning the whole army into queens.
+const getEliteLimit = (level: number) => Math.floor(level / 3);
+
+interface Purchase {
+  cost: number;
+  apply: () => void;
+}
+
+/**
+ * Spends `budget` on black's pieces in place. Purchases are drawn from `random` until nothing
+ * affordable is left; at most half of the pawns get a power.
+ */
+export const equipEnemyArmy = (board: Board, level: number, budget: number, random: () => number, fogOfWar: boolean = false): void => {
+  const powersForSale = fogOfWar ? FOG_ENEMY_POWERS : ENEMY_POWERS;
+  const pieces = board.flat().filter((sq): sq is Piece => sq?.color === PlayerColor.BLACK);
+  const pawnCount = pieces.filter(p => p.type === PieceType.PAWN).length;
+  const powerLimit = Math.floor(pawnCount / 2);
+  let powers = pieces.filter(p => p.powerId).length;
+  let elites = 0;
+  let remaining = budget;
+
+  while (remaining > 0) {
+    const purchases: Purchase[] = [];
+    for (const piece of pieces) {
+      if (piece.powerId || piece.isElite) continue;
+      if (piece.type === PieceType.PAWN && powers < powerLimit) {
+        for (const { power, cost } of powersForSale) {
+          purchases.push({ cost, apply: () => { piece.powerId = power.id; powers++; } });
+        }
+      }
+      const upgrade = ELITE_UPGRADES[piece.type];
+      if (upgrade && elites < getEliteLimit(level)) {
+        purchases.push({ cost: upgrade.cost, apply: () => { piece.type = upgrade.to; piece.isElite = true; elites++; } });
+      }
+    }
+
+    const affordable = purchases.filter(p => p.cost <= remaining);
+    if (affordable.length === 0) return;
+    const purchase = affordable[Math.floor(random() * affordable.length)];
+    purchase.apply();
+    remaining -= purchase.cost;
+  }
+};
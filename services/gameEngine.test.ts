@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, PieceType, PlayerColor } from '../types';
+import type { BoardInfo, Position } from '../types';
+import { BOARD_DEFINITIONS } from '../boards';
+import { buildBoardInfo, loadBoards } from './boardLoader';
+import { PIECE_VALUES } from './movement';
+import { createChessState } from './chessRules';
+import { RELENTLESS_PAWN } from './powerEffects';
+import { applyAction, chooseAIMove, createSession, getAISearchRequest, getPlayerMoves, getSummonThreshold } from './gameEngine';
+import type { GameAction, GameEvent, GameSession } from './gameEngine';
+import { runSearch } from './ai';
+import { getExtraMoveNote } from './matchText';
+
+const BOARDS = loadBoards(BOARD_DEFINITIONS);
+const CLASSIC = BOARDS.find(b => b.id === 'classic') as BoardInfo;
+
+const LEVEL_ENDS = [GameState.LEVEL_WON, GameState.GAME_OVER, GameState.LEVEL_DRAWN];
+const MAX_PLIES = 400;
+
+// Kings first, then the most valuable capture; quiet moves last.
+const getVictimRank = (session: GameSession, to: Position) => {
+  const victim = session.board[to.row][to.col];
+  if (!victim) return 0;
+  return victim.type === PieceType.KING ? 100 : PIECE_VALUES[victim.type] + 1;
+};
+
+// White's moves in board order, best captures first, so a level plays out the same on every run.
+const getWhiteMoves = (session: GameSession): { from: Position, to: Position }[] => {
+  const moves: { from: Position, to: Position }[] = [];
+  session.board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece?.color !== PlayerColor.WHITE) return;
+    getPlayerMoves(session, { row: r, col: c }).forEach(to => moves.push({ from: { row: r, col: c }, to }));
+  }));
+  return moves.sort((a, b) => getVictimRank(session, b.to) - getVictimRank(session, a.to));
+};
+
+interface PlayedLevel {
+  session: GameSession;
+  events: GameEvent[][]; // One list per ply
+}
+
+// Plays the level from the deployment phase to its end: white with getWhiteMoves, summoning the king
+// as soon as it may, and black with its own search.
+const playLevel = (start: GameSession): PlayedLevel => {
+  let session = applyAction(start, { type: 'start-battle' }).session;
+  const events: GameEvent[][] = [];
+  while (session.gameState === GameState.PLAYING && events.length < MAX_PLIES) {
+    let action: GameAction;
+    if (session.turn === PlayerColor.BLACK) {
+      action = chooseAIMove(session);
+    } else if (!session.isKingSpawned && session.captureValue >= getSummonThreshold(session)) {
+      action = { type: 'summon-king' };
+    } else {
+      const [move] = getWhiteMoves(session);
+      action = { type: 'move', ...move };
+    }
+    const result = applyAction(session, action);
+    events.push(result.events);
+    session = result.session;
+  }
+  return { session, events };
+};
+
+describe('createSession', () => {
+  it('opens level 1 in the deployment phase', () => {
+    const session = createSession(CLASSIC, 'TEST-SEED', 'seeded');
+    expect(session.level).toBe(1);
+    expect(session.gameState).toBe(GameState.DEPLOY);
+    expect(session.turn).toBe(PlayerColor.WHITE);
+    expect(session.moveLog).toEqual([]);
+  });
+
+  it('deals the same level 1 for the same seed', () => {
+    expect(createSession(CLASSIC, 'TEST-SEED', 'seeded').board).toEqual(createSession(CLASSIC, 'TEST-SEED', 'seeded').board);
+  });
+});
+
+describe('applyAction', () => {
+  it('returns the same session and no events for an action that does nothing', () => {
+    const session = createSession(CLASSIC, 'TEST-SEED', 'seeded');
+    const result = applyAction(session, { type: 'move', from: { row: 6, col: 4 }, to: { row: 4, col: 4 } });
+    expect(result.session).toBe(session);
+    expect(result.events).toEqual([]);
+  });
+
+  it('starts the battle with white to move', () => {
+    const { session, events } = applyAction(createSession(CLASSIC, 'TEST-SEED', 'seeded'), { type: 'start-battle' });
+    expect(session.gameState).toBe(GameState.PLAYING);
+    expect(session.turn).toBe(PlayerColor.WHITE);
+    expect(events).toEqual([]);
+  });
+
+  it('plays a move and hands the turn to black', () => {
+    const playing = applyAction(createSession(CLASSIC, 'TEST-SEED', 'seeded'), { type: 'start-battle' }).session;
+    const { session, events } = applyAction(playing, { type: 'move', from: { row: 6, col: 4 }, to: { row: 4, col: 4 } });
+    expect(events).toEqual(['move']);
+    expect(session.turn).toBe(PlayerColor.BLACK);
+    expect(session.moveLog.map(m => m.san)).toEqual(['e4']);
+  });
+
+  it("ignores an enemy move on white's turn", () => {
+    const playing = applyAction(createSession(CLASSIC, 'TEST-SEED', 'seeded'), { type: 'start-battle' }).session;
+    const result = applyAction(playing, { type: 'ai-move', move: { from: { row: 1, col: 4 }, to: { row: 3, col: 4 } }, rngState: 1 });
+    expect(result.session).toBe(playing);
+  });
+
+  it('plays the enemy turn from its search request', () => {
+    const playing = applyAction(createSession(CLASSIC, 'TEST-SEED', 'seeded'), { type: 'start-battle' }).session;
+    const afterWhite = applyAction(playing, { type: 'move', from: { row: 6, col: 4 }, to: { row: 4, col: 4 } }).session;
+    const { move, rngState } = runSearch(getAISearchRequest(afterWhite));
+    expect(move).not.toBeNull();
+    const { session, events } = applyAction(afterWhite, { type: 'ai-move', move, rngState });
+    expect(events).toContain('move');
+    expect(session.turn).toBe(PlayerColor.WHITE);
+    expect(session.aiRngState).toBe(rngState);
+    expect(session.moveLog).toHaveLength(2);
+    expect(session.moveLog[1].color).toBe(PlayerColor.BLACK);
+  });
+
+  it("only summons the king on white's turn", () => {
+    const playing = applyAction(createSession(CLASSIC, 'TEST-SEED', 'seeded'), { type: 'start-battle' }).session;
+    const afterWhite = applyAction(playing, { type: 'move', from: { row: 6, col: 4 }, to: { row: 4, col: 4 } }).session;
+    const ready = { ...afterWhite, captureValue: getSummonThreshold(afterWhite) };
+    expect(applyAction(ready, { type: 'summon-king' }).session).toBe(ready);
+    const { move, rngState } = runSearch(getAISearchRequest(ready));
+    const { session, events } = applyAction(applyAction(ready, { type: 'ai-move', move, rngState }).session, { type: 'summon-king' });
+    expect(events).toEqual(['summon']);
+    expect(session.isKingSpawned).toBe(true);
+  });
+
+  it("runs the Collapsing Keep's cave-in after an enemy extra move and keeps black on move", () => {
+    // Black's Relentless pawn takes on e4 for its sixth move, so the a and h files cave in.
+    const board = buildBoardInfo({ id: 'test', name: 'Test', description: '', layout: [
+      '.......k',
+      '........',
+      '........',
+      '...p....',
+      '....N...',
+      '........',
+      'P.......',
+      '....K...',
+    ] }).startingBoard;
+    board[3][3] = { ...board[3][3]!, powerId: RELENTLESS_PAWN.id };
+    const playing = applyAction(createSession(CLASSIC, 'TEST-SEED', 'seeded'), { type: 'start-battle' }).session;
+    const blackMove = { color: PlayerColor.BLACK, from: { row: 1, col: 7 }, to: { row: 0, col: 7 }, san: 'Kh8', notes: [] };
+    const atKeep: GameSession = {
+      ...playing,
+      board,
+      chessState: createChessState(board),
+      turn: PlayerColor.BLACK,
+      moveLog: Array(5).fill(blackMove),
+      map: { act: 1, nodes: [{ id: 'keep', kind: 'boss', row: 0, col: 0, next: [], bossId: 'collapsing-keep' }], currentNodeId: 'keep', visited: [] },
+    };
+    const { session, events } = applyAction(atKeep, { type: 'ai-move', move: { from: { row: 3, col: 3 }, to: { row: 4, col: 4 } }, rngState: 1 });
+    expect(events).toEqual(['capture']);
+    expect(session.turn).toBe(PlayerColor.BLACK);
+    expect(session.board[6][0]).toBeNull();
+    expect(session.collapsedSquares).toContainEqual({ row: 6, col: 0 });
+    expect(session.moveLog[5].notes).toContain(getExtraMoveNote(RELENTLESS_PAWN));
+  });
+});
+
+describe('a full seeded level', () => {
+  it.each(['TEST-SEED', 'ABCD-1234'])('plays to an end on seed %s', seed => {
+    const { session, events } = playLevel(createSession(CLASSIC, seed, 'seeded'));
+    expect(LEVEL_ENDS).toContain(session.gameState);
+    expect(session.moveLog.length).toBeGreaterThan(0);
+    // Every ply that made it into the log raised at least a move or capture event.
+    const moved = events.filter(e => e.includes('move') || e.includes('capture')).length;
+    expect(moved).toBe(session.moveLog.length);
+    expect(events.flat().filter(e => e === 'summon').length).toBe(session.isKingSpawned ? 1 : 0);
+  });
+
+  it('plays the same way every time', () => {
+    const first = playLevel(createSession(CLASSIC, 'TEST-SEED', 'seeded'));
+    const second = playLevel(createSession(CLASSIC, 'TEST-SEED', 'seeded'));
+    expect(second.session.moveLog).toEqual(first.session.moveLog);
+    expect(second.session.gameState).toBe(first.session.gameState);
+    expect(second.events).toEqual(first.events);
+  });
+
+  it('summons the king, wins and moves on to the map', () => {
+    const won = ['TEST-SEED', 'ABCD-1234', 'WXYZ-9876']
+      .map(seed => playLevel(createSession(CLASSIC, seed, 'seeded')).session)
+      .find(session => session.gameState === GameState.LEVEL_WON);
+    expect(won).toBeDefined();
+    expect(won!.isKingSpawned).toBe(true);
+    const { session } = applyAction(won!, { type: 'open-map' });
+    expect(session.gameState).toBe(GameState.LEVEL_SELECT);
+  });
+});
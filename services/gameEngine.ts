@@ -0,0 +1,872 @@
+import { GameState, PieceType, PlayerColor } from '../types';
+import type { AbilitySource, Board, BoardInfo, BoardRules, BossDefinition, ChessState, DrawReason, MoveRecord, PawnPower, Piece, Position, RunMap, RunMode, RunSnapshot } from '../types';
+import { PIECE_VALUES, findKing, isCheck } from './movement';
+import { getNodeBudget, getSearchDepth, getTimeBudget, runSearch } from './ai';
+import type { AIMove, AISearchRequest } from './ai';
+import { RELENTLESS_PAWN, STURDY_PAWN, SCOUT_PAWN, ALL_SPECIAL_PAWNS, findPower, getPowerMoves, applyPoweredMove, applyTurnStart } from './powerEffects';
+import { createChessState, getLegalMoves, getMoveDetails, completeMove, advanceChessState, recordBlockedAttack, getDrawReason } from './chessRules';
+import { deriveRng } from './random';
+import { equipEnemyArmy, getEnemyBudget } from './enemyArmy';
+import { toSan } from './notation';
+import { ELITE_BOUNTY, generateActMap, getCombatBudgetBonus, getCurrentNode, getReachableNodes, isCombatNode, startAct, visitNode } from './runMap';
+import { findRunEvent } from './runEvents';
+import { autoDeploy, benchPower, deployPower, swapPieces } from './deployment';
+import { getFogView, getVisibleMoveLog, hasFog } from './vision';
+import { BOSS_BOUNTY, applyBossModifiers, findBoss, findModifier, getCollapsingSquares } from './bosses';
+import { getPieceValues, getRelicCaptureGold, getSummonThresholdBonus, findRelic, pickShopRelics } from './relics';
+import { DRAW_MESSAGES, getBlockNote, getExtraMoveNote, getShopPrice } from './matchText';
+
+// The rules of a run with no UI attached. A GameSession is plain data (safe to JSON round-trip),
+// and every change to it goes through applyAction, so a whole run can be replayed from its actions.
+
+export const UNDOS_PER_LEVEL = 1;
+const UNDO_CHARGE_BASE_COST = 5;
+const FORAGE_BASE_GOLD = 5;
+const REROLL_BASE_COST = 2;
+const REROLL_COST_STEP = 2; // Each reroll in the same shop costs this much more than the last
+const SHOP_RELIC_COUNT = 2;
+const MIN_SUMMON_THRESHOLD = 1;
+
+const HAZARD_NOTE = 'Sinks into the hazard';
+const COLLAPSE_NOTE = 'The outer files cave in';
+const WARD_NOTE = "The enemy king's ward shatters";
+const FOG_NOTE = 'Runs into an unseen piece';
+
+// Everything an undo rewinds, captured just before each player move.
+export interface UndoCheckpoint {
+  board: Board;
+  chessState: ChessState;
+  bank: number;
+  captureValue: number;
+  isKingSpawned: boolean;
+  moveCount: number;
+  aiRngState: number;
+  collapsedSquares: Position[];
+}
+
+export interface GameSession {
+  gameState: GameState;
+  boardInfo: BoardInfo;
+  board: Board;
+  chessState: ChessState;
+  turn: PlayerColor;
+  bank: number;
+  level: number;
+  captureValue: number;
+  isKingSpawned: boolean;
+  ownedPawns: PawnPower[];
+  shopPawns: PawnPower[];
+  shopSource: AbilitySource;
+  moveLog: MoveRecord[];
+  undoStack: UndoCheckpoint[]; // Not persisted: a resumed run starts with an empty undo history.
+  undosRemaining: number;
+  extraUndos: number;
+  seed: string;
+  runMode: RunMode;
+  aiRngState: number;
+  map: RunMap;
+  collapsedSquares: Position[]; // Squares a shrinking-board boss has turned into walls this level
+  relics: string[]; // Relic ids, in the order they were bought
+  shopRelics: string[]; // Relic ids on sale in the current shop
+  shopRerolls: number; // Rerolls bought in the current shop
+  selectedPiece: Position | null;
+  inspectedPiece: Position | null; // An enemy piece the player clicked to read about
+  validMoves: Position[];
+  pendingPromotion: { from: Position, to: Position } | null;
+  message: string;
+}
+
+// What a rest node offers: drill for a permanent undo charge, or forage for gold.
+export type RestChoice = 'drill' | 'forage';
+
+export type GameAction =
+  | { type: 'select'; pos: Position }
+  | { type: 'move'; from: Position; to: Position; promotion?: PieceType }
+  | { type: 'cancel-promotion' }
+  | { type: 'ai-move'; move: AIMove | null; rngState: number } // Result of the search for getAISearchRequest
+  | { type: 'summon-king' }
+  | { type: 'undo' }
+  | { type: 'deploy-power'; index: number; pos: Position } // `index` into ownedPawns
+  | { type: 'bench-power'; pos: Position }
+  | { type: 'swap-pieces'; from: Position; to: Position }
+  | { type: 'auto-deploy' }
+  | { type: 'start-battle' }
+  | { type: 'open-map' }
+  | { type: 'choose-node'; nodeId: string }
+  | { type: 'rest'; choice: RestChoice }
+  | { type: 'resolve-event'; choice: number }
+  | { type: 'stock-shop'; pawns: PawnPower[]; source: AbilitySource }
+  | { type: 'buy-pawn'; pawnId: string }
+  | { type: 'buy-undo-charge' }
+  | { type: 'reroll-shop' } // Pays for fresh stock; the caller restocks the powers with 'stock-shop'
+  | { type: 'sell-pawn'; index: number } // `index` into ownedPawns
+  | { type: 'buy-relic'; relicId: string }
+  | { type: 'leave-shop' }
+  | { type: 'refight-level' };
+
+// Things the UI may want to play a sound or animation for.
+export type GameEvent = 'move' | 'capture' | 'summon';
+
+export interface ActionResult {
+  session: GameSession;
+  events: GameEvent[];
+}
+
+const cloneBoard = (board: Board): Board => JSON.parse(JSON.stringify(board));
+
+const samePos = (a: Position, b: Position) => a.row === b.row && a.col === b.col;
+
+export const getKingSpawnThreshold = (level: number) => 5 + level * 5;
+
+/**
+ * The capture value that summons the enemy king this level, after relic bonuses.
+ */
+export const getSummonThreshold = (session: GameSession) =>
+  Math.max(MIN_SUMMON_THRESHOLD, getKingSpawnThreshold(session.level) + getSummonThresholdBonus(session.relics));
+
+// Owned powers sell back for half their current price. Starting and trophy powers cost nothing, so they can't be sold.
+export const getSellValue = (session: GameSession, power: PawnPower) => Math.floor(getShopPrice(power, session.level) / 2);
+
+export const getRerollCost = (session: GameSession) => REROLL_BASE_COST + session.shopRerolls * REROLL_COST_STEP;
+
+export const getUndoChargeCost = (session: GameSession) => UNDO_CHARGE_BASE_COST * (session.extraUndos + 1);
+
+export const getForageGold = (level: number) => FORAGE_BASE_GOLD + level;
+
+export const getKnownPowers = (session: GameSession): PawnPower[] => [...ALL_SPECIAL_PAWNS, ...session.ownedPawns];
+
+/**
+ * The boss of the current level, if it is a boss level.
+ */
+export const getBoss = (session: GameSession): BossDefinition | null => {
+  const node = getCurrentNode(session.map);
+  return node?.kind === 'boss' ? findBoss(node.bossId) : null;
+};
+
+/**
+ * The rules the current level is played by: the board's rules plus any boss modifiers.
+ */
+export const getLevelRules = (session: GameSession): BoardRules => {
+  const boss = getBoss(session);
+  if (!boss) return session.boardInfo.rules;
+  return applyBossModifiers(session.boardInfo.rules, boss, {
+    wardUp: session.captureValue < getSummonThreshold(session),
+    collapsed: session.collapsedSquares,
+  });
+};
+
+/**
+ * The player's selected piece, or the enemy piece being inspected.
+ */
+export const getInspectedPiece = (session: GameSession): Piece | null => {
+  const pos = session.selectedPiece ?? session.inspectedPiece;
+  return pos ? session.board[pos.row][pos.col] : null;
+};
+
+export const getSelectedPower = (session: GameSession): PawnPower | null =>
+  findPower(getInspectedPiece(session)?.powerId, getKnownPowers(session));
+
+export const canUndo = (session: GameSession): boolean =>
+  session.gameState === GameState.PLAYING && session.turn === PlayerColor.WHITE && !session.pendingPromotion
+    && session.undosRemaining > 0 && session.undoStack.length > 0;
+
+const getMovesOn = (session: GameSession, board: Board, pos: Position): Position[] => {
+  const rules = getLevelRules(session);
+  const moves = getLegalMoves(board, pos, rules, session.chessState);
+  const powerMoves = getPowerMoves(board, pos, getKnownPowers(session), rules)
+    .filter(pm => !moves.some(m => samePos(m, pm)));
+  return [...moves, ...powerMoves];
+};
+
+/**
+ * The board as `color` sees it: the real board, or its view through the fog of war.
+ */
+export const getSeenBoard = (session: GameSession, color: PlayerColor): Board => {
+  const rules = getLevelRules(session);
+  return hasFog(rules) ? getFogView(session.board, color, rules, getKnownPowers(session)).board : session.board;
+};
+
+export interface PlayerView {
+  board: Board;
+  moveLog: MoveRecord[];
+  visible: boolean[][] | null; // Null without fog
+}
+
+/**
+ * What the player may know of the level: everything, or in the fog of war the board and move list as white sees them.
+ */
+export const getPlayerView = (session: GameSession): PlayerView => {
+  const rules = getLevelRules(session);
+  if (!hasFog(rules)) return { board: session.board, moveLog: session.moveLog, visible: null };
+  const view = getFogView(session.board, PlayerColor.WHITE, rules, getKnownPowers(session));
+  return { board: view.board, moveLog: getVisibleMoveLog(session.moveLog, PlayerColor.WHITE, view), visible: view.visible };
+};
+
+/**
+ * Legal chess moves for the piece at `pos` plus whatever its power adds. In the fog of war they are
+ * worked out on the board the player can see, so some may run into pieces they can't.
+ */
+export const getPlayerMoves = (session: GameSession, pos: Position): Position[] =>
+  getMovesOn(session, getSeenBoard(session, PlayerColor.WHITE), pos);
+
+// Whether a move chosen in the fog is one the real board doesn't allow.
+const isBlockedByFog = (session: GameSession, from: Position, to: Position): boolean =>
+  hasFog(getLevelRules(session)) && !getMovesOn(session, session.board, from).some(m => samePos(m, to));
+
+// A move that runs into an unseen piece: the mover stays put and the turn passes.
+const stopInFog = (session: GameSession, from: Position, to: Position, color: PlayerColor): GameSession => {
+  const rules = getLevelRules(session);
+  const seen = getSeenBoard(session, color);
+  const details = getMoveDetails(seen, from, to, session.chessState, rules);
+  const next = color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+  return {
+    ...session,
+    chessState: recordBlockedAttack(session.chessState, session.board, next),
+    moveLog: [...session.moveLog, { color, from, to, san: toSan(seen, from, to, details, rules, session.chessState, false), notes: [FOG_NOTE] }],
+    turn: next,
+    message: color === PlayerColor.WHITE ? 'SOMETHING IN THE FOG BLOCKS THE WAY!' : 'THE ENEMY STUMBLES IN THE FOG.',
+  };
+};
+
+/**
+ * Sets up the board for `level` and opens the deployment phase. Level 1 hands the starting power
+ * (and on fog boards the Scout) and the Sturdy Pawn out at random; later levels auto-deploy the
+ * player's owned powers. The enemy is armed for the level, with extra budget at elite and boss nodes.
+ */
+const startLevel = (session: GameSession, level: number): GameSession => {
+  let board = cloneBoard(session.boardInfo.startingBoard);
+  const levelRng = deriveRng(session.seed, 'level', level);
+
+  // Each side's pawns, closest to its own edge first; the order keeps the seeded picks below reproducible.
+  const pawnsOf = (color: PlayerColor): Piece[] => {
+    const rows = [...board];
+    if (color === PlayerColor.WHITE) rows.reverse();
+    return rows.flatMap(row => row.filter((sq): sq is Piece => sq?.type === PieceType.PAWN && sq.color === color));
+  };
+  const playerPawns = pawnsOf(PlayerColor.WHITE);
+  const aiPawns = pawnsOf(PlayerColor.BLACK);
+
+  if (level === 1) {
+    if (playerPawns.length > 0) {
+      playerPawns[Math.floor(levelRng.next() * playerPawns.length)].powerId = session.ownedPawns[0]?.id ?? RELENTLESS_PAWN.id;
+    }
+    const unpowered = playerPawns.filter(p => !p.powerId);
+    if (hasFog(session.boardInfo.rules) && unpowered.length > 0) {
+      unpowered[Math.floor(levelRng.next() * unpowered.length)].powerId = SCOUT_PAWN.id;
+    }
+    if (aiPawns.length > 0) {
+      aiPawns[Math.floor(levelRng.next() * aiPawns.length)].powerId = STURDY_PAWN.id;
+    }
+  } else {
+    board = autoDeploy(board, session.ownedPawns);
+  }
+  const budget = getEnemyBudget(level, session.boardInfo) + getCombatBudgetBonus(getCurrentNode(session.map)?.kind);
+  equipEnemyArmy(board, level, budget, deriveRng(session.seed, 'enemy', level).next, hasFog(session.boardInfo.rules));
+
+  const kingPos = findKing(board, PlayerColor.BLACK);
+  if (kingPos && findModifier(getBoss(session), 'warded-king')) {
+    (board[kingPos.row][kingPos.col] as Piece).isVisible = true;
+  }
+  return {
+    ...session,
+    gameState: GameState.DEPLOY,
+    level,
+    board,
+    chessState: createChessState(board),
+    turn: PlayerColor.WHITE,
+    captureValue: 0,
+    isKingSpawned: kingPos ? board[kingPos.row][kingPos.col]?.isVisible ?? false : false,
+    moveLog: [],
+    undoStack: [],
+    undosRemaining: UNDOS_PER_LEVEL + session.extraUndos,
+    aiRngState: deriveRng(session.seed, 'ai', level).getState(),
+    collapsedSquares: [],
+    selectedPiece: null,
+    inspectedPiece: null,
+    validMoves: [],
+    pendingPromotion: null,
+    message: 'DEPLOY YOUR POWERS',
+  };
+};
+
+/**
+ * A fresh run on `boardInfo`, deploying for level 1 at the start of act 1's map.
+ * The player starts with `startingPawn`, the Relentless Pawn unless the profile has unlocked others.
+ */
+export const createSession = (boardInfo: BoardInfo, seed: string, runMode: RunMode, startingPawn: PawnPower = RELENTLESS_PAWN): GameSession => startLevel({
+  gameState: GameState.PLAYING,
+  boardInfo,
+  board: boardInfo.startingBoard,
+  chessState: createChessState(boardInfo.startingBoard),
+  turn: PlayerColor.WHITE,
+  bank: 0,
+  level: 1,
+  captureValue: 0,
+  isKingSpawned: false,
+  ownedPawns: hasFog(boardInfo.rules) ? [startingPawn, SCOUT_PAWN] : [startingPawn], // Fog boards come with a Scout to see through it
+  shopPawns: [],
+  shopSource: 'local',
+  moveLog: [],
+  undoStack: [],
+  undosRemaining: UNDOS_PER_LEVEL,
+  extraUndos: 0,
+  seed,
+  runMode,
+  aiRngState: 0,
+  map: startAct(seed, 1),
+  collapsedSquares: [],
+  relics: [],
+  shopRelics: [],
+  shopRerolls: 0,
+  selectedPiece: null,
+  inspectedPiece: null,
+  validMoves: [],
+  pendingPromotion: null,
+  message: 'YOUR TURN',
+}, 1);
+
+export const resumeSession = (snapshot: RunSnapshot, boardInfo: BoardInfo): GameSession => ({
+  gameState: snapshot.gameState,
+  boardInfo,
+  board: snapshot.board,
+  chessState: snapshot.chessState,
+  turn: snapshot.turn,
+  bank: snapshot.bank,
+  level: snapshot.level,
+  captureValue: snapshot.captureValue,
+  isKingSpawned: snapshot.isKingSpawned,
+  ownedPawns: snapshot.ownedPawns,
+  shopPawns: snapshot.shopPawns,
+  shopSource: snapshot.shopSource,
+  moveLog: snapshot.moveLog,
+  undoStack: [],
+  undosRemaining: snapshot.undosRemaining,
+  extraUndos: snapshot.extraUndos,
+  seed: snapshot.seed,
+  runMode: snapshot.runMode,
+  aiRngState: snapshot.aiRngState,
+  map: snapshot.map,
+  collapsedSquares: snapshot.collapsedSquares,
+  relics: snapshot.relics,
+  shopRelics: snapshot.shopRelics,
+  shopRerolls: snapshot.shopRerolls,
+  selectedPiece: null,
+  inspectedPiece: null,
+  validMoves: [],
+  pendingPromotion: null,
+  message: 'RUN RESUMED. YOUR TURN',
+});
+
+export const toRunSnapshot = (session: GameSession): Omit<RunSnapshot, 'version' | 'savedAt'> => ({
+  gameState: session.gameState,
+  boardId: session.boardInfo.id,
+  board: session.board,
+  chessState: session.chessState,
+  turn: session.turn,
+  bank: session.bank,
+  level: session.level,
+  captureValue: session.captureValue,
+  isKingSpawned: session.isKingSpawned,
+  ownedPawns: session.ownedPawns,
+  shopPawns: session.shopPawns,
+  shopSource: session.shopSource,
+  moveLog: session.moveLog,
+  undosRemaining: session.undosRemaining,
+  extraUndos: session.extraUndos,
+  seed: session.seed,
+  runMode: session.runMode,
+  aiRngState: session.aiRngState,
+  map: session.map,
+  collapsedSquares: session.collapsedSquares,
+  relics: session.relics,
+  shopRelics: session.shopRelics,
+  shopRerolls: session.shopRerolls,
+});
+
+const endInDraw = (session: GameSession, board: Board, chessState: ChessState, reason: DrawReason): GameSession => ({
+  ...session,
+  board,
+  chessState,
+  gameState: GameState.LEVEL_DRAWN,
+  message: DRAW_MESSAGES[reason],
+});
+
+// Elite fights pay a bounty on top of the captures; bosses pay more and hand over their power.
+const winLevel = (session: GameSession, message: string): GameSession => {
+  const boss = getBoss(session);
+  const bounty = boss ? BOSS_BOUNTY : getCurrentNode(session.map)?.kind === 'elite' ? ELITE_BOUNTY : 0;
+  return {
+    ...session,
+    bank: session.bank + bounty,
+    ownedPawns: boss ? [...session.ownedPawns, boss.reward] : session.ownedPawns,
+    gameState: GameState.LEVEL_WON,
+    message,
+  };
+};
+
+const selectSquare = (session: GameSession, pos: Position): ActionResult => {
+  const { board, selectedPiece } = session;
+  if (session.turn !== PlayerColor.WHITE || session.gameState !== GameState.PLAYING || session.pendingPromotion) {
+    return { session, events: [] };
+  }
+
+  if (selectedPiece && session.validMoves.some(m => samePos(m, pos))) {
+    const rules = getLevelRules(session);
+    const details = getMoveDetails(board, selectedPiece, pos, session.chessState, rules);
+    if (details.promotes && !rules.autoPromoteToQueen) {
+      return { session: { ...session, pendingPromotion: { from: selectedPiece, to: pos } }, events: [] };
+    }
+    return movePlayer(session, selectedPiece, pos, PieceType.QUEEN);
+  }
+
+  const piece = board[pos.row][pos.col];
+  const reselecting = selectedPiece && samePos(selectedPiece, pos);
+  if (piece?.color === PlayerColor.WHITE && !reselecting) {
+    return { session: { ...session, selectedPiece: pos, inspectedPiece: null, validMoves: getPlayerMoves(session, pos) }, events: [] };
+  }
+  const seen = getSeenBoard(session, PlayerColor.WHITE)[pos.row][pos.col];
+  const inspecting = seen?.color === PlayerColor.BLACK && seen.isVisible !== false;
+  return { session: { ...session, selectedPiece: null, inspectedPiece: inspecting ? pos : null, validMoves: [] }, events: [] };
+};
+
+const movePlayer = (session: GameSession, from: Position, to: Position, promotion: PieceType): ActionResult => {
+  const { board, chessState } = session;
+  const rules = getLevelRules(session);
+  const details = getMoveDetails(board, from, to, chessState, rules);
+  const mover = board[from.row][from.col] as Piece;
+  const result = applyPoweredMove(board, from, to, getKnownPowers(session), details.captureAt ?? to);
+  const record = (san: string, notes: string[]): MoveRecord[] =>
+    [...session.moveLog, { color: PlayerColor.WHITE, from, to, san, notes }];
+
+  const base: GameSession = {
+    ...session,
+    undoStack: [...session.undoStack, {
+      board, chessState, bank: session.bank, captureValue: session.captureValue, isKingSpawned: session.isKingSpawned,
+      moveCount: session.moveLog.length, aiRngState: session.aiRngState, collapsedSquares: session.collapsedSquares,
+    }],
+    selectedPiece: null,
+    inspectedPiece: null,
+    validMoves: [],
+    pendingPromotion: null,
+  };
+
+  if (isBlockedByFog(session, from, to)) {
+    return { session: stopInFog(base, from, to, PlayerColor.WHITE), events: ['move'] };
+  }
+
+  if (result.blocked) {
+    return {
+      session: {
+        ...base,
+        board: result.board,
+        chessState: recordBlockedAttack(chessState, result.board, PlayerColor.BLACK),
+        moveLog: record(toSan(board, from, to, details, rules, chessState, false, promotion), [getBlockNote(result.triggered[0])]),
+        turn: PlayerColor.BLACK,
+        message: `ATTACK BLOCKED BY ${result.triggered[0].name.toUpperCase()}!`,
+      },
+      events: ['capture'],
+    };
+  }
+
+  const newBoard = completeMove(result.board, to, details, promotion);
+  const capturedPiece = result.captured;
+  const captureValue = capturedPiece ? getPieceValues(session.relics)[capturedPiece.type] : 0;
+  const relicGold = capturedPiece ? getRelicCaptureGold(session.relics, mover) : 0;
+
+  const givesCheck = session.isKingSpawned && isCheck(newBoard, PlayerColor.BLACK, rules);
+  const notes: string[] = [];
+  if (details.entersHazard) notes.push(HAZARD_NOTE);
+  if (result.gold > 0) notes.push(`${result.triggered.map(p => p.name).join(', ')} pay $${result.gold}`);
+  if (result.extraMove) notes.push(getExtraMoveNote(result.triggered[0]));
+  if (relicGold > 0) notes.push(`Relics pay $${relicGold}`);
+
+  const captured: GameSession = { ...base, captureValue: session.captureValue + captureValue };
+  const wardBroken = !!rules.wardedKings?.length && !getLevelRules(captured).wardedKings?.length;
+  if (wardBroken) notes.push(WARD_NOTE);
+
+  const moved: GameSession = {
+    ...captured,
+    board: newBoard,
+    bank: session.bank + result.gold + captureValue + relicGold,
+    moveLog: record(toSan(board, from, to, details, rules, chessState, givesCheck, promotion), notes),
+  };
+  const events: GameEvent[] = [capturedPiece ? 'capture' : 'move'];
+
+  if (capturedPiece?.type === PieceType.KING) {
+    return { session: winLevel(moved, 'ENEMY KING CAPTURED!'), events };
+  }
+
+  const nextToMove = result.extraMove ? PlayerColor.WHITE : PlayerColor.BLACK;
+  const nextChessState = advanceChessState(chessState, newBoard, mover, from, to, !!capturedPiece, nextToMove);
+  const drawReason = getDrawReason(nextChessState, rules);
+  if (drawReason) {
+    return { session: endInDraw(moved, newBoard, nextChessState, drawReason), events };
+  }
+
+  return {
+    session: {
+      ...moved,
+      chessState: nextChessState,
+      turn: nextToMove,
+      message: result.extraMove ? `${result.triggered[0].name.toUpperCase()}! MOVE AGAIN.` : wardBroken ? "THE KING'S WARD SHATTERS!" : "ENEMY'S TURN...",
+    },
+    events,
+  };
+};
+
+/**
+ * The search black should run now. The UI sends it to the AI worker; headless callers can use chooseAIMove.
+ * Seeded and daily runs count nodes rather than time, so everyone on the same seed meets the same AI.
+ */
+export const getAISearchRequest = (session: GameSession): AISearchRequest => ({
+  board: getSeenBoard(session, PlayerColor.BLACK), // In the fog of war, black only knows what it can see
+  rules: getLevelRules(session),
+  powers: getKnownPowers(session),
+  race: session.isKingSpawned ? null : {
+    progress: session.captureValue,
+    threshold: getSummonThreshold(session),
+    captureValues: getPieceValues(session.relics),
+  },
+  chessState: session.chessState,
+  color: PlayerColor.BLACK,
+  maxDepth: getSearchDepth(session.level),
+  budget: session.runMode === 'standard' ? { timeMs: getTimeBudget(session.level) } : { nodes: getNodeBudget(session.level) },
+  rngState: session.aiRngState,
+});
+
+export const chooseAIMove = (session: GameSession): GameAction => {
+  const { move, rngState } = runSearch(getAISearchRequest(session));
+  return { type: 'ai-move', move, rngState };
+};
+
+// A shrinking-board boss caves in the next files once black has made enough moves.
+const collapseBoard = (session: GameSession, board: Board, enemyMoves: number): { board: Board, collapsed: Position[] } => {
+  const modifier = findModifier(getBoss(session), 'shrinking-board');
+  const collapsed = modifier ? getCollapsingSquares(board, modifier, enemyMoves, session.collapsedSquares) : [];
+  if (collapsed.length === 0) return { board, collapsed };
+  const next = cloneBoard(board);
+  collapsed.forEach(sq => { next[sq.row][sq.col] = null; });
+  return { board: next, collapsed };
+};
+
+const moveAI = (session: GameSession, bestMove: AIMove | null, rngState: number): ActionResult => {
+  const { board, chessState } = session;
+  const rules = getLevelRules(session);
+  const afterSearch: GameSession = { ...session, aiRngState: rngState, inspectedPiece: null };
+
+  if (!bestMove) {
+    if (session.isKingSpawned) {
+      const message = isCheck(board, PlayerColor.BLACK, rules) ? 'CHECKMATE! YOU WIN!' : 'STALEMATE! YOU WIN!';
+      return { session: winLevel(afterSearch, message), events: [] };
+    }
+    return { session: { ...afterSearch, turn: PlayerColor.WHITE, message: 'ENEMY IMMOBILIZED. YOUR MOVE.' }, events: [] };
+  }
+
+  const { from, to } = bestMove;
+  if (isBlockedByFog(session, from, to)) return { session: stopInFog(afterSearch, from, to, PlayerColor.BLACK), events: [] };
+  const details = getMoveDetails(board, from, to, chessState, rules);
+  const mover = board[from.row][from.col] as Piece;
+  const knownPowers = getKnownPowers(session);
+  const result = applyPoweredMove(board, from, to, knownPowers, details.captureAt ?? to);
+  const record = (san: string, notes: string[]): MoveRecord[] =>
+    [...session.moveLog, { color: PlayerColor.BLACK, from, to, san, notes }];
+
+  if (result.blocked) {
+    return {
+      session: {
+        ...afterSearch,
+        board: result.board,
+        chessState: recordBlockedAttack(chessState, result.board, PlayerColor.WHITE),
+        moveLog: record(toSan(board, from, to, details, rules, chessState, false), [getBlockNote(result.triggered[0])]),
+        turn: PlayerColor.WHITE,
+        message: `${result.triggered[0].name.toUpperCase()} BLOCKED AI ATTACK!`,
+      },
+      events: ['capture'],
+    };
+  }
+
+  // AI pawns always promote to a queen.
+  const newBoard = completeMove(result.board, to, details);
+  const capturedPiece = result.captured;
+  const san = toSan(board, from, to, details, rules, chessState, isCheck(newBoard, PlayerColor.WHITE, rules));
+  const hazardNotes = details.entersHazard ? [HAZARD_NOTE] : [];
+  const events: GameEvent[] = [capturedPiece ? 'capture' : 'move'];
+
+  if (capturedPiece?.type === PieceType.KING) {
+    return {
+      session: { ...afterSearch, board: newBoard, moveLog: record(san, hazardNotes), gameState: GameState.GAME_OVER, message: 'YOUR KING WAS CAPTURED!' },
+      events,
+    };
+  }
+
+  // An extra move keeps the turn with black; white's turn-start powers wait until its turn comes.
+  const nextToMove = result.extraMove ? PlayerColor.BLACK : PlayerColor.WHITE;
+  const enemyMoves = session.moveLog.filter(m => m.color === PlayerColor.BLACK).length + 1;
+  const collapse = collapseBoard(session, newBoard, enemyMoves);
+  const turnStart = nextToMove === PlayerColor.WHITE
+    ? applyTurnStart(collapse.board, PlayerColor.WHITE, knownPowers)
+    : { board: collapse.board, gold: 0, triggered: [] };
+  const notes = [...hazardNotes];
+  if (result.extraMove) notes.push(getExtraMoveNote(result.triggered[0]));
+  if (collapse.collapsed.length > 0) notes.push(COLLAPSE_NOTE);
+  if (turnStart.gold > 0) notes.push(`${turnStart.triggered.map(p => p.name).join(', ')} pay $${turnStart.gold}`);
+  const moved: GameSession = {
+    ...afterSearch,
+    bank: session.bank + turnStart.gold,
+    moveLog: record(san, notes),
+    collapsedSquares: [...session.collapsedSquares, ...collapse.collapsed],
+  };
+
+  const nextChessState = advanceChessState(chessState, turnStart.board, mover, from, to, !!capturedPiece, nextToMove);
+  const drawReason = getDrawReason(nextChessState, rules);
+  if (drawReason) {
+    return { session: endInDraw(moved, turnStart.board, nextChessState, drawReason), events };
+  }
+
+  return {
+    session: {
+      ...moved,
+      board: turnStart.board,
+      chessState: nextChessState,
+      turn: nextToMove,
+      message: result.extraMove ? `ENEMY ${result.triggered[0].name.toUpperCase()} MOVES AGAIN...`
+        : session.isKingSpawned && isCheck(turnStart.board, PlayerColor.WHITE, rules) ? 'CHECK! YOUR TURN'
+        : collapse.collapsed.length > 0 ? 'THE WALLS CLOSE IN! YOUR TURN' : 'YOUR TURN',
+    },
+    events,
+  };
+};
+
+const summonKing = (session: GameSession): ActionResult => {
+  if (session.isKingSpawned || session.captureValue < getSummonThreshold(session)) return { session, events: [] };
+
+  const board = cloneBoard(session.board);
+  const kingPos = findKing(board, PlayerColor.BLACK);
+  if (kingPos) {
+    (board[kingPos.row][kingPos.col] as Piece).isVisible = true;
+  }
+  const { moveLog } = session;
+  return {
+    session: {
+      ...session,
+      board,
+      isKingSpawned: true,
+      moveLog: moveLog.length === 0 ? moveLog : [
+        ...moveLog.slice(0, -1),
+        { ...moveLog[moveLog.length - 1], notes: [...moveLog[moveLog.length - 1].notes, 'Enemy king summoned'] },
+      ],
+      message: 'ENEMY KING HAS APPEARED!',
+    },
+    events: ['summon'],
+  };
+};
+
+const undo = (session: GameSession): GameSession => {
+  if (!canUndo(session)) return session;
+  const checkpoint = session.undoStack[session.undoStack.length - 1];
+  return {
+    ...session,
+    undoStack: session.undoStack.slice(0, -1),
+    undosRemaining: session.undosRemaining - 1,
+    board: checkpoint.board,
+    chessState: checkpoint.chessState,
+    bank: checkpoint.bank,
+    captureValue: checkpoint.captureValue,
+    isKingSpawned: checkpoint.isKingSpawned,
+    moveLog: session.moveLog.slice(0, checkpoint.moveCount),
+    aiRngState: checkpoint.aiRngState,
+    collapsedSquares: checkpoint.collapsedSquares,
+    selectedPiece: null,
+    inspectedPiece: null,
+    validMoves: [],
+    message: 'MOVE UNDONE. YOUR TURN',
+  };
+};
+
+const buyPawn = (session: GameSession, pawnId: string): GameSession => {
+  const pawn = session.shopPawns.find(p => p.id === pawnId);
+  if (session.gameState !== GameState.SHOP || !pawn) return session;
+  const price = getShopPrice(pawn, session.level);
+  if (session.bank < price) return session;
+  return {
+    ...session,
+    bank: session.bank - price,
+    ownedPawns: [...session.ownedPawns, pawn],
+    shopPawns: session.shopPawns.filter(p => p.id !== pawn.id),
+  };
+};
+
+const buyUndoCharge = (session: GameSession): GameSession => {
+  const cost = getUndoChargeCost(session);
+  if (session.gameState !== GameState.SHOP || session.bank < cost) return session;
+  return { ...session, bank: session.bank - cost, extraUndos: session.extraUndos + 1 };
+};
+
+const sellPawn = (session: GameSession, index: number): GameSession => {
+  const power = session.ownedPawns[index];
+  if (session.gameState !== GameState.SHOP || !power || getSellValue(session, power) <= 0) return session;
+  return {
+    ...session,
+    bank: session.bank + getSellValue(session, power),
+    ownedPawns: session.ownedPawns.filter((_, i) => i !== index),
+  };
+};
+
+const buyRelic = (session: GameSession, relicId: string): GameSession => {
+  const relic = session.shopRelics.includes(relicId) ? findRelic(relicId) : null;
+  if (session.gameState !== GameState.SHOP || !relic) return session;
+  const price = getShopPrice(relic, session.level);
+  if (session.bank < price) return session;
+  return {
+    ...session,
+    bank: session.bank - price,
+    relics: [...session.relics, relic.id],
+    shopRelics: session.shopRelics.filter(id => id !== relic.id),
+  };
+};
+
+// Relic stock comes from the local catalog, drawn from a stream tied to the shop node and reroll.
+const stockRelics = (session: GameSession): string[] => {
+  const nodeId = getCurrentNode(session.map)?.id ?? '';
+  return pickShopRelics(session.relics, SHOP_RELIC_COUNT, deriveRng(session.seed, 'relics', nodeId, session.shopRerolls).next);
+};
+
+/**
+ * Pays for a reroll and clears the shop. Relics are restocked here; the caller restocks the
+ * powers with 'stock-shop', the same way it does when the shop opens.
+ */
+const rerollShop = (session: GameSession): GameSession => {
+  const cost = getRerollCost(session);
+  if (session.gameState !== GameState.SHOP || session.bank < cost) return session;
+  const rerolled = { ...session, bank: session.bank - cost, shopRerolls: session.shopRerolls + 1, shopPawns: [] };
+  return { ...rerolled, shopRelics: stockRelics(rerolled) };
+};
+
+// Back to the map after a win. Beating the boss moves the run on to the next act.
+const openMap = (session: GameSession): GameSession => {
+  const map = getCurrentNode(session.map)?.kind === 'boss' ? generateActMap(session.seed, session.map.act + 1) : session.map;
+  return { ...session, map, gameState: GameState.LEVEL_SELECT, message: '' };
+};
+
+/**
+ * Moves to a reachable node and enters it: fights start the next level, the rest open their screen.
+ * Shops open with relics on sale but no powers; the caller stocks those with 'stock-shop'.
+ */
+const chooseNode = (session: GameSession, nodeId: string): GameSession => {
+  const node = getReachableNodes(session.map).find(n => n.id === nodeId);
+  if (!node) return session;
+  const moved = { ...session, map: visitNode(session.map, nodeId) };
+  if (isCombatNode(node.kind)) return startLevel(moved, session.level + 1);
+  switch (node.kind) {
+    case 'shop': {
+      const shop = { ...moved, gameState: GameState.SHOP, shopPawns: [], shopRerolls: 0 };
+      return { ...shop, shopRelics: stockRelics(shop) };
+    }
+    case 'rest':
+      return { ...moved, gameState: GameState.REST };
+    default:
+      return { ...moved, gameState: GameState.EVENT };
+  }
+};
+
+const rest = (session: GameSession, choice: RestChoice): GameSession => {
+  const next = choice === 'drill'
+    ? { ...session, extraUndos: session.extraUndos + 1, message: 'YOUR TROOPS DRILL. +1 UNDO EVERY LEVEL.' }
+    : { ...session, bank: session.bank + getForageGold(session.level), message: `YOU FORAGE $${getForageGold(session.level)}.` };
+  return { ...next, gameState: GameState.LEVEL_SELECT };
+};
+
+/**
+ * Makes a choice at the current event node. Which outcome follows is drawn from a stream
+ * tied to the node, so a seeded run always gets the same result for the same choice.
+ */
+const resolveEvent = (session: GameSession, choiceIndex: number): GameSession => {
+  const node = getCurrentNode(session.map);
+  const choice = findRunEvent(node?.eventId)?.choices[choiceIndex];
+  if (!node || !choice || session.bank < (choice.cost ?? 0)) return session;
+  const random = deriveRng(session.seed, 'event', node.id, choiceIndex).next;
+  const outcome = choice.outcomes[Math.floor(random() * choice.outcomes.length)];
+  const power = findPower(outcome.powerId, ALL_SPECIAL_PAWNS);
+  return {
+    ...session,
+    gameState: GameState.LEVEL_SELECT,
+    bank: session.bank - (choice.cost ?? 0) + (outcome.gold ?? 0),
+    extraUndos: session.extraUndos + (outcome.extraUndos ?? 0),
+    ownedPawns: power ? [...session.ownedPawns, power] : session.ownedPawns,
+    message: outcome.text.toUpperCase(),
+  };
+};
+
+/**
+ * The single entry point for changing a session. Actions that don't apply in the current
+ * state return the session unchanged.
+ */
+export const applyAction = (session: GameSession, action: GameAction): ActionResult => {
+  const unchanged = (next: GameSession): ActionResult => ({ session: next, events: [] });
+  const isPlayersTurn = session.gameState === GameState.PLAYING && session.turn === PlayerColor.WHITE;
+
+  switch (action.type) {
+    case 'select':
+      return selectSquare(session, action.pos);
+    case 'move':
+      if (!isPlayersTurn || !getPlayerMoves(session, action.from).some(m => samePos(m, action.to))) return unchanged(session);
+      return movePlayer(session, action.from, action.to, action.promotion ?? PieceType.QUEEN);
+    case 'cancel-promotion':
+      return unchanged({ ...session, pendingPromotion: null });
+    case 'ai-move':
+      if (session.gameState !== GameState.PLAYING || session.turn !== PlayerColor.BLACK) return unchanged(session);
+      return moveAI(session, action.move, action.rngState);
+    case 'summon-king':
+      if (!isPlayersTurn) return unchanged(session);
+      return summonKing(session);
+    case 'undo':
+      return unchanged(undo(session));
+    case 'deploy-power':
+      if (session.gameState !== GameState.DEPLOY) return unchanged(session);
+      return unchanged({ ...session, board: deployPower(session.board, session.ownedPawns, action.index, action.pos) });
+    case 'bench-power':
+      if (session.gameState !== GameState.DEPLOY) return unchanged(session);
+      return unchanged({ ...session, board: benchPower(session.board, action.pos) });
+    case 'swap-pieces':
+      if (session.gameState !== GameState.DEPLOY) return unchanged(session);
+      return unchanged({ ...session, board: swapPieces(session.board, action.from, action.to) });
+    case 'auto-deploy':
+      if (session.gameState !== GameState.DEPLOY) return unchanged(session);
+      return unchanged({ ...session, board: autoDeploy(session.board, session.ownedPawns) });
+    case 'start-battle':
+      if (session.gameState !== GameState.DEPLOY) return unchanged(session);
+      // Castling rights depend on where the rooks ended up.
+      return unchanged({ ...session, gameState: GameState.PLAYING, chessState: createChessState(session.board), message: 'YOUR TURN' });
+    case 'open-map':
+      if (session.gameState !== GameState.LEVEL_WON) return unchanged(session);
+      return unchanged(openMap(session));
+    case 'choose-node':
+      if (session.gameState !== GameState.LEVEL_SELECT) return unchanged(session);
+      return unchanged(chooseNode(session, action.nodeId));
+    case 'rest':
+      if (session.gameState !== GameState.REST) return unchanged(session);
+      return unchanged(rest(session, action.choice));
+    case 'resolve-event':
+      if (session.gameState !== GameState.EVENT) return unchanged(session);
+      return unchanged(resolveEvent(session, action.choice));
+    case 'stock-shop':
+      if (session.gameState !== GameState.SHOP) return unchanged(session);
+      return unchanged({ ...session, shopPawns: action.pawns, shopSource: action.source });
+    case 'buy-pawn':
+      return unchanged(buyPawn(session, action.pawnId));
+    case 'buy-undo-charge':
+      return unchanged(buyUndoCharge(session));
+    case 'reroll-shop':
+      return unchanged(rerollShop(session));
+    case 'sell-pawn':
+      return unchanged(sellPawn(session, action.index));
+    case 'buy-relic':
+      return unchanged(buyRelic(session, action.relicId));
+    case 'leave-shop':
+      if (session.gameState !== GameState.SHOP) return unchanged(session);
+      return unchanged({ ...session, gameState: GameState.LEVEL_SELECT, message: '' });
+    case 'refight-level':
+      if (session.gameState !== GameState.LEVEL_DRAWN) return unchanged(session);
+      return unchanged(startLevel(session, session.level));
+  }
+};
@@ -0,0 +1,181 @@
+import { PowerTrigger, PowerEffectKind, PowerRarity } from '../types';
+import type { PawnPower, PowerEffectDefinition } from '../types';
+
+// --- Curated catalog ---
+
+const CURATED_ABILITIES: PawnPower[] = [
+  {
+    id: 'local-vanguard',
+    name: 'Vanguard',
+    description: 'Can also capture the piece directly in front of it.',
+    cost: 4,
+    rarity: PowerRarity.COMMON,
+    effects: [{ trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: -1, col: 0 }], mode: 'capture' } }],
+  },
+  {
+    id: 'local-tax-collector',
+    name: 'Tax Collector',
+    description: 'Earns $1 at the start of each of your turns.',
+    cost: 5,
+    rarity: PowerRarity.COMMON,
+    effects: [{ trigger: PowerTrigger.TURN_START, effect: { kind: PowerEffectKind.GOLD_BONUS, amount: 1 } }],
+  },
+  {
+    id: 'local-stone-guard',
+    name: 'Stone Guard',
+    description: 'Survives the first attack against it, then crumbles into a plain pawn.',
+    cost: 6,
+    rarity: PowerRarity.RARE,
+    effects: [{ trigger: PowerTrigger.ON_ATTACKED, effect: { kind: PowerEffectKind.SHIELD }, consumesPower: true }],
+  },
+  {
+    id: 'local-bounty-hunter',
+    name: 'Bounty Hunter',
+    description: 'Earns an extra $3 for every capture it makes.',
+    cost: 5,
+    rarity: PowerRarity.RARE,
+    effects: [{ trigger: PowerTrigger.ON_CAPTURE, effect: { kind: PowerEffectKind.GOLD_BONUS, amount: 3 } }],
+  },
+  {
+    id: 'local-berserker',
+    name: 'Berserker',
+    description: 'After capturing, moves again. Can also capture straight ahead.',
+    cost: 12,
+    rarity: PowerRarity.LEGENDARY,
+    effects: [
+      { trigger: PowerTrigger.ON_CAPTURE, effect: { kind: PowerEffectKind.EXTRA_MOVE } },
+      { trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: -1, col: 0 }], mode: 'capture' } },
+    ],
+  },
+  {
+    id: 'local-pegasus',
+    name: 'Pegasus',
+    description: 'Can leap like a knight to the two squares ahead of it.',
+    cost: 11,
+    rarity: PowerRarity.LEGENDARY,
+    effects: [{ trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: -2, col: -1 }, { row: -2, col: 1 }], mode: 'both' } }],
+  },
+];
+
+// --- Combinatorial generation ---
+
+interface AbilityTemplate {
+  id: string;
+  adjective: string;
+  noun: string;
+  description: string;
+  cost: number;
+  rarity: PowerRarity;
+  effect: PowerEffectDefinition;
+}
+
+// Templates in the same slot would overlap, so a generated power takes at most one from each.
+const MOVEMENT_TEMPLATES: AbilityTemplate[] = [
+  {
+    id: 'sidestep', adjective: 'Nimble', noun: 'Dancer', description: 'Can step one square sideways.', cost: 3, rarity: PowerRarity.COMMON,
+    effect: { trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: 0, col: -1 }, { row: 0, col: 1 }], mode: 'move' } },
+  },
+  {
+    id: 'retreat', adjective: 'Cautious', noun: 'Scout', description: 'Can step one square back.', cost: 3, rarity: PowerRarity.COMMON,
+    effect: { trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: 1, col: 0 }], mode: 'move' } },
+  },
+  {
+    id: 'ambush', adjective: 'Cunning', noun: 'Assassin', description: 'Can capture diagonally backwards.', cost: 5, rarity: PowerRarity.RARE,
+    effect: { trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: 1, col: -1 }, { row: 1, col: 1 }], mode: 'capture' } },
+  },
+  {
+    id: 'leap', adjective: 'Soaring', noun: 'Knight', description: 'Can leap like a knight to the two squares ahead.', cost: 8, rarity: PowerRarity.LEGENDARY,
+    effect: { trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: -2, col: -1 }, { row: -2, col: 1 }], mode: 'both' } },
+  },
+];
+
+const TRIGGER_TEMPLATES: AbilityTemplate[] = [
+  {
+    id: 'loot', adjective: 'Greedy', noun: 'Looter', description: 'Earns $2 extra per capture.', cost: 3, rarity: PowerRarity.COMMON,
+    effect: { trigger: PowerTrigger.ON_CAPTURE, effect: { kind: PowerEffectKind.GOLD_BONUS, amount: 2 } },
+  },
+  {
+    id: 'tithe', adjective: 'Pious', noun: 'Tithe-Taker', description: 'Earns $1 at the start of your turn.', cost: 4, rarity: PowerRarity.COMMON,
+    effect: { trigger: PowerTrigger.TURN_START, effect: { kind: PowerEffectKind.GOLD_BONUS, amount: 1 } },
+  },
+  {
+    id: 'shield', adjective: 'Armored', noun: 'Bulwark', description: 'Blocks the first attack against it.', cost: 5, rarity: PowerRarity.RARE,
+    effect: { trigger: PowerTrigger.ON_ATTACKED, effect: { kind: PowerEffectKind.SHIELD }, consumesPower: true },
+  },
+  {
+    id: 'frenzy', adjective: 'Frenzied', noun: 'Berserker', description: 'Moves again after capturing.', cost: 7, rarity: PowerRarity.LEGENDARY,
+    effect: { trigger: PowerTrigger.ON_CAPTURE, effect: { kind: PowerEffectKind.EXTRA_MOVE } },
+  },
+];
+
+const RARITY_ORDER = [PowerRarity.COMMON, PowerRarity.RARE, PowerRarity.LEGENDARY];
+
+const RARITY_WEIGHTS: Record<PowerRarity, number> = {
+  [PowerRarity.COMMON]: 60,
+  [PowerRarity.RARE]: 30,
+  [PowerRarity.LEGENDARY]: 10,
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const rollRarity = (random: () => number): PowerRarity => {
+  const total = RARITY_ORDER.reduce((sum, r) => sum + RARITY_WEIGHTS[r], 0);
+  let roll = random() * total;
+  for (const rarity of RARITY_ORDER) {
+    roll -= RARITY_WEIGHTS[rarity];
+    if (roll < 0) return rarity;
+  }
+  return PowerRarity.COMMON;
+};
+
+const highestRarity = (a: PowerRarity, b: PowerRarity): PowerRarity =>
+  RARITY_ORDER.indexOf(a) >= RARITY_ORDER.indexOf(b) ? a : b;
+
+const combineTemplates = (templates: AbilityTemplate[]): PawnPower => {
+  const [first, second] = templates;
+  return {
+    id: `local-gen-${templates.map(t => t.id).join('-')}`,
+    name: second ? `${first.adjective} ${second.noun}` : `${first.adjective} Pawn`,
+    description: templates.map(t => t.description).join(' '),
+    cost: templates.reduce((sum, t) => sum + t.cost, 0),
+    rarity: templates.reduce((rarity, t) => highestRarity(rarity, t.rarity), PowerRarity.COMMON),
+    effects: templates.map(t => t.effect),
+  };
+};
+
+const generateAbility = (rarity: PowerRarity, random: () => number): PawnPower => {
+  const curated = CURATED_ABILITIES.filter(a => a.rarity === rarity);
+  if (curated.length > 0 && random() < 0.3) {
+    return pick(curated, random);
+  }
+
+  // The rolled rarity sets the rarest template allowed; one of the chosen templates carries it.
+  const atMost = (t: AbilityTemplate) => RARITY_ORDER.indexOf(t.rarity) <= RARITY_ORDER.indexOf(rarity);
+  const movement = pick(MOVEMENT_TEMPLATES.filter(atMost), random);
+  const trigger = pick(TRIGGER_TEMPLATES.filter(atMost), random);
+  const anchor = [movement, trigger].find(t => t.rarity === rarity)
+    ?? pick([...MOVEMENT_TEMPLATES, ...TRIGGER_TEMPLATES].filter(t => t.rarity === rarity), random);
+
+  if (rarity === PowerRarity.COMMON && random() < 0.5) {
+    return combineTemplates([anchor]);
+  }
+  const partner = MOVEMENT_TEMPLATES.includes(anchor) ? trigger : movement;
+  return combineTemplates([partner, anchor]);
+};
+
+/**
+ * Offline stand-in for the Gemini generator: same signature, but draws from a curated
+ * catalog and template combinations, so every result is interpretable by the effect system.
+ */
+export const generateLocalPawnAbilities = async (count: number, random: () => number = Math.random): Promise<PawnPower[]> => {
+  const abilities: PawnPower[] = [];
+  let attempts = 0;
+  while (abilities.length < count && attempts < count * 20) {
+    attempts++;
+    const ability = generateAbility(rollRarity(random), random);
+    if (!abilities.some(a => a.id === ability.id)) {
+      abilities.push(ability);
+    }
+  }
+  return abilities;
+};
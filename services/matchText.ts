@@ -0,0 +1,34 @@
+import { PowerRarity } from '../types';
+import type { DrawReason, PawnPower } from '../types';
+
+// What the run engine and the versus engine share beyond the chess rules: shop prices, which the
+// versus draft spends from, and the messages and move notes both write into a match.
+
+const LEVEL_PRICE_STEP = 0.1; // Shop prices rise 10% per level
+
+const RARITY_PRICE_MULTIPLIERS: Record<PowerRarity, number> = {
+  [PowerRarity.COMMON]: 1,
+  [PowerRarity.RARE]: 1.25,
+  [PowerRarity.LEGENDARY]: 1.5,
+};
+
+export const DRAW_MESSAGES: Record<DrawReason, string> = {
+  'threefold-repetition': 'DRAW BY THREEFOLD REPETITION!',
+  'fifty-move': 'DRAW BY THE FIFTY-MOVE RULE!',
+};
+
+/**
+ * What a power or relic costs in the shop at `level`: its base cost, marked up by rarity and by level.
+ */
+export const getShopPrice = (item: { cost: number; rarity?: PowerRarity }, level: number) =>
+  Math.round(item.cost * RARITY_PRICE_MULTIPLIERS[item.rarity ?? PowerRarity.COMMON] * (1 + (level - 1) * LEVEL_PRICE_STEP));
+
+const BLOCK_NOTE = 'blocks the capture';
+const EXTRA_MOVE_NOTE = 'grants an extra move';
+
+export const getBlockNote = (power: PawnPower) => `${power.name} ${BLOCK_NOTE}`;
+
+export const getExtraMoveNote = (power: PawnPower) => `${power.name} ${EXTRA_MOVE_NOTE}`;
+
+// Whether a move note records a power firing on the destination square: a block or an extra move.
+export const isPowerTriggerNote = (note: string) => note.endsWith(BLOCK_NOTE) || note.endsWith(EXTRA_MOVE_NOTE);
@@ -0,0 +1,84 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Position } from '../types';
+import { getLevelRules, getPlayerMoves, getSeenBoard } from './gameEngine';
+import type { GameSession } from './gameEngine';
+import { getMoveDetails } from './chessRules';
+import { toSan } from './notation';
+
+// Typed moves are matched against the notation of every move the player can make right now, so
+// anything the move log can show, the player can type. Square pairs like "e2e4" work as well.
+// Under fog of war the notation is worked out on the board the player sees, so a typed move
+// can't reveal an unseen piece (as "exe5" matching where "e5" didn't would).
+
+export interface TypedMove {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+}
+
+export type MoveInputResult =
+  | { ok: true; move: TypedMove }
+  | { ok: false; reason: string };
+
+const PROMOTION_LETTERS: Record<string, PieceType> = { Q: PieceType.QUEEN, R: PieceType.ROOK, B: PieceType.BISHOP, N: PieceType.KNIGHT };
+
+// Check marks, annotations and spaces don't change the move; players often type 0-0 for O-O.
+const normalize = (text: string) => text.replace(/[+#!?\s]/g, '').replace(/^0-0(-0)?$/, castle => castle.replace(/0/g, 'O'));
+
+const withoutCapture = (text: string) => text.replace(/x/g, '');
+
+interface Candidate extends TypedMove {
+  san: string;
+}
+
+const getCandidates = (session: GameSession): Candidate[] => {
+  const { chessState } = session;
+  const board = getSeenBoard(session, PlayerColor.WHITE);
+  const rules = getLevelRules(session);
+  const candidates: Candidate[] = [];
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece?.color !== PlayerColor.WHITE) return;
+    const from = { row: r, col: c };
+    getPlayerMoves(session, from).forEach(to => {
+      const details = getMoveDetails(board, from, to, chessState, rules);
+      const promotions = details.promotes ? Object.values(PROMOTION_LETTERS) : [undefined];
+      promotions.forEach(promotion => {
+        candidates.push({ from, to, promotion, san: toSan(board, from, to, details, rules, chessState, false, promotion) });
+      });
+    });
+  }));
+  return candidates;
+};
+
+const parseSquare = (text: string, rows: number): Position | null => {
+  const match = /^([a-z])(\d+)$/.exec(text);
+  return match ? { row: rows - Number(match[2]), col: match[1].charCodeAt(0) - 'a'.charCodeAt(0) } : null;
+};
+
+/**
+ * Finds the player's move for `text`, in algebraic notation ("Nf3", "exd5", "e8=Q", "O-O") or as
+ * two squares ("g1f3", "e7-e8q"). The capture mark is optional.
+ */
+export const parseMoveInput = (session: GameSession, text: string): MoveInputResult => {
+  const typed = normalize(text);
+  if (!typed) return { ok: false, reason: 'Type a move, like e4 or Nf3.' };
+  const candidates = getCandidates(session);
+
+  const coordinates = /^([a-z]\d+)[-x]?([a-z]\d+)=?([qrbnQRBN])?$/.exec(typed);
+  let matches: Candidate[];
+  if (coordinates) {
+    const from = parseSquare(coordinates[1], session.board.length);
+    const to = parseSquare(coordinates[2], session.board.length);
+    const promotion = coordinates[3] ? PROMOTION_LETTERS[coordinates[3].toUpperCase()] : undefined;
+    matches = candidates.filter(m => from && to && m.from.row === from.row && m.from.col === from.col
+      && m.to.row === to.row && m.to.col === to.col && (!m.promotion || m.promotion === (promotion ?? PieceType.QUEEN)));
+  } else {
+    matches = candidates.filter(m => m.san === typed);
+    if (matches.length === 0) matches = candidates.filter(m => withoutCapture(m.san) === withoutCapture(typed));
+  }
+
+  if (matches.length === 0) return { ok: false, reason: `${text.trim()} is not a legal move.` };
+  if (matches.length > 1) return { ok: false, reason: `${text.trim()} could mean more than one move.` };
+  const { from, to, promotion } = matches[0];
+  return { ok: true, move: { from, to, promotion } };
+};
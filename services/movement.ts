@@ -0,0 +1,161 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardRules, Piece, Position } from '../types';
+
+// Piece movement for boards of any size, with impassable and hazard squares from BoardRules.
+// Kings are captured rather than checkmated, so moves are not filtered for self-check.
+
+const KNIGHT_JUMPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_STEPS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const ROOK_DIRECTIONS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP_DIRECTIONS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+// Gold paid for each capture, which also fills the king summon meter. Kings end the level instead.
+export const PIECE_VALUES: Record<PieceType, number> = {
+  [PieceType.PAWN]: 1,
+  [PieceType.KNIGHT]: 3,
+  [PieceType.BISHOP]: 3,
+  [PieceType.ROOK]: 5,
+  [PieceType.QUEEN]: 9,
+  [PieceType.KING]: 0,
+};
+
+const hasSquare = (squares: Position[] | undefined, row: number, col: number) =>
+  !!squares?.some(sq => sq.row === row && sq.col === col);
+
+export const isOnBoard = (board: Board, row: number, col: number) =>
+  row >= 0 && row < board.length && col >= 0 && col < board[row].length;
+
+export const isWall = (rules: BoardRules, row: number, col: number) => hasSquare(rules.walls, row, col);
+
+export const isHazard = (rules: BoardRules, row: number, col: number) => hasSquare(rules.hazards, row, col);
+
+export const getForward = (color: PlayerColor) => color === PlayerColor.WHITE ? -1 : 1;
+
+// Pawns start on the second rank from their own edge, whatever the board size.
+const getPawnStartRow = (color: PlayerColor, board: Board) => color === PlayerColor.WHITE ? board.length - 2 : 1;
+
+// Hidden pieces (the unsummoned king) take up their square but can't be captured or move.
+const isHidden = (piece: Piece | null) => piece?.isVisible === false;
+
+/**
+ * Whether `piece` may be taken: hidden pieces and warded kings can't be.
+ */
+export const isCapturable = (piece: Piece, rules: BoardRules) =>
+  !isHidden(piece) && !(piece.type === PieceType.KING && rules.wardedKings?.includes(piece.color));
+
+const getAttackedSquares = (board: Board, pos: Position, rules: BoardRules): Position[] => {
+  const piece = board[pos.row][pos.col];
+  if (!piece || isHidden(piece)) return [];
+
+  const squares: Position[] = [];
+  const addStep = (dr: number, dc: number) => {
+    const row = pos.row + dr;
+    const col = pos.col + dc;
+    if (isOnBoard(board, row, col) && !isWall(rules, row, col)) squares.push({ row, col });
+  };
+  const addSlides = (directions: number[][], maxSteps = Infinity) => {
+    for (const [dr, dc] of directions) {
+      let row = pos.row + dr;
+      let col = pos.col + dc;
+      for (let step = 0; step < maxSteps && isOnBoard(board, row, col) && !isWall(rules, row, col); step++) {
+        squares.push({ row, col });
+        if (board[row][col]) break;
+        row += dr;
+        col += dc;
+      }
+    }
+  };
+
+  switch (piece.type) {
+    case PieceType.PAWN:
+      addStep(getForward(piece.color), -1);
+      addStep(getForward(piece.color), 1);
+      break;
+    case PieceType.KNIGHT:
+      KNIGHT_JUMPS.forEach(([dr, dc]) => addStep(dr, dc));
+      break;
+    case PieceType.BISHOP:
+      addSlides(BISHOP_DIRECTIONS);
+      break;
+    case PieceType.ROOK:
+      addSlides(ROOK_DIRECTIONS);
+      break;
+    case PieceType.QUEEN:
+      addSlides([...ROOK_DIRECTIONS, ...BISHOP_DIRECTIONS]);
+      break;
+    case PieceType.KING:
+      addSlides(KING_STEPS, rules.kingRange?.[piece.color] ?? 1);
+      break;
+  }
+  return squares;
+};
+
+/**
+ * Destination squares for the piece at `pos`, without castling or en passant (see chessRules).
+ */
+export const getValidMoves = (board: Board, pos: Position, rules: BoardRules): Position[] => {
+  const piece = board[pos.row]?.[pos.col];
+  if (!piece || isHidden(piece)) return [];
+
+  if (piece.type === PieceType.PAWN) {
+    const moves: Position[] = [];
+    const forward = getForward(piece.color);
+    const isFree = (row: number, col: number) => isOnBoard(board, row, col) && !isWall(rules, row, col) && !board[row][col];
+
+    if (isFree(pos.row + forward, pos.col)) {
+      moves.push({ row: pos.row + forward, col: pos.col });
+      const canDoubleStep = !rules.pawnHasLimitedFirstMove && pos.row === getPawnStartRow(piece.color, board);
+      if (canDoubleStep && isFree(pos.row + 2 * forward, pos.col)) {
+        moves.push({ row: pos.row + 2 * forward, col: pos.col });
+      }
+    }
+    for (const target of getAttackedSquares(board, pos, rules)) {
+      const occupant = board[target.row][target.col];
+      if (occupant && occupant.color !== piece.color && isCapturable(occupant, rules)) moves.push(target);
+    }
+    return moves;
+  }
+
+  return getAttackedSquares(board, pos, rules).filter(target => {
+    const occupant = board[target.row][target.col];
+    if (occupant && (occupant.color === piece.color || !isCapturable(occupant, rules))) return false;
+    // Kings never step onto hazards.
+    return !(piece.type === PieceType.KING && isHazard(rules, target.row, target.col));
+  });
+};
+
+export const isSquareAttacked = (board: Board, square: Position, byColor: PlayerColor, rules: BoardRules): boolean =>
+  board.some((row, r) => row.some((piece, c) =>
+    piece?.color === byColor
+    && getAttackedSquares(board, { row: r, col: c }, rules).some(t => t.row === square.row && t.col === square.col)));
+
+/**
+ * Every square `byColor` attacks, each listed once.
+ */
+export const getThreatenedSquares = (board: Board, byColor: PlayerColor, rules: BoardRules): Position[] => {
+  const squares: Position[] = [];
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece?.color !== byColor) return;
+    for (const target of getAttackedSquares(board, { row: r, col: c }, rules)) {
+      if (!hasSquare(squares, target.row, target.col)) squares.push(target);
+    }
+  }));
+  return squares;
+};
+
+export const findKing = (board: Board, color: PlayerColor): Position | null => {
+  for (let row = 0; row < board.length; row++) {
+    for (let col = 0; col < board[row].length; col++) {
+      const piece = board[row][col];
+      if (piece?.type === PieceType.KING && piece.color === color) return { row, col };
+    }
+  }
+  return null;
+};
+
+export const isCheck = (board: Board, color: PlayerColor, rules: BoardRules): boolean => {
+  const king = findKing(board, color);
+  if (!king) return false;
+  const enemy = color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+  return isSquareAttacked(board, king, enemy, rules);
+};
@@ -0,0 +1,129 @@
+import { PlayerColor } from '../types';
+import type { PawnPower } from '../types';
+import { PROTOCOL_VERSION, parseServerMessage } from './netProtocol';
+import type { ClientMessage, ServerMessage } from './netProtocol';
+import { applyVersusAction } from './versusEngine';
+import type { VersusAction, VersusSession } from './versusEngine';
+import type { GameEvent } from './gameEngine';
+
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 1000; // Doubles after each failed attempt
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface NetClient {
+  send: (message: ClientMessage) => void; // Queued until the connection is open
+  close: () => void;
+}
+
+export interface NetClientHandlers {
+  onMessage: (message: ServerMessage) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+/**
+ * A connection to the relay that reconnects by itself. After a drop it reclaims the seat named by
+ * the last 'lobby' message, and the relay answers the 'rejoin' with the full match state.
+ */
+export const createNetClient = (url: string, handlers: NetClientHandlers): NetClient => {
+  let socket: WebSocket | null = null;
+  let seat: { code: string, token: string } | null = null;
+  let attempts = 0;
+  let closed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  const queue: ClientMessage[] = [];
+
+  const connect = () => {
+    const current = new WebSocket(url);
+    socket = current;
+    current.onopen = () => {
+      attempts = 0;
+      handlers.onStatus('open');
+      if (seat) current.send(JSON.stringify({ type: 'rejoin', version: PROTOCOL_VERSION, ...seat }));
+      queue.splice(0).forEach(message => current.send(JSON.stringify(message)));
+    };
+    current.onmessage = event => {
+      const message = parseServerMessage(String(event.data));
+      if (!message) {
+        console.warn("Ignoring unreadable relay message:", event.data);
+        return;
+      }
+      if (message.type === 'lobby') seat = { code: message.code, token: message.token };
+      handlers.onMessage(message);
+    };
+    current.onclose = () => {
+      socket = null;
+      if (closed) return;
+      if (attempts >= RECONNECT_ATTEMPTS) {
+        closed = true;
+        handlers.onStatus('closed');
+        return;
+      }
+      handlers.onStatus('reconnecting');
+      retryTimer = setTimeout(connect, RECONNECT_DELAY_MS * 2 ** attempts++);
+    };
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else queue.push(message);
+  };
+
+  const close = () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    socket?.close();
+    handlers.onStatus('closed');
+  };
+
+  handlers.onStatus('connecting');
+  connect();
+  return { send, close };
+};
+
+export interface FollowResult {
+  session: VersusSession | null;
+  events: GameEvent[];
+  outOfSync: boolean; // The local copy can't follow; ask the relay for 'state'
+}
+
+/**
+ * Applies a relay message to the client's copy of the match. Drafts, moves and resignations are
+ * run through the same engine the relay uses, so both copies agree; a missed message shows up as
+ * an action the copy can't take, or a move whose notation differs from the relay's.
+ */
+export const followServerMessage = (session: VersusSession | null, message: ServerMessage): FollowResult => {
+  if (message.type === 'state') return { session: message.session, events: [], outOfSync: false };
+  if (message.type === 'lobby' || message.type === 'error') return { session, events: [], outOfSync: false };
+  if (!session) return { session, events: [], outOfSync: true };
+
+  const follow = (action: VersusAction, agrees: (next: VersusSession) => boolean = () => true): FollowResult => {
+    const { session: next, events } = applyVersusAction(session, action);
+    return next === session || !agrees(next) ? { session, events: [], outOfSync: true } : { session: next, events, outOfSync: false };
+  };
+
+  switch (message.type) {
+    case 'drafted':
+      if (session.turn !== message.color) return { session, events: [], outOfSync: true };
+      return follow({ type: 'draft-power', pawnId: message.pawnId });
+    case 'draft-ended':
+      if (session.turn !== message.color) return { session, events: [], outOfSync: true };
+      return follow({ type: 'end-draft' });
+    case 'moved':
+      if (session.turn !== message.color) return { session, events: [], outOfSync: true };
+      return follow(
+        { type: 'move', from: message.from, to: message.to, promotion: message.promotion },
+        next => next.moveLog[next.moveLog.length - 1]?.san === message.san,
+      );
+    case 'resigned':
+      return follow({ type: 'resign', color: message.color });
+    case 'match-start': {
+      const ids = (powers: PawnPower[] | undefined) => (powers ?? []).map(p => p.id).join();
+      const agrees = session.phase !== 'draft'
+        && [PlayerColor.WHITE, PlayerColor.BLACK].every(color => ids(message.powers[color]) === ids(session.drafts[color].powers));
+      return { session, events: [], outOfSync: !agrees };
+    }
+    case 'game-over':
+      return { session, events: [], outOfSync: session.phase !== 'over' || session.winner !== message.winner };
+  }
+};
@@ -0,0 +1,115 @@
+import { PieceType, PlayerColor } from '../types';
+import type { PawnPower, Position } from '../types';
+import type { VersusSession } from './versusEngine';
+
+// The messages an online versus client and the relay server (scripts/relayServer.mjs) exchange
+// over a WebSocket, one JSON object per frame. README.md walks through a match. The relay owns
+// the match: clients send what they want to do, and only the relay's answers change the board.
+
+export const PROTOCOL_VERSION = 1;
+
+// --- Client to relay ---
+
+export type ClientMessage =
+  | { type: 'create'; version: number; boardId: string } // Opens a room and takes white
+  | { type: 'join'; version: number; code: string } // Takes black in an open room; the draft starts
+  | { type: 'rejoin'; version: number; code: string; token: string } // Reclaims a seat after a dropped connection
+  | { type: 'draft-power'; pawnId: string }
+  | { type: 'end-draft' }
+  | { type: 'move'; from: Position; to: Position; promotion?: PieceType }
+  | { type: 'resign' } // Allowed on either player's turn
+  | { type: 'sync' }; // Asks for a 'state' message
+
+// --- Relay to client ---
+
+export type OpponentStatus = 'waiting' | 'connected' | 'disconnected';
+
+export type ErrorCode =
+  | 'bad-message' // Not JSON, or not a message this version knows
+  | 'version' // The client speaks another protocol version
+  | 'unknown-board'
+  | 'no-room' // No room with that code, or the token doesn't match
+  | 'room-full'
+  | 'not-seated' // Game messages before create, join or rejoin
+  | 'not-your-turn'
+  | 'rejected'; // The rules don't allow it: an illegal move, an unaffordable pick, a finished match
+
+export type ServerMessage =
+  // Your seat. `token` reclaims it with 'rejoin'; sent again whenever the opponent comes or goes.
+  | { type: 'lobby'; code: string; color: PlayerColor; token: string; opponent: OpponentStatus }
+  // The whole match, when the draft starts, after a rejoin and in answer to 'sync'.
+  | { type: 'state'; session: VersusSession }
+  | { type: 'drafted'; color: PlayerColor; pawnId: string }
+  | { type: 'draft-ended'; color: PlayerColor }
+  | { type: 'match-start'; boardId: string; powers: Record<PlayerColor, PawnPower[]> }
+  // `notes` lists the power triggers and hazards the move set off, as in the move log.
+  | { type: 'moved'; color: PlayerColor; from: Position; to: Position; promotion?: PieceType; san: string; notes: string[] }
+  | { type: 'resigned'; color: PlayerColor }
+  | { type: 'game-over'; winner: PlayerColor | null; message: string }
+  | { type: 'error'; code: ErrorCode; message: string };
+
+// --- Parsing ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPosition = (value: unknown): value is Position =>
+  isRecord(value) && Number.isInteger(value.row) && Number.isInteger(value.col);
+
+const isColor = (value: unknown): value is PlayerColor =>
+  value === PlayerColor.WHITE || value === PlayerColor.BLACK;
+
+const isPromotion = (value: unknown) =>
+  value === undefined || [PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT].includes(value as PieceType);
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.length > 0 && value.length <= 64;
+
+const parseJson = (text: string): Record<string, unknown> | null => {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isRecord(data) ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * A client message, rebuilt field by field so nothing unexpected reaches the relay's engine,
+ * or null if `text` isn't one.
+ */
+export const parseClientMessage = (text: string): ClientMessage | null => {
+  const data = parseJson(text);
+  if (!data) return null;
+  const version = typeof data.version === 'number' ? data.version : NaN;
+  switch (data.type) {
+    case 'create':
+      return isText(data.boardId) ? { type: 'create', version, boardId: data.boardId } : null;
+    case 'join':
+      return isText(data.code) ? { type: 'join', version, code: data.code.toUpperCase() } : null;
+    case 'rejoin':
+      return isText(data.code) && isText(data.token) ? { type: 'rejoin', version, code: data.code.toUpperCase(), token: data.token } : null;
+    case 'draft-power':
+      return isText(data.pawnId) ? { type: 'draft-power', pawnId: data.pawnId } : null;
+    case 'move':
+      if (!isPosition(data.from) || !isPosition(data.to) || !isPromotion(data.promotion)) return null;
+      return { type: 'move', from: { row: data.from.row, col: data.from.col }, to: { row: data.to.row, col: data.to.col }, promotion: data.promotion as PieceType | undefined };
+    case 'end-draft':
+    case 'resign':
+    case 'sync':
+      return { type: data.type };
+    default:
+      return null;
+  }
+};
+
+const SERVER_MESSAGE_TYPES: ServerMessage['type'][] = ['lobby', 'state', 'drafted', 'draft-ended', 'match-start', 'moved', 'resigned', 'game-over', 'error'];
+const PLAYER_MESSAGE_TYPES: ServerMessage['type'][] = ['lobby', 'drafted', 'draft-ended', 'moved', 'resigned'];
+
+// The relay is trusted, so its messages are only checked for a known type and a valid color.
+export const parseServerMessage = (text: string): ServerMessage | null => {
+  const data = parseJson(text);
+  const type = data?.type as ServerMessage['type'];
+  if (!data || !SERVER_MESSAGE_TYPES.includes(type)) return null;
+  if (PLAYER_MESSAGE_TYPES.includes(type) && !isColor(data.color)) return null;
+  return data as unknown as ServerMessage;
+};
@@ -0,0 +1,135 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Board, BoardRules, ChessState, MoveRecord, Position } from '../types';
+import { getLegalMoves } from './chessRules';
+import type { MoveDetails } from './chessRules';
+
+const FILES = 'abcdefghijklmnopqrstuvwxyz';
+
+const PIECE_LETTERS: Record<PieceType, string> = {
+  [PieceType.PAWN]: '',
+  [PieceType.KNIGHT]: 'N',
+  [PieceType.BISHOP]: 'B',
+  [PieceType.ROOK]: 'R',
+  [PieceType.QUEEN]: 'Q',
+  [PieceType.KING]: 'K',
+};
+
+export const squareName = (pos: Position, board: Board): string => `${FILES[pos.col]}${board.length - pos.row}`;
+
+// Other pieces of the same kind that could also reach the destination decide how much of the origin to spell out.
+const getDisambiguation = (board: Board, from: Position, to: Position, rules: BoardRules, chessState: ChessState): string => {
+  const piece = board[from.row][from.col]!;
+  const rivals: Position[] = [];
+  board.forEach((row, r) => row.forEach((sq, c) => {
+    if (!sq || (r === from.row && c === from.col) || sq.type !== piece.type || sq.color !== piece.color) return;
+    if (getLegalMoves(board, { row: r, col: c }, rules, chessState).some(m => m.row === to.row && m.col === to.col)) {
+      rivals.push({ row: r, col: c });
+    }
+  }));
+
+  if (rivals.length === 0) return '';
+  if (!rivals.some(p => p.col === from.col)) return FILES[from.col];
+  if (!rivals.some(p => p.row === from.row)) return String(board.length - from.row);
+  return squareName(from, board);
+};
+
+/**
+ * Standard algebraic notation for a move, computed on the board as it was before the move.
+ */
+export const toSan = (
+  board: Board,
+  from: Position,
+  to: Position,
+  details: MoveDetails,
+  rules: BoardRules,
+  chessState: ChessState,
+  givesCheck: boolean,
+  promotion: PieceType = PieceType.QUEEN,
+): string => {
+  const piece = board[from.row][from.col]!;
+  const suffix = givesCheck ? '+' : '';
+
+  if (details.castleRook) {
+    return `${to.col > from.col ? 'O-O' : 'O-O-O'}${suffix}`;
+  }
+
+  const isCapture = !!details.captureAt;
+  let san: string;
+  if (piece.type === PieceType.PAWN) {
+    san = `${isCapture ? `${FILES[from.col]}x` : ''}${squareName(to, board)}`;
+    if (details.promotes) san += `=${PIECE_LETTERS[promotion]}`;
+  } else {
+    san = `${PIECE_LETTERS[piece.type]}${getDisambiguation(board, from, to, rules, chessState)}${isCapture ? 'x' : ''}${squareName(to, board)}`;
+  }
+  return san + suffix;
+};
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+// The Seven Tag Roster, in the order PGN requires it.
+const SEVEN_TAG_ROSTER: Record<string, string> = {
+  Event: '?',
+  Site: '?',
+  Date: '????.??.??',
+  Round: '?',
+  White: '?',
+  Black: '?',
+  Result: '*',
+};
+
+const escapeTag = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+const escapeComment = (value: string) => value.replace(/[{}]/g, '');
+
+/**
+ * A PGN game with the roster tags followed by any custom tags. When a power lets one side move twice in a row, the
+ * other side's skipped turn is written as the null move "--".
+ */
+export const buildPgn = (moves: MoveRecord[], tags: Record<string, string>, result: PgnResult): string => {
+  const tokens: string[] = [];
+  let moveNumber = 1;
+  let toMove = PlayerColor.WHITE;
+  let needsNumber = true;
+
+  const push = (color: PlayerColor, san: string, notes: string[]) => {
+    if (color === PlayerColor.WHITE) {
+      tokens.push(`${moveNumber}.`);
+    } else if (needsNumber) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(san);
+    notes.forEach(note => tokens.push(`{${escapeComment(note)}}`));
+
+    if (color === PlayerColor.BLACK) {
+      moveNumber++;
+      needsNumber = true;
+    } else {
+      needsNumber = notes.length > 0;
+    }
+    toMove = color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+  };
+
+  for (const move of moves) {
+    if (move.color !== toMove) push(toMove, '--', []);
+    push(move.color, move.san, move.notes);
+  }
+  tokens.push(result);
+
+  const header = Object.entries({ ...SEVEN_TAG_ROSTER, ...tags, Result: result })
+    .map(([name, value]) => `[${name} "${escapeTag(value)}"]`)
+    .join('\n');
+
+  // PGN readers expect movetext lines under 80 characters.
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + token.length + 1 > 79) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+
+  return `${header}\n\n${lines.join('\n')}\n`;
+};
@@ -0,0 +1,253 @@
+import { PowerTrigger, PowerEffectKind, PlayerColor } from '../types';
+import type { Board, BoardRules, Position, Piece, PawnPower, PowerEffectDefinition } from '../types';
+import { isCapturable, isOnBoard, isWall } from './movement';
+
+// --- Built-in special pawns ---
+
+export const RELENTLESS_PAWN: PawnPower = {
+  id: 'relentless-pawn',
+  name: 'Relentless Pawn',
+  description: 'After capturing a piece, this pawn can move again immediately.',
+  cost: 0,
+  effects: [{ trigger: PowerTrigger.ON_CAPTURE, effect: { kind: PowerEffectKind.EXTRA_MOVE } }],
+};
+
+export const STURDY_PAWN: PawnPower = {
+  id: 'sturdy-pawn',
+  name: 'Sturdy Pawn',
+  description: 'Survives the first attack against it, negating the capture and losing this ability.',
+  cost: 0,
+  effects: [{ trigger: PowerTrigger.ON_ATTACKED, effect: { kind: PowerEffectKind.SHIELD }, consumesPower: true }],
+};
+
+// Only handed out to the enemy army (see enemyArmy.ts).
+export const VANGUARD_PAWN: PawnPower = {
+  id: 'vanguard-pawn',
+  name: 'Vanguard Pawn',
+  description: 'Can also capture the piece directly in front of it.',
+  cost: 0,
+  effects: [{ trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.EXTRA_MOVEMENT, offsets: [{ row: -1, col: 0 }], mode: 'capture' } }],
+};
+
+// Vision powers only matter on fog-of-war boards.
+export const SCOUT_PAWN: PawnPower = {
+  id: 'scout-pawn',
+  name: 'Scout Pawn',
+  description: 'In the fog of war, sees every square within two squares of it.',
+  cost: 0,
+  effects: [{ trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.VISION, range: 2 } }],
+};
+
+export const STEALTH_PAWN: PawnPower = {
+  id: 'stealth-pawn',
+  name: 'Stealth Pawn',
+  description: 'In the fog of war, stays hidden from the enemy unless one of its pieces is next to it.',
+  cost: 0,
+  effects: [{ trigger: PowerTrigger.PASSIVE, effect: { kind: PowerEffectKind.STEALTH } }],
+};
+
+export const ALL_SPECIAL_PAWNS: PawnPower[] = [RELENTLESS_PAWN, STURDY_PAWN, VANGUARD_PAWN, SCOUT_PAWN, STEALTH_PAWN];
+
+export const MAX_VISION_RANGE = 3;
+
+// Which effects each trigger knows how to run. Anything outside this table is ignored by the interpreter.
+const SUPPORTED_EFFECTS: Record<PowerTrigger, PowerEffectKind[]> = {
+  [PowerTrigger.ON_CAPTURE]: [PowerEffectKind.EXTRA_MOVE, PowerEffectKind.GOLD_BONUS],
+  [PowerTrigger.ON_ATTACKED]: [PowerEffectKind.SHIELD],
+  [PowerTrigger.ON_MOVE]: [PowerEffectKind.GOLD_BONUS],
+  [PowerTrigger.TURN_START]: [PowerEffectKind.GOLD_BONUS],
+  [PowerTrigger.PASSIVE]: [PowerEffectKind.EXTRA_MOVEMENT, PowerEffectKind.VISION, PowerEffectKind.STEALTH],
+};
+
+const isInterpretableEffect = (definition: PowerEffectDefinition): boolean => {
+  const { trigger, effect } = definition;
+  if (!effect || !SUPPORTED_EFFECTS[trigger]?.includes(effect.kind)) return false;
+
+  switch (effect.kind) {
+    case PowerEffectKind.SHIELD:
+      // A shield that is never used up would make the pawn invulnerable.
+      return definition.consumesPower === true;
+    case PowerEffectKind.GOLD_BONUS:
+      return Number.isInteger(effect.amount) && effect.amount > 0 && effect.amount <= 10;
+    case PowerEffectKind.VISION:
+      return Number.isInteger(effect.range) && effect.range >= 1 && effect.range <= MAX_VISION_RANGE;
+    case PowerEffectKind.EXTRA_MOVEMENT:
+      return Array.isArray(effect.offsets) && effect.offsets.length > 0
+        && ['move', 'capture', 'both'].includes(effect.mode)
+        && effect.offsets.every(o => Number.isInteger(o.row) && Number.isInteger(o.col)
+          && Math.abs(o.row) <= 2 && Math.abs(o.col) <= 2 && (o.row !== 0 || o.col !== 0));
+    default:
+      return true;
+  }
+};
+
+/**
+ * True if every effect of the power can be run by the interpreter.
+ * Powers without any effects are cosmetic and are rejected.
+ */
+export const isInterpretablePower = (power: PawnPower): boolean =>
+  Array.isArray(power.effects) && power.effects.length > 0 && power.effects.every(isInterpretableEffect);
+
+export const findPower = (powerId: string | undefined, knownPowers: PawnPower[]): PawnPower | null => {
+  if (!powerId) return null;
+  return knownPowers.find(p => p.id === powerId) ?? null;
+};
+
+const effectsFor = (piece: Piece | null, trigger: PowerTrigger, knownPowers: PawnPower[]): PowerEffectDefinition[] => {
+  const power = findPower(piece?.powerId, knownPowers);
+  if (!power) return [];
+  return power.effects.filter(e => e.trigger === trigger && isInterpretableEffect(e));
+};
+
+const goldFrom = (effects: PowerEffectDefinition[]): number =>
+  effects.reduce((sum, { effect }) => sum + (effect.kind === PowerEffectKind.GOLD_BONUS ? effect.amount : 0), 0);
+
+const consume = (piece: Piece, effects: PowerEffectDefinition[]) => {
+  if (effects.some(e => e.consumesPower)) {
+    piece.powerId = undefined;
+  }
+};
+
+export interface PowerTraits {
+  shield: boolean; // The next capture against this piece is negated
+  extraMoveOnCapture: boolean;
+  captureConsumesPower: boolean;
+}
+
+/**
+ * What a piece's power will do in the situations the AI search plays out, without running it.
+ */
+export const getPowerTraits = (piece: Piece | null, knownPowers: PawnPower[]): PowerTraits => {
+  const onCapture = effectsFor(piece, PowerTrigger.ON_CAPTURE, knownPowers);
+  return {
+    shield: effectsFor(piece, PowerTrigger.ON_ATTACKED, knownPowers).some(({ effect }) => effect.kind === PowerEffectKind.SHIELD),
+    extraMoveOnCapture: onCapture.some(({ effect }) => effect.kind === PowerEffectKind.EXTRA_MOVE),
+    captureConsumesPower: onCapture.some(e => e.consumesPower),
+  };
+};
+
+/**
+ * How far past its own attacks a piece sees in the fog of war; 0 without a vision power.
+ */
+export const getVisionRange = (piece: Piece | null, knownPowers: PawnPower[]): number =>
+  effectsFor(piece, PowerTrigger.PASSIVE, knownPowers)
+    .reduce((range, { effect }) => effect.kind === PowerEffectKind.VISION ? Math.max(range, effect.range) : range, 0);
+
+export const isStealthy = (piece: Piece | null, knownPowers: PawnPower[]): boolean =>
+  effectsFor(piece, PowerTrigger.PASSIVE, knownPowers).some(({ effect }) => effect.kind === PowerEffectKind.STEALTH);
+
+/**
+ * Extra destination squares granted by PASSIVE movement effects, on top of the piece's normal moves.
+ */
+export const getPowerMoves = (board: Board, pos: Position, knownPowers: PawnPower[], rules: BoardRules): Position[] => {
+  const piece = board[pos.row]?.[pos.col];
+  if (!piece) return [];
+
+  const forward = piece.color === PlayerColor.WHITE ? 1 : -1;
+  const moves: Position[] = [];
+
+  for (const { effect } of effectsFor(piece, PowerTrigger.PASSIVE, knownPowers)) {
+    if (effect.kind !== PowerEffectKind.EXTRA_MOVEMENT) continue;
+    for (const offset of effect.offsets) {
+      const target = { row: pos.row + offset.row * forward, col: pos.col + offset.col };
+      if (!isOnBoard(board, target.row, target.col) || isWall(rules, target.row, target.col)) continue;
+
+      const occupant = board[target.row][target.col];
+      if (occupant && (occupant.color === piece.color || !isCapturable(occupant, rules))) continue;
+      if (occupant && effect.mode === 'move') continue;
+      if (!occupant && effect.mode === 'capture') continue;
+      if (!moves.some(m => m.row === target.row && m.col === target.col)) {
+        moves.push(target);
+      }
+    }
+  }
+  return moves;
+};
+
+export interface PoweredMoveResult {
+  board: Board;
+  captured: Piece | null;
+  blocked: boolean; // The target's power negated the capture; the mover stays put
+  extraMove: boolean;
+  gold: number;
+  triggered: PawnPower[];
+}
+
+/**
+ * Applies a move and runs every power it triggers. Both the player and the AI move paths go through here.
+ * `captureAt` is only needed when the captured piece isn't on the destination (en passant).
+ * Castling, promotion and win/loss detection are left to the caller.
+ */
+export const applyPoweredMove = (board: Board, from: Position, to: Position, knownPowers: PawnPower[], captureAt: Position = to): PoweredMoveResult => {
+  const newBoard: Board = JSON.parse(JSON.stringify(board));
+  const mover = newBoard[from.row][from.col] as Piece;
+  const target = newBoard[captureAt.row][captureAt.col];
+  const triggered: PawnPower[] = [];
+  const noteTrigger = (piece: Piece) => {
+    const power = findPower(piece.powerId, knownPowers);
+    if (power && !triggered.includes(power)) triggered.push(power);
+  };
+
+  if (target) {
+    const onAttacked = effectsFor(target, PowerTrigger.ON_ATTACKED, knownPowers);
+    if (onAttacked.some(({ effect }) => effect.kind === PowerEffectKind.SHIELD)) {
+      noteTrigger(target);
+      consume(target, onAttacked);
+      return { board: newBoard, captured: null, blocked: true, extraMove: false, gold: 0, triggered };
+    }
+  }
+
+  newBoard[captureAt.row][captureAt.col] = null;
+  newBoard[to.row][to.col] = mover;
+  newBoard[from.row][from.col] = null;
+
+  let gold = 0;
+  let extraMove = false;
+
+  const onMove = effectsFor(mover, PowerTrigger.ON_MOVE, knownPowers);
+  if (onMove.length > 0) {
+    noteTrigger(mover);
+    gold += goldFrom(onMove);
+  }
+
+  if (target) {
+    const onCapture = effectsFor(mover, PowerTrigger.ON_CAPTURE, knownPowers);
+    if (onCapture.length > 0) {
+      noteTrigger(mover);
+      gold += goldFrom(onCapture);
+      extraMove = onCapture.some(({ effect }) => effect.kind === PowerEffectKind.EXTRA_MOVE);
+    }
+    consume(mover, onCapture);
+  }
+  consume(mover, onMove);
+
+  return { board: newBoard, captured: target, blocked: false, extraMove, gold, triggered };
+};
+
+export interface TurnStartResult {
+  board: Board;
+  gold: number;
+  triggered: PawnPower[];
+}
+
+/**
+ * Runs TURN_START effects for every piece of the given color.
+ */
+export const applyTurnStart = (board: Board, color: PlayerColor, knownPowers: PawnPower[]): TurnStartResult => {
+  const newBoard: Board = JSON.parse(JSON.stringify(board));
+  const triggered: PawnPower[] = [];
+  let gold = 0;
+
+  for (const row of newBoard) {
+    for (const piece of row) {
+      if (!piece || piece.color !== color) continue;
+      const effects = effectsFor(piece, PowerTrigger.TURN_START, knownPowers);
+      if (effects.length === 0) continue;
+      const power = findPower(piece.powerId, knownPowers);
+      if (power && !triggered.includes(power)) triggered.push(power);
+      gold += goldFrom(effects);
+      consume(piece, effects);
+    }
+  }
+  return { board: newBoard, gold, triggered };
+};
@@ -0,0 +1,129 @@
+import { GameState, PlayerColor } from '../types';
+import type { BoardInfo, PawnPower, PlayerProfile } from '../types';
+import type { GameSession } from './gameEngine';
+import { getBoss } from './gameEngine';
+import { getBlockNote } from './matchText';
+import { ALL_SPECIAL_PAWNS, RELENTLESS_PAWN, STURDY_PAWN } from './powerEffects';
+import { BOSSES } from './bosses';
+import { ACHIEVEMENTS } from './achievements';
+import type { Achievement } from './achievements';
+
+const STORAGE_KEY = 'pawns-gambit:profile';
+
+export const DEFAULT_PROFILE: PlayerProfile = {
+  totalRuns: 0,
+  bestLevels: {},
+  unlockedBoards: [],
+  unlockedPawns: [],
+  achievements: [],
+  levelsWon: 0,
+  bossesDefeated: 0,
+  sturdyBlocks: 0,
+  puzzleStars: {},
+};
+
+// Every power a profile can unlock as a starting pawn.
+const STARTING_PAWN_POOL: PawnPower[] = [...ALL_SPECIAL_PAWNS, ...BOSSES.map(b => b.reward)];
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const count = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.floor(value) : 0;
+
+export const loadProfile = (): PlayerProfile => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_PROFILE;
+    const parsed = JSON.parse(stored);
+    const bestLevels: Record<string, number> = {};
+    if (parsed?.bestLevels && typeof parsed.bestLevels === 'object') {
+      for (const [boardId, level] of Object.entries(parsed.bestLevels)) {
+        if (count(level) > 0) bestLevels[boardId] = count(level);
+      }
+    }
+    const puzzleStars: Record<string, number> = {};
+    if (parsed?.puzzleStars && typeof parsed.puzzleStars === 'object') {
+      for (const [puzzleId, stars] of Object.entries(parsed.puzzleStars)) {
+        if (count(stars) > 0) puzzleStars[puzzleId] = count(stars);
+      }
+    }
+    return {
+      totalRuns: count(parsed?.totalRuns),
+      bestLevels,
+      unlockedBoards: isStringList(parsed?.unlockedBoards) ? parsed.unlockedBoards : [],
+      unlockedPawns: isStringList(parsed?.unlockedPawns) ? parsed.unlockedPawns : [],
+      achievements: isStringList(parsed?.achievements) ? parsed.achievements : [],
+      levelsWon: count(parsed?.levelsWon),
+      bossesDefeated: count(parsed?.bossesDefeated),
+      sturdyBlocks: count(parsed?.sturdyBlocks),
+      puzzleStars,
+    };
+  } catch (error) {
+    console.error("Failed to load profile:", error);
+    return DEFAULT_PROFILE;
+  }
+};
+
+export const saveProfile = (profile: PlayerProfile) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+  } catch (error) {
+    console.error("Failed to save profile:", error);
+  }
+};
+
+export const isBoardUnlocked = (profile: PlayerProfile, board: BoardInfo) =>
+  !board.isLocked || profile.unlockedBoards.includes(board.id);
+
+/**
+ * The powers a new run may start with. The Relentless Pawn is always available.
+ */
+export const getStartingPawns = (profile: PlayerProfile): PawnPower[] =>
+  [RELENTLESS_PAWN, ...STARTING_PAWN_POOL.filter(p => p.id !== RELENTLESS_PAWN.id && profile.unlockedPawns.includes(p.id))];
+
+export const recordRunStart = (profile: PlayerProfile): PlayerProfile => ({ ...profile, totalRuns: profile.totalRuns + 1 });
+
+export interface LevelRecord {
+  profile: PlayerProfile;
+  earned: Achievement[]; // Achievements this level completed
+}
+
+const addUnique = (list: string[], ids: string[]) => [...list, ...ids.filter(id => !list.includes(id))];
+
+/**
+ * Folds a finished level (won, lost or drawn) into the profile: best level, boss kills, Sturdy
+ * Pawn blocks, board unlocks and any achievements that are now earned.
+ */
+export const recordLevelEnd = (profile: PlayerProfile, session: GameSession, boards: BoardInfo[]): LevelRecord => {
+  const won = session.gameState === GameState.LEVEL_WON;
+  const boss = won ? getBoss(session) : null;
+  const boardId = session.boardInfo.id;
+  const bestLevels = { ...profile.bestLevels, [boardId]: Math.max(profile.bestLevels[boardId] ?? 0, session.level) };
+  const bestLevel = Math.max(...Object.values(bestLevels));
+  const sturdyNote = getBlockNote(STURDY_PAWN);
+  const sturdyBlocks = session.moveLog.filter(m => m.color === PlayerColor.BLACK && m.notes.includes(sturdyNote)).length;
+
+  const updated: PlayerProfile = {
+    ...profile,
+    bestLevels,
+    levelsWon: profile.levelsWon + (won ? 1 : 0),
+    bossesDefeated: profile.bossesDefeated + (boss ? 1 : 0),
+    sturdyBlocks: profile.sturdyBlocks + sturdyBlocks,
+    unlockedBoards: addUnique(profile.unlockedBoards, boards.filter(b => b.isLocked && (b.unlockLevel ?? Infinity) <= bestLevel).map(b => b.id)),
+    unlockedPawns: boss ? addUnique(profile.unlockedPawns, [boss.reward.id]) : profile.unlockedPawns,
+  };
+
+  const earned = ACHIEVEMENTS.filter(a => !updated.achievements.includes(a.id) && a.isEarned(updated, session));
+  return {
+    profile: {
+      ...updated,
+      achievements: [...updated.achievements, ...earned.map(a => a.id)],
+      unlockedPawns: addUnique(updated.unlockedPawns, earned.flatMap(a => a.unlocksPawn ? [a.unlocksPawn] : [])),
+    },
+    earned,
+  };
+};
+
+// Keeps the best rating a puzzle has earned.
+export const recordPuzzleSolved = (profile: PlayerProfile, puzzleId: string, stars: number): PlayerProfile =>
+  stars <= (profile.puzzleStars[puzzleId] ?? 0) ? profile : { ...profile, puzzleStars: { ...profile.puzzleStars, [puzzleId]: stars } };
@@ -0,0 +1,166 @@
+import { PieceType, PlayerColor } from '../types';
+import type { Position, Puzzle } from '../types';
+import { createChessState } from './chessRules';
+import { applyVersusAction } from './versusEngine';
+import type { VersusSession } from './versusEngine';
+import type { AIMove, AISearchRequest } from './ai';
+import { hashSeed } from './random';
+import type { GameEvent } from './gameEngine';
+
+// A puzzle is played as a versus match that starts mid-game: the player has white and the AI
+// answers for black. The versus engine enforces the rules; this module only tracks the goal, the
+// attempts and the stars. Like the other sessions, a PuzzleSession changes only through
+// applyPuzzleAction.
+
+export const MAX_STARS = 3;
+
+// Black defends at a fixed strength, so a puzzle plays the same way every time.
+const PUZZLE_SEARCH_DEPTH = 3;
+const PUZZLE_NODE_BUDGET = 100000;
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+export interface PuzzleSession {
+  puzzle: Puzzle;
+  match: VersusSession;
+  status: PuzzleStatus;
+  attempt: number; // 1 on the first try; a retry starts the next one
+  aiRngState: number;
+}
+
+export type PuzzleAction =
+  | { type: 'select'; pos: Position }
+  | { type: 'move'; from: Position; to: Position; promotion?: PieceType }
+  | { type: 'cancel-promotion' }
+  | { type: 'ai-move'; move: AIMove | null; rngState: number }
+  | { type: 'retry' };
+
+export interface PuzzleResult {
+  session: PuzzleSession;
+  events: GameEvent[];
+}
+
+export const describeGoal = (puzzle: Puzzle): string => {
+  const { kind, turns } = puzzle.goal;
+  const plural = turns === 1 ? 'TURN' : 'TURNS';
+  return kind === 'capture-king' ? `TAKE THE KING IN ${turns} ${plural}` : `SURVIVE ${turns} ${plural}`;
+};
+
+const startingMatch = (puzzle: Puzzle): VersusSession => {
+  const { boardInfo, powers } = puzzle;
+  const board = boardInfo.startingBoard;
+  return {
+    phase: 'playing',
+    boardInfo,
+    board,
+    chessState: createChessState(board),
+    turn: PlayerColor.WHITE,
+    budget: 0,
+    pool: [],
+    drafts: {
+      // Every placed power goes on white's roster; the rules look powers up by id, whoever holds them.
+      [PlayerColor.WHITE]: { powers, spent: 0, done: true },
+      [PlayerColor.BLACK]: { powers: [], spent: 0, done: true },
+    },
+    moveLog: [],
+    winner: null,
+    selectedPiece: null,
+    inspectedPiece: null,
+    validMoves: [],
+    pendingPromotion: null,
+    message: describeGoal(puzzle),
+  };
+};
+
+/**
+ * Completed turns for `color`. A turn ends when the move passes to the other side, so extra
+ * moves granted by powers belong to the turn they were earned in.
+ */
+export const countTurns = (match: VersusSession, color: PlayerColor): number => {
+  const { moveLog } = match;
+  return moveLog.filter((move, i) => move.color === color
+    && (i + 1 < moveLog.length ? moveLog[i + 1].color !== color : match.turn !== color || match.phase === 'over')).length;
+};
+
+/**
+ * The solution checker: whether the match so far meets the puzzle's goal, breaks it, or neither yet.
+ */
+export const getPuzzleStatus = (puzzle: Puzzle, match: VersusSession): PuzzleStatus => {
+  const { kind, turns } = puzzle.goal;
+  if (match.phase === 'over') {
+    // A stalemate leaves the white king standing, which is all a survival puzzle asks.
+    return match.winner === PlayerColor.WHITE || (kind === 'survive' && match.winner === null) ? 'solved' : 'failed';
+  }
+  if (kind === 'capture-king') return countTurns(match, PlayerColor.WHITE) >= turns ? 'failed' : 'playing';
+  return countTurns(match, PlayerColor.BLACK) >= turns ? 'solved' : 'playing';
+};
+
+// Three stars for solving it first time, one fewer for each retry, never fewer than one.
+export const getPuzzleStars = (session: PuzzleSession): number =>
+  session.status === 'solved' ? Math.max(1, MAX_STARS + 1 - session.attempt) : 0;
+
+// How far into the goal the player is, for the status line.
+export const getPuzzleProgress = (session: PuzzleSession): string => {
+  const { puzzle: { goal }, match } = session;
+  const color = goal.kind === 'capture-king' ? PlayerColor.WHITE : PlayerColor.BLACK;
+  const left = Math.max(0, goal.turns - countTurns(match, color));
+  return goal.kind === 'capture-king' ? `${left} OF ${goal.turns} TURNS LEFT` : `${left} ENEMY TURNS TO GO`;
+};
+
+export const createPuzzleSession = (puzzle: Puzzle, attempt: number = 1): PuzzleSession => ({
+  puzzle,
+  match: startingMatch(puzzle),
+  status: 'playing',
+  attempt,
+  aiRngState: hashSeed(`${puzzle.id}:${attempt}`),
+});
+
+/**
+ * The search black should run now. The UI sends it to the AI worker.
+ */
+export const getPuzzleSearchRequest = (session: PuzzleSession): AISearchRequest => ({
+  board: session.match.board,
+  rules: session.puzzle.boardInfo.rules,
+  powers: session.puzzle.powers,
+  race: null,
+  chessState: session.match.chessState,
+  color: PlayerColor.BLACK,
+  maxDepth: PUZZLE_SEARCH_DEPTH,
+  budget: { nodes: PUZZLE_NODE_BUDGET },
+  rngState: session.aiRngState,
+});
+
+// Checks a match the versus rules have just moved on against the goal.
+const play = (session: PuzzleSession, match: VersusSession, events: GameEvent[]): PuzzleResult => {
+  const status = getPuzzleStatus(session.puzzle, match);
+  if (status === 'playing') return { session: { ...session, match }, events };
+  const message = status === 'solved' ? 'PUZZLE SOLVED!' : `${match.phase === 'over' ? match.message : 'OUT OF TURNS.'} TRY AGAIN?`;
+  return {
+    session: { ...session, status, match: { ...match, phase: 'over', selectedPiece: null, validMoves: [], pendingPromotion: null, message } },
+    events,
+  };
+};
+
+/**
+ * The single entry point for changing a puzzle. Actions that don't apply right now return the
+ * session unchanged.
+ */
+export const applyPuzzleAction = (session: PuzzleSession, action: PuzzleAction): PuzzleResult => {
+  const { match } = session;
+  const unchanged: PuzzleResult = { session, events: [] };
+  if (action.type === 'retry') return { session: createPuzzleSession(session.puzzle, session.attempt + 1), events: [] };
+  if (session.status !== 'playing') return unchanged;
+
+  if (action.type === 'ai-move') {
+    if (match.turn !== PlayerColor.BLACK || !action.move) return unchanged;
+    const { session: next, events } = applyVersusAction(match, { type: 'move', from: action.move.from, to: action.move.to });
+    if (next === match) return unchanged;
+    return play({ ...session, aiRngState: action.rngState }, next, events);
+  }
+
+  if (match.turn !== PlayerColor.WHITE) return unchanged;
+  const { session: next, events } = applyVersusAction(match, action);
+  if (next === match) return unchanged;
+  // Selecting a piece or opening the promotion picker doesn't use up a turn.
+  return next.moveLog.length === match.moveLog.length ? { session: { ...session, match: next }, events } : play(session, next, events);
+};
@@ -0,0 +1,106 @@
+import type { PawnPower, Position, Puzzle, PuzzleDefinition, PuzzlePack } from '../types';
+import { buildBoardInfo, validateBoardDefinition } from './boardLoader';
+import { ALL_SPECIAL_PAWNS } from './powerEffects';
+import { BOSSES } from './bosses';
+
+const MAX_TURNS = 10;
+const FILES = 'abcdefghijkl';
+
+// The powers a puzzle may place: the built-in pawns and the boss rewards.
+const PUZZLE_POWERS: PawnPower[] = [...ALL_SPECIAL_PAWNS, ...BOSSES.map(b => b.reward)];
+
+export type PuzzleDefinitionResult =
+  | { ok: true; definition: PuzzleDefinition }
+  | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The square a name like "f6" names on `layout`, or null if it is off the board.
+const parseSquare = (name: string, layout: string[]): Position | null => {
+  const match = /^([a-l])(\d{1,2})$/.exec(name);
+  if (!match) return null;
+  const row = layout.length - Number(match[2]);
+  const col = FILES.indexOf(match[1]);
+  return row >= 0 && row < layout.length && col < layout[0].length ? { row, col } : null;
+};
+
+/**
+ * Checks raw JSON against the puzzle format: a board definition plus a goal and power placements.
+ */
+export const validatePuzzleDefinition = (raw: unknown): PuzzleDefinitionResult => {
+  const board = validateBoardDefinition(raw);
+  const errors = board.ok === false ? [...board.errors] : [];
+  if (!isRecord(raw)) return { ok: false, errors };
+
+  // Puzzles are played as versus matches, which have no fog of war.
+  if (isRecord(raw.rules) && raw.rules.fogOfWar === true) errors.push('"fogOfWar" is not supported in puzzles');
+
+  const goal = raw.goal;
+  if (!isRecord(goal) || !['capture-king', 'survive'].includes(goal.kind as string)) {
+    errors.push('"goal" must be a capture-king or survive goal');
+  } else if (!Number.isInteger(goal.turns) || (goal.turns as number) < 1 || (goal.turns as number) > MAX_TURNS) {
+    errors.push(`goal "turns" must be a whole number from 1 to ${MAX_TURNS}`);
+  }
+
+  if (raw.powers !== undefined) {
+    if (!isRecord(raw.powers)) {
+      errors.push('"powers" must map square names to power ids');
+    } else if (Array.isArray(raw.layout) && raw.layout.every(row => typeof row === 'string')) {
+      const layout = raw.layout as string[];
+      for (const [square, powerId] of Object.entries(raw.powers)) {
+        const pos = parseSquare(square, layout);
+        const char = pos ? layout[pos.row][pos.col] : '.';
+        if (!pos) errors.push(`power square "${square}" is off the board`);
+        else if (!/[pnbrqk]/i.test(char)) errors.push(`no piece on ${square} to hold a power`);
+        if (!PUZZLE_POWERS.some(p => p.id === powerId)) errors.push(`unknown power "${powerId}" on ${square}`);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, definition: raw as unknown as PuzzleDefinition };
+};
+
+/**
+ * Turns a validated definition into a playable puzzle. Unlike a run, the black king shows from the start.
+ */
+export const buildPuzzle = (definition: PuzzleDefinition): Puzzle => {
+  const boardInfo = buildBoardInfo(definition);
+  boardInfo.startingBoard.forEach(row => row.forEach(piece => { if (piece) delete piece.isVisible; }));
+  const powers: PawnPower[] = [];
+  for (const [square, powerId] of Object.entries(definition.powers ?? {})) {
+    const { row, col } = parseSquare(square, definition.layout) as Position;
+    const power = PUZZLE_POWERS.find(p => p.id === powerId) as PawnPower;
+    boardInfo.startingBoard[row][col] = { ...boardInfo.startingBoard[row][col]!, powerId };
+    if (!powers.includes(power)) powers.push(power);
+  }
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    goal: definition.goal,
+    boardInfo: { ...boardInfo, isLocked: false },
+    powers,
+  };
+};
+
+/**
+ * Loads a puzzle pack, logging and skipping any puzzle that fails validation.
+ * Returns null if the pack itself is malformed.
+ */
+export const loadPuzzlePack = (raw: unknown): PuzzlePack | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !Array.isArray(raw.puzzles)) {
+    console.error('Skipping invalid puzzle pack:', raw);
+    return null;
+  }
+  const puzzles = raw.puzzles.flatMap(definition => {
+    const result = validatePuzzleDefinition(definition);
+    if (result.ok === false) {
+      const id = isRecord(definition) && typeof definition.id === 'string' ? definition.id : 'unknown';
+      console.error(`Skipping invalid puzzle "${id}" in pack "${raw.id}":`, result.errors);
+      return [];
+    }
+    return [buildPuzzle(result.definition)];
+  });
+  return { id: raw.id, name: raw.name, puzzles };
+};
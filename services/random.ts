@@ -0,0 +1,61 @@
+// Seedable randomness for runs. Every random decision in a run draws from a stream derived
+// from the run seed, so the same seed and the same player moves reproduce the same run.
+
+export interface Rng {
+  next: () => number; // Uniform in [0, 1), like Math.random
+  getState: () => number;
+}
+
+// mulberry32: tiny, fast and good enough for gameplay.
+export const createRng = (state: number): Rng => {
+  let s = state >>> 0;
+  return {
+    next: () => {
+      s = (s + 0x6d2b79f5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => s,
+  };
+};
+
+// FNV-1a, used to turn seed strings into PRNG states.
+export const hashSeed = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * An independent stream for one purpose (level setup, a shop, the AI) so that, for example,
+ * how many moves the AI made does not change what the next shop offers.
+ */
+export const deriveRng = (seed: string, ...labels: (string | number)[]): Rng =>
+  createRng(hashSeed([seed, ...labels].join(':')));
+
+// Unambiguous characters only, so seeds can be read aloud and typed back in.
+const SEED_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const generateSeed = (random: () => number = Math.random): string => {
+  let seed = '';
+  for (let i = 0; i < 8; i++) {
+    if (i === 4) seed += '-';
+    seed += SEED_ALPHABET[Math.floor(random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
+
+export const normalizeSeed = (input: string): string => input.trim().toUpperCase();
+
+// The date is taken in UTC so every player gets the same daily seed at the same moment.
+export const getDailySeed = (date: Date = new Date()): string => {
+  const yyyy = date.getUTCFullYear();
+  const mm = String(date.getUTCMonth() + 1).padStart(2, '0');
+  const dd = String(date.getUTCDate()).padStart(2, '0');
+  return `DAILY-${yyyy}-${mm}-${dd}`;
+};
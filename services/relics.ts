@@ -0,0 +1,98 @@
+import { PieceType, PowerRarity } from '../types';
+import type { Piece, Relic } from '../types';
+import { PIECE_VALUES } from './movement';
+
+// Relics are bought in the shop like powers but belong to the run rather than to a pawn.
+// Like bosses they are plain data; the engine reads their effects wherever it pays for
+// captures or works out the enemy king's summon threshold.
+
+export const RELICS: Relic[] = [
+  {
+    id: 'pawn-bounty',
+    name: 'Pawn Bounty',
+    description: '+$1 for every capture made by a pawn.',
+    cost: 6,
+    rarity: PowerRarity.COMMON,
+    effects: [{ kind: 'capture-gold', amount: 1, by: PieceType.PAWN }],
+  },
+  {
+    id: 'knights-ransom',
+    name: "Knight's Ransom",
+    description: 'Enemy knights are worth 2 more when captured.',
+    cost: 6,
+    rarity: PowerRarity.COMMON,
+    effects: [{ kind: 'piece-value', pieceType: PieceType.KNIGHT, amount: 2 }],
+  },
+  {
+    id: 'war-drums',
+    name: 'War Drums',
+    description: 'The enemy king answers your summons 3 capture value sooner.',
+    cost: 8,
+    rarity: PowerRarity.RARE,
+    effects: [{ kind: 'summon-threshold', amount: -3 }],
+  },
+  {
+    id: 'grave-robber',
+    name: 'Grave Robber',
+    description: '+$1 for every capture.',
+    cost: 10,
+    rarity: PowerRarity.RARE,
+    effects: [{ kind: 'capture-gold', amount: 1 }],
+  },
+  {
+    id: 'crown-jewels',
+    name: 'Crown Jewels',
+    description: 'Enemy queens are worth 4 more when captured.',
+    cost: 9,
+    rarity: PowerRarity.RARE,
+    effects: [{ kind: 'piece-value', pieceType: PieceType.QUEEN, amount: 4 }],
+  },
+  {
+    id: 'royal-decree',
+    name: 'Royal Decree',
+    description: 'The enemy king answers your summons 6 capture value sooner, and every capture pays $1 more.',
+    cost: 16,
+    rarity: PowerRarity.LEGENDARY,
+    effects: [{ kind: 'summon-threshold', amount: -6 }, { kind: 'capture-gold', amount: 1 }],
+  },
+];
+
+export const findRelic = (id: string): Relic | null => RELICS.find(r => r.id === id) ?? null;
+
+// The relics behind a list of ids, skipping any the catalog no longer has.
+export const getRelics = (relicIds: string[]): Relic[] => relicIds.flatMap(id => findRelic(id) ?? []);
+
+const effectsOf = (relicIds: string[]) => getRelics(relicIds).flatMap(r => r.effects);
+
+/**
+ * What each piece type counts for when captured, with the relics' bonuses added.
+ */
+export const getPieceValues = (relicIds: string[]): Record<PieceType, number> => {
+  const values = { ...PIECE_VALUES } as Record<PieceType, number>;
+  effectsOf(relicIds).forEach(effect => {
+    if (effect.kind === 'piece-value') values[effect.pieceType] += effect.amount;
+  });
+  return values;
+};
+
+/**
+ * Gold the relics add for `mover` capturing a piece, on top of the captured piece's value.
+ */
+export const getRelicCaptureGold = (relicIds: string[], mover: Piece): number =>
+  effectsOf(relicIds).reduce((sum, effect) =>
+    effect.kind === 'capture-gold' && (!effect.by || effect.by === mover.type) ? sum + effect.amount : sum, 0);
+
+export const getSummonThresholdBonus = (relicIds: string[]): number =>
+  effectsOf(relicIds).reduce((sum, effect) => effect.kind === 'summon-threshold' ? sum + effect.amount : sum, 0);
+
+/**
+ * Up to `count` relics the player doesn't own yet, drawn with `random`.
+ */
+export const pickShopRelics = (owned: string[], count: number, random: () => number): string[] => {
+  const pool = RELICS.filter(r => !owned.includes(r.id)).map(r => r.id);
+  const picked: string[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+};
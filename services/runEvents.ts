@@ -0,0 +1,89 @@
+import { STURDY_PAWN } from './powerEffects';
+
+// Random encounters found at '?' nodes of the run map. Every choice lists the outcomes it can
+// lead to; one of them is picked at random when the choice is made.
+
+export interface EventOutcome {
+  text: string;
+  gold?: number;
+  extraUndos?: number; // Permanent undo charges, like the ones sold in the shop
+  powerId?: string; // A built-in power added to the player's owned pawns
+}
+
+export interface EventChoice {
+  label: string;
+  cost?: number; // Gold paid up front; the choice is unavailable without it
+  outcomes: EventOutcome[];
+}
+
+export interface RunEvent {
+  id: string;
+  title: string;
+  description: string;
+  choices: EventChoice[];
+}
+
+const MOVE_ON: EventChoice = { label: 'Move on', outcomes: [{ text: 'You march on.' }] };
+
+export const RUN_EVENTS: RunEvent[] = [
+  {
+    id: 'abandoned-camp',
+    title: 'ABANDONED CAMP',
+    description: 'The enemy left this camp in a hurry. Something may have been left behind.',
+    choices: [
+      {
+        label: 'Search the tents',
+        outcomes: [
+          { text: 'You find a forgotten purse of gold.', gold: 12 },
+          { text: 'Nothing but stale rations.' },
+        ],
+      },
+      MOVE_ON,
+    ],
+  },
+  {
+    id: 'gambler',
+    title: 'THE GAMBLER',
+    description: 'A hooded figure shuffles a deck of cards and offers to double your money.',
+    choices: [
+      {
+        label: 'Wager $10',
+        cost: 10,
+        outcomes: [
+          { text: 'Lady luck smiles. The gambler pays out $20.', gold: 20 },
+          { text: 'The gambler sweeps your coins off the table.' },
+        ],
+      },
+      MOVE_ON,
+    ],
+  },
+  {
+    id: 'drill-sergeant',
+    title: 'DRILL SERGEANT',
+    description: 'A retired sergeant offers to teach your troops to regroup under fire.',
+    choices: [
+      {
+        label: 'Pay $8 for drills',
+        cost: 8,
+        outcomes: [{ text: 'Your troops learn to regroup. +1 undo every level.', extraUndos: 1 }],
+      },
+      MOVE_ON,
+    ],
+  },
+  {
+    id: 'stone-mason',
+    title: 'STONE MASON',
+    description: 'A mason offers to reinforce the armor of one of your pawns.',
+    choices: [
+      {
+        label: 'Pay $6 for armor',
+        cost: 6,
+        outcomes: [{ text: `One of your pawns becomes a ${STURDY_PAWN.name}.`, powerId: STURDY_PAWN.id }],
+      },
+      MOVE_ON,
+    ],
+  },
+];
+
+export const findRunEvent = (id: string | undefined): RunEvent | null =>
+  RUN_EVENTS.find(e => e.id === id) ?? null;
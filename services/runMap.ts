@@ -0,0 +1,107 @@
+import type { MapNode, MapNodeKind, RunMap } from '../types';
+import { deriveRng } from './random';
+import type { Rng } from './random';
+import { RUN_EVENTS } from './runEvents';
+import { BOSSES } from './bosses';
+
+// Between levels the player picks a path through a map of nodes, one act at a time.
+// Each act is generated from the run seed, so seeded runs share their maps.
+
+const ACT_ROWS = 7; // The opening battle, five rows of choices and the boss
+const MIN_WIDTH = 2;
+const MAX_WIDTH = 3;
+
+// Relative odds of each kind in the middle rows.
+const KIND_WEIGHTS: [MapNodeKind, number][] = [
+  ['battle', 40],
+  ['elite', 15],
+  ['shop', 17],
+  ['rest', 13],
+  ['event', 15],
+];
+
+// Extra enemy budget for the tougher fights, on top of the level's own.
+const COMBAT_BUDGET_BONUS: Partial<Record<MapNodeKind, number>> = {
+  elite: 4,
+  boss: 6,
+};
+
+export const ELITE_BOUNTY = 10;
+
+export const isCombatNode = (kind: MapNodeKind): boolean => kind === 'battle' || kind === 'elite' || kind === 'boss';
+
+export const getCombatBudgetBonus = (kind: MapNodeKind | undefined): number => (kind && COMBAT_BUDGET_BONUS[kind]) ?? 0;
+
+const pickKind = (row: number, rng: Rng): MapNodeKind => {
+  // No elites straight after the opening fight, and a last chance to rest before the boss.
+  if (row === ACT_ROWS - 2) return rng.next() < 0.5 ? 'rest' : 'shop';
+  const weights = row === 1 ? KIND_WEIGHTS.filter(([kind]) => kind !== 'elite') : KIND_WEIGHTS;
+  let roll = rng.next() * weights.reduce((sum, [, weight]) => sum + weight, 0);
+  for (const [kind, weight] of weights) {
+    roll -= weight;
+    if (roll < 0) return kind;
+  }
+  return 'battle';
+};
+
+// Links every node to the node below it at the same relative position, sometimes to a
+// neighbour as well, then makes sure nothing in the next row is unreachable.
+const connectRows = (upper: MapNode[], lower: MapNode[], rng: Rng) => {
+  const scale = (i: number, from: number, to: number) => from === 1 ? 0 : Math.round(i * (to - 1) / (from - 1));
+  const link = (a: MapNode, b: MapNode) => { if (!a.next.includes(b.id)) a.next.push(b.id); };
+
+  if (upper.length === 1 || lower.length === 1) {
+    upper.forEach(a => lower.forEach(b => link(a, b)));
+    return;
+  }
+  upper.forEach((a, i) => {
+    const target = scale(i, upper.length, lower.length);
+    link(a, lower[target]);
+    const neighbour = target + (rng.next() < 0.5 ? -1 : 1);
+    if (rng.next() < 0.5 && lower[neighbour]) link(a, lower[neighbour]);
+  });
+  lower.forEach((b, j) => {
+    if (!upper.some(a => a.next.includes(b.id))) link(upper[scale(j, lower.length, upper.length)], b);
+  });
+};
+
+export const generateActMap = (seed: string, act: number): RunMap => {
+  const rng = deriveRng(seed, 'map', act);
+  const rows: MapNode[][] = [];
+  for (let row = 0; row < ACT_ROWS; row++) {
+    const isEdge = row === 0 || row === ACT_ROWS - 1;
+    const width = isEdge ? 1 : MIN_WIDTH + Math.floor(rng.next() * (MAX_WIDTH - MIN_WIDTH + 1));
+    rows.push(Array.from({ length: width }, (_, col) => {
+      const kind: MapNodeKind = row === 0 ? 'battle' : row === ACT_ROWS - 1 ? 'boss' : pickKind(row, rng);
+      const node: MapNode = { id: `${act}-${row}-${col}`, kind, row, col, next: [] };
+      if (kind === 'event') node.eventId = RUN_EVENTS[Math.floor(rng.next() * RUN_EVENTS.length)].id;
+      if (kind === 'boss') node.bossId = BOSSES[Math.floor(rng.next() * BOSSES.length)].id;
+      return node;
+    }));
+  }
+  for (let row = 0; row < ACT_ROWS - 1; row++) connectRows(rows[row], rows[row + 1], rng);
+  return { act, nodes: rows.flat(), currentNodeId: null, visited: [] };
+};
+
+export const getCurrentNode = (map: RunMap): MapNode | null =>
+  map.nodes.find(n => n.id === map.currentNodeId) ?? null;
+
+/**
+ * The nodes the player may move to next: the act's opening battle, or whatever the current node leads to.
+ */
+export const getReachableNodes = (map: RunMap): MapNode[] => {
+  const current = getCurrentNode(map);
+  return current ? map.nodes.filter(n => current.next.includes(n.id)) : map.nodes.filter(n => n.row === 0);
+};
+
+export const visitNode = (map: RunMap, nodeId: string): RunMap => ({
+  ...map,
+  currentNodeId: nodeId,
+  visited: [...map.visited, nodeId],
+});
+
+// A new act, already standing on its opening battle.
+export const startAct = (seed: string, act: number): RunMap => {
+  const map = generateActMap(seed, act);
+  return visitNode(map, map.nodes[0].id);
+};
@@ -0,0 +1,241 @@
+import { GameState, PieceType, PlayerColor } from '../types';
+import type { BoardInfo, PawnPower, RunMode } from '../types';
+import { applyAction, createSession } from './gameEngine';
+import type { GameAction, GameSession } from './gameEngine';
+import { getCurrentNode } from './runMap';
+import { findRelic } from './relics';
+
+// Every run is recorded as the actions applied to it. The engine is deterministic given the run's
+// seed, and AI moves and shop stock are recorded with their results, so folding the actions over
+// a fresh session rebuilds every position of the run.
+
+const STORAGE_KEY = 'pawns-gambit:recording';
+
+export const RECORDING_VERSION = 2;
+
+// Clicking squares only matters when it makes a move, so recordings keep the move instead.
+export type RecordedAction = Exclude<GameAction, { type: 'select' } | { type: 'cancel-promotion' }>;
+
+export interface RunRecording {
+  version: number;
+  recordedAt: number;
+  boardId: string;
+  seed: string;
+  runMode: RunMode;
+  startingPawn: PawnPower;
+  actions: RecordedAction[];
+}
+
+export type LoadRecordingResult =
+  | { status: 'ok'; recording: RunRecording }
+  | { status: 'error'; reason: string };
+
+const RECORDED_ACTION_TYPES: RecordedAction['type'][] = [
+  'move', 'ai-move', 'summon-king', 'undo', 'deploy-power', 'bench-power', 'swap-pieces', 'auto-deploy', 'start-battle',
+  'open-map', 'choose-node', 'rest', 'resolve-event', 'stock-shop', 'buy-pawn', 'buy-undo-charge', 'reroll-shop',
+  'sell-pawn', 'buy-relic', 'leave-shop', 'refight-level',
+];
+
+export const startRecording = (session: GameSession): RunRecording => ({
+  version: RECORDING_VERSION,
+  recordedAt: Date.now(),
+  boardId: session.boardInfo.id,
+  seed: session.seed,
+  runMode: session.runMode,
+  startingPawn: session.ownedPawns[0],
+  actions: [],
+});
+
+/**
+ * What to record for `action`, given the session before and after it: nothing if it changed
+ * nothing worth replaying, and a plain move for a square click that moved a piece.
+ */
+export const toRecordedAction = (previous: GameSession, action: GameAction, next: GameSession): RecordedAction | null => {
+  if (action.type === 'select') {
+    const moved = next.moveLog.length > previous.moveLog.length;
+    return moved && previous.selectedPiece ? { type: 'move', from: previous.selectedPiece, to: action.pos } : null;
+  }
+  if (action.type === 'cancel-promotion' || next === previous) return null;
+  return action;
+};
+
+export const appendAction = (recording: RunRecording, action: RecordedAction): RunRecording =>
+  ({ ...recording, actions: [...recording.actions, action] });
+
+// --- Replay ---
+
+export interface ReplayFrame {
+  session: GameSession;
+  label: string; // What the action leading to this frame did
+}
+
+const LEVEL_ENDS = [GameState.LEVEL_WON, GameState.GAME_OVER, GameState.LEVEL_DRAWN];
+
+const describeAction = (previous: GameSession, action: RecordedAction, next: GameSession): string => {
+  switch (action.type) {
+    case 'move':
+    case 'ai-move': {
+      const last = next.moveLog[next.moveLog.length - 1];
+      if (!last || next.moveLog.length === previous.moveLog.length) return next.message;
+      const side = last.color === PlayerColor.WHITE ? 'You' : 'Enemy';
+      return [`${side}: ${last.san}`, ...last.notes].join(' - ');
+    }
+    case 'summon-king':
+      return 'Enemy king summoned';
+    case 'undo':
+      return 'Move undone';
+    case 'deploy-power':
+      return `Deploys ${previous.ownedPawns[action.index]?.name ?? 'a power'}`;
+    case 'bench-power':
+      return 'Benches a power';
+    case 'swap-pieces':
+      return 'Swaps two pieces';
+    case 'auto-deploy':
+      return 'Auto-deploys';
+    case 'start-battle':
+      return `Level ${next.level} begins`;
+    case 'open-map':
+      return 'Back to the map';
+    case 'choose-node':
+      return `Travels to a ${getCurrentNode(next.map)?.kind ?? 'new'} node`;
+    case 'rest':
+    case 'resolve-event':
+      return next.message;
+    case 'stock-shop':
+      return `Shop offers ${action.pawns.map(p => p.name).join(', ') || 'nothing'}`;
+    case 'buy-pawn':
+      return `Buys ${previous.shopPawns.find(p => p.id === action.pawnId)?.name ?? 'a power'}`;
+    case 'buy-undo-charge':
+      return 'Buys an Hourglass';
+    case 'reroll-shop':
+      return 'Rerolls the shop';
+    case 'sell-pawn':
+      return `Sells ${previous.ownedPawns[action.index]?.name ?? 'a power'}`;
+    case 'buy-relic':
+      return `Buys ${findRelic(action.relicId)?.name ?? 'a relic'}`;
+    case 'leave-shop':
+      return 'Leaves the shop';
+    case 'refight-level':
+      return `Refights level ${next.level}`;
+  }
+};
+
+/**
+ * Every position of a recorded run: the opening session, then one frame per action.
+ */
+export const buildReplay = (recording: RunRecording, boardInfo: BoardInfo): ReplayFrame[] => {
+  let session = createSession(boardInfo, recording.seed, recording.runMode, recording.startingPawn);
+  // Before version 2, level 1 began without a deployment phase.
+  if (recording.version < 2) session = applyAction(session, { type: 'start-battle' }).session;
+  const frames: ReplayFrame[] = [{ session, label: 'The run begins' }];
+  recording.actions.forEach(action => {
+    const previous = session;
+    session = applyAction(previous, action).session;
+    const label = describeAction(previous, action, session);
+    const ended = !LEVEL_ENDS.includes(previous.gameState) && LEVEL_ENDS.includes(session.gameState);
+    frames.push({ session, label: ended && session.message !== label ? `${label} - ${session.message}` : label });
+  });
+  return frames;
+};
+
+// --- Files and storage ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIndex = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+const isPosition = (value: unknown) => isRecord(value) && isIndex(value.row) && isIndex(value.col);
+
+const isPawnPower = (value: unknown) =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && Array.isArray(value.effects);
+
+const PROMOTIONS: unknown[] = [PieceType.QUEEN, PieceType.ROOK, PieceType.BISHOP, PieceType.KNIGHT];
+const ABILITY_SOURCES: unknown[] = ['gemini', 'http', 'local'];
+
+// Whether a known action carries the fields the engine reads for it, with the right types.
+const hasValidPayload = (action: Record<string, unknown>): boolean => {
+  switch (action.type as RecordedAction['type']) {
+    case 'move':
+      return isPosition(action.from) && isPosition(action.to) && (action.promotion === undefined || PROMOTIONS.includes(action.promotion));
+    case 'ai-move':
+      return typeof action.rngState === 'number' && Number.isFinite(action.rngState)
+        && (action.move === null || (isRecord(action.move) && isPosition(action.move.from) && isPosition(action.move.to)));
+    case 'deploy-power':
+      return isIndex(action.index) && isPosition(action.pos);
+    case 'bench-power':
+      return isPosition(action.pos);
+    case 'swap-pieces':
+      return isPosition(action.from) && isPosition(action.to);
+    case 'choose-node':
+      return typeof action.nodeId === 'string';
+    case 'rest':
+      return action.choice === 'drill' || action.choice === 'forage';
+    case 'resolve-event':
+      return isIndex(action.choice);
+    case 'stock-shop':
+      return Array.isArray(action.pawns) && action.pawns.every(isPawnPower) && ABILITY_SOURCES.includes(action.source);
+    case 'buy-pawn':
+      return typeof action.pawnId === 'string';
+    case 'sell-pawn':
+      return isIndex(action.index);
+    case 'buy-relic':
+      return typeof action.relicId === 'string';
+    default:
+      return true;
+  }
+};
+
+const validateRecording = (raw: Record<string, unknown>): string | null => {
+  if (typeof raw.version !== 'number') return 'missing version';
+  if (raw.version > RECORDING_VERSION) return `made by a newer version of the game (v${raw.version})`;
+  if (typeof raw.recordedAt !== 'number') return 'missing date';
+  if (typeof raw.boardId !== 'string') return 'missing board id';
+  if (typeof raw.seed !== 'string' || raw.seed.length === 0) return 'missing seed';
+  if (!['standard', 'seeded', 'daily'].includes(raw.runMode as string)) return 'unknown run mode';
+  if (!isPawnPower(raw.startingPawn)) return 'malformed starting pawn';
+  if (!Array.isArray(raw.actions)) return 'missing actions';
+  const unknown = raw.actions.find(a => !isRecord(a) || !RECORDED_ACTION_TYPES.includes(a.type as RecordedAction['type']));
+  if (unknown !== undefined) return 'unknown action';
+  const malformed = (raw.actions as Record<string, unknown>[]).find(a => !hasValidPayload(a));
+  if (malformed !== undefined) return `malformed ${malformed.type} action`;
+  return null;
+};
+
+export const parseRecording = (text: string): LoadRecordingResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { status: 'error', reason: 'Replay file is not valid JSON.' };
+  }
+  if (!isRecord(data)) return { status: 'error', reason: 'Replay file is not a run recording.' };
+  const problem = validateRecording(data);
+  if (problem) return { status: 'error', reason: `Replay file is unusable: ${problem}.` };
+  return { status: 'ok', recording: data as unknown as RunRecording };
+};
+
+export const serializeRecording = (recording: RunRecording): string => JSON.stringify(recording);
+
+export const getReplayFileName = (recording: RunRecording) => `pawns-gambit-${recording.seed}.replay.json`;
+
+// The recording of the current run, or of the last one once it is over.
+export const saveRecording = (recording: RunRecording) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, serializeRecording(recording));
+  } catch (error) {
+    console.error("Failed to save recording:", error);
+  }
+};
+
+export const loadRecording = (): RunRecording | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return null;
+    const result = parseRecording(stored);
+    return result.status === 'ok' ? result.recording : null;
+  } catch (error) {
+    console.error("Failed to load recording:", error);
+    return null;
+  }
+};
@@ -0,0 +1,176 @@
+import { GameState, PieceType, PlayerColor } from '../types';
+import type { Board, ChessState, PawnPower, RunMap, RunSnapshot } from '../types';
+import { hashSeed } from './random';
+import { createChessState } from './chessRules';
+import { startAct } from './runMap';
+
+const STORAGE_KEY = 'pawns-gambit:run';
+
+export const RUN_SNAPSHOT_VERSION = 8;
+
+// Each step upgrades a raw snapshot from version N to N + 1. Add a step (and bump
+// RUN_SNAPSHOT_VERSION) whenever the RunSnapshot shape in types.ts changes.
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 shops could only come from Gemini.
+  1: raw => ({ ...raw, shopSource: 'gemini' }),
+  // v2 runs were unseeded; give them a seed of their own so the rest of the run is reproducible.
+  2: raw => {
+    const seed = `LEGACY-${raw.savedAt}`;
+    return { ...raw, seed, runMode: 'standard', aiRngState: hashSeed(seed) };
+  },
+  // v3 didn't track castling rights or en passant; rebuild what can be inferred from the board.
+  3: raw => ({ ...raw, chessState: isValidBoard(raw.board) ? createChessState(raw.board) : undefined }),
+  4: raw => ({ ...raw, moveLog: [], undosRemaining: 1, extraUndos: 0 }),
+  // v5 runs had no map; carry on as if the current level were the opening battle of act 1.
+  5: raw => ({ ...raw, map: typeof raw.seed === 'string' ? startAct(raw.seed, 1) : undefined }),
+  // v6 boss nodes carry no boss id, so those bosses fight without modifiers; nothing has collapsed.
+  6: raw => ({ ...raw, collapsedSquares: [] }),
+  // v7 had no relics; a shop open at the time simply has none for sale.
+  7: raw => ({ ...raw, relics: [], shopRelics: [], shopRerolls: 0 }),
+};
+
+// Only these states can be resumed; LOADING, MENU and BOARD_SELECT are outside a run,
+// and GAME_OVER ends it.
+const RESUMABLE_STATES = [
+  GameState.PLAYING, GameState.SHOP, GameState.LEVEL_WON, GameState.LEVEL_SELECT, GameState.LEVEL_DRAWN, GameState.REST, GameState.EVENT,
+  GameState.DEPLOY,
+];
+
+export type LoadRunResult =
+  | { status: 'none' }
+  | { status: 'ok'; snapshot: RunSnapshot }
+  | { status: 'error'; reason: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEnumValue = <T extends Record<string, string | number>>(enumObj: T, value: unknown): boolean =>
+  Object.values(enumObj).includes(value as string | number);
+
+const isValidBoard = (value: unknown): value is Board =>
+  Array.isArray(value) && value.length > 0 && value.every(row =>
+    Array.isArray(row) && row.length > 0 && row.every(square =>
+      square === null || (isRecord(square)
+        && typeof square.id === 'string'
+        && isEnumValue(PieceType, square.type)
+        && isEnumValue(PlayerColor, square.color))));
+
+const isValidChessState = (value: unknown): value is ChessState =>
+  isRecord(value)
+    && isRecord(value.castling)
+    && [PlayerColor.WHITE, PlayerColor.BLACK].every(color => isRecord((value.castling as Record<string, unknown>)[color]))
+    && (value.enPassantTarget === null || isRecord(value.enPassantTarget))
+    && typeof value.halfmoveClock === 'number'
+    && isRecord(value.positionCounts);
+
+const isValidPower = (value: unknown): value is PawnPower =>
+  isRecord(value)
+    && typeof value.id === 'string'
+    && typeof value.name === 'string'
+    && typeof value.description === 'string'
+    && typeof value.cost === 'number'
+    && Array.isArray(value.effects);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const MAP_NODE_KINDS = ['battle', 'elite', 'shop', 'rest', 'event', 'boss'];
+
+const isValidRunMap = (value: unknown): value is RunMap =>
+  isRecord(value)
+    && typeof value.act === 'number'
+    && Array.isArray(value.nodes) && value.nodes.length > 0
+    && value.nodes.every(node => isRecord(node)
+      && typeof node.id === 'string'
+      && MAP_NODE_KINDS.includes(node.kind as string)
+      && typeof node.row === 'number'
+      && typeof node.col === 'number'
+      && Array.isArray(node.next))
+    && (value.currentNodeId === null || typeof value.currentNodeId === 'string')
+    && Array.isArray(value.visited);
+
+const validateSnapshot = (raw: Record<string, unknown>): string | null => {
+  if (!isEnumValue(GameState, raw.gameState) || !RESUMABLE_STATES.includes(raw.gameState as GameState)) return 'unknown game state';
+  if (typeof raw.boardId !== 'string') return 'missing board id';
+  if (!isValidBoard(raw.board)) return 'malformed board';
+  if (!isValidChessState(raw.chessState)) return 'malformed chess state';
+  if (!isEnumValue(PlayerColor, raw.turn)) return 'unknown turn';
+  for (const key of ['savedAt', 'bank', 'level', 'captureValue']) {
+    if (typeof raw[key] !== 'number' || !Number.isFinite(raw[key])) return `invalid ${key}`;
+  }
+  if (typeof raw.isKingSpawned !== 'boolean') return 'invalid king state';
+  if (!Array.isArray(raw.ownedPawns) || !raw.ownedPawns.every(isValidPower)) return 'malformed owned pawns';
+  if (!Array.isArray(raw.shopPawns) || !raw.shopPawns.every(isValidPower)) return 'malformed shop';
+  if (!['gemini', 'http', 'local'].includes(raw.shopSource as string)) return 'unknown shop source';
+  if (!Array.isArray(raw.moveLog) || !raw.moveLog.every(m => isRecord(m) && typeof m.san === 'string' && Array.isArray(m.notes))) return 'malformed move log';
+  if (typeof raw.undosRemaining !== 'number' || typeof raw.extraUndos !== 'number') return 'invalid undo charges';
+  if (typeof raw.seed !== 'string' || raw.seed.length === 0) return 'missing seed';
+  if (!['standard', 'seeded', 'daily'].includes(raw.runMode as string)) return 'unknown run mode';
+  if (typeof raw.aiRngState !== 'number') return 'invalid AI random state';
+  if (!isValidRunMap(raw.map)) return 'malformed run map';
+  if (!Array.isArray(raw.collapsedSquares) || !raw.collapsedSquares.every(sq => isRecord(sq) && typeof sq.row === 'number' && typeof sq.col === 'number')) {
+    return 'malformed collapsed squares';
+  }
+  if (!isStringList(raw.relics) || !isStringList(raw.shopRelics)) return 'malformed relics';
+  if (typeof raw.shopRerolls !== 'number') return 'invalid shop rerolls';
+  return null;
+};
+
+// Upgrades a parsed snapshot to the current version and checks its shape.
+const parseRunSnapshot = (data: unknown): LoadRunResult => {
+  if (!isRecord(data) || typeof data.version !== 'number') {
+    return { status: 'error', reason: 'Save data is not a run snapshot.' };
+  }
+  if (data.version > RUN_SNAPSHOT_VERSION) {
+    return { status: 'error', reason: `Save was made by a newer version of the game (v${data.version}).` };
+  }
+
+  let raw = data;
+  for (let version = raw.version as number; version < RUN_SNAPSHOT_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return { status: 'error', reason: `Save version v${version} can no longer be loaded.` };
+    }
+    raw = { ...migrate(raw), version: version + 1 };
+  }
+
+  const problem = validateSnapshot(raw);
+  if (problem) {
+    return { status: 'error', reason: `Save is corrupt: ${problem}.` };
+  }
+  return { status: 'ok', snapshot: raw as unknown as RunSnapshot };
+};
+
+export const loadRun = (): LoadRunResult => {
+  let stored: string | null;
+  try {
+    stored = localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to read saved run:", error);
+    return { status: 'none' };
+  }
+  if (!stored) return { status: 'none' };
+
+  try {
+    return parseRunSnapshot(JSON.parse(stored));
+  } catch {
+    return { status: 'error', reason: 'Save data could not be read.' };
+  }
+};
+
+export const saveRun = (snapshot: Omit<RunSnapshot, 'version' | 'savedAt'>) => {
+  const data: RunSnapshot = { ...snapshot, version: RUN_SNAPSHOT_VERSION, savedAt: Date.now() };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error("Failed to save run:", error);
+  }
+};
+
+export const clearRun = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Failed to clear saved run:", error);
+  }
+};
@@ -0,0 +1,58 @@
+import type { AnimationSpeed, GameSettings } from '../types';
+
+const STORAGE_KEY = 'pawns-gambit:settings';
+
+export const MAX_AI_MOVE_DELAY_MS = 2000;
+
+// How long animations take, as a multiple of their normal length.
+export const ANIMATION_SCALES: Record<AnimationSpeed, number> = { off: 0, fast: 0.5, normal: 1, slow: 2 };
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  abilitySource: 'auto',
+  abilityServerUrl: 'http://localhost:8787',
+  moveEntry: false,
+  relayServerUrl: 'ws://localhost:8788',
+  masterVolume: 0.8,
+  sfxVolume: 1,
+  musicVolume: 0.5,
+  muted: false,
+  animationSpeed: 'normal',
+  aiMoveDelayMs: 500,
+  showThreats: false,
+};
+
+const volume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+export const loadSettings = (): GameSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      abilitySource: ['auto', 'gemini', 'http', 'local'].includes(parsed?.abilitySource) ? parsed.abilitySource : DEFAULT_SETTINGS.abilitySource,
+      abilityServerUrl: typeof parsed?.abilityServerUrl === 'string' && parsed.abilityServerUrl ? parsed.abilityServerUrl : DEFAULT_SETTINGS.abilityServerUrl,
+      moveEntry: parsed?.moveEntry === true,
+      relayServerUrl: typeof parsed?.relayServerUrl === 'string' && parsed.relayServerUrl ? parsed.relayServerUrl : DEFAULT_SETTINGS.relayServerUrl,
+      masterVolume: volume(parsed?.masterVolume, DEFAULT_SETTINGS.masterVolume),
+      sfxVolume: volume(parsed?.sfxVolume, DEFAULT_SETTINGS.sfxVolume),
+      musicVolume: volume(parsed?.musicVolume, DEFAULT_SETTINGS.musicVolume),
+      muted: parsed?.muted === true,
+      animationSpeed: Object.keys(ANIMATION_SCALES).includes(parsed?.animationSpeed) ? parsed.animationSpeed : DEFAULT_SETTINGS.animationSpeed,
+      aiMoveDelayMs: Number.isInteger(parsed?.aiMoveDelayMs) && parsed.aiMoveDelayMs >= 0 && parsed.aiMoveDelayMs <= MAX_AI_MOVE_DELAY_MS
+        ? parsed.aiMoveDelayMs : DEFAULT_SETTINGS.aiMoveDelayMs,
+      showThreats: parsed?.showThreats === true,
+    };
+  } catch (error) {
+    console.error("Failed to load settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: GameSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save settings:", error);
+  }
+};
@@ -0,0 +1,303 @@
+import { PieceType, PlayerColor, PowerEffectKind } from '../types';
+import type { Board, BoardInfo, ChessState, MoveRecord, PawnPower, Piece, Position } from '../types';
+import { findKing, isCheck } from './movement';
+import { findPower, getPowerMoves, applyPoweredMove } from './powerEffects';
+import { createChessState, getLegalMoves, getMoveDetails, completeMove, advanceChessState, recordBlockedAttack, getDrawReason } from './chessRules';
+import { toSan } from './notation';
+import { autoDeploy } from './deployment';
+import { DRAW_MESSAGES, getBlockNote, getExtraMoveNote, getShopPrice } from './matchText';
+import type { GameEvent } from './gameEngine';
+
+// A hot-seat match: two players share the device and play one game on a chosen board. Both first
+// draft powers from a shared pool with the same budget, taking turns, then their rosters are
+// auto-deployed and the match starts. Unlike a run there is no hidden king to summon and no bank:
+// kings stand from the first move, capturing one (or mating it) wins, and gold effects do nothing.
+// Like GameSession, a VersusSession is plain data and only changes through applyVersusAction.
+
+export const VERSUS_BUDGET = 15;
+export const VERSUS_POOL_SIZE = 8;
+
+const HAZARD_NOTE = 'Sinks into the hazard';
+
+export type VersusPhase = 'draft' | 'playing' | 'over';
+
+export interface VersusDraft {
+  powers: PawnPower[];
+  spent: number;
+  done: boolean; // Stopped drafting, or can't afford anything left in the pool
+}
+
+export interface VersusSession {
+  phase: VersusPhase;
+  boardInfo: BoardInfo;
+  board: Board;
+  chessState: ChessState;
+  turn: PlayerColor; // Who drafts, or moves, next
+  budget: number; // Each player's, for the draft
+  pool: PawnPower[]; // Powers nobody has drafted yet
+  drafts: Record<PlayerColor, VersusDraft>;
+  moveLog: MoveRecord[];
+  winner: PlayerColor | null; // Once the match is over; null there means a draw
+  selectedPiece: Position | null;
+  inspectedPiece: Position | null; // An opponent's piece the player to move clicked to read about
+  validMoves: Position[];
+  pendingPromotion: { from: Position, to: Position } | null;
+  message: string;
+}
+
+export type VersusAction =
+  | { type: 'draft-power'; pawnId: string }
+  | { type: 'end-draft' } // The player drafting takes nothing more
+  | { type: 'select'; pos: Position }
+  | { type: 'move'; from: Position; to: Position; promotion?: PieceType }
+  | { type: 'cancel-promotion' }
+  | { type: 'resign'; color?: PlayerColor }; // Defaults to the player to move
+
+export interface VersusResult {
+  session: VersusSession;
+  events: GameEvent[];
+}
+
+const samePos = (a: Position, b: Position) => a.row === b.row && a.col === b.col;
+
+const cloneBoard = (board: Board): Board => JSON.parse(JSON.stringify(board));
+
+export const getOpponent = (color: PlayerColor) => color === PlayerColor.WHITE ? PlayerColor.BLACK : PlayerColor.WHITE;
+
+const NAMES: Record<PlayerColor, string> = { [PlayerColor.WHITE]: 'WHITE', [PlayerColor.BLACK]: 'BLACK' };
+
+/**
+ * Whether a power does anything in a match. Powers that only pay gold have nothing to buy here.
+ */
+export const isDraftablePower = (power: PawnPower): boolean =>
+  power.effects.some(({ effect }) => effect.kind !== PowerEffectKind.GOLD_BONUS);
+
+// Draft prices are the shop's level-1 prices.
+export const getDraftPrice = (power: PawnPower) => getShopPrice(power, 1);
+
+export const getBudgetLeft = (session: VersusSession, color: PlayerColor) => session.budget - session.drafts[color].spent;
+
+const canDraft = (session: VersusSession, color: PlayerColor) =>
+  !session.drafts[color].done && session.pool.some(p => getDraftPrice(p) <= getBudgetLeft(session, color));
+
+export const getVersusPowers = (session: VersusSession): PawnPower[] =>
+  [...session.drafts[PlayerColor.WHITE].powers, ...session.drafts[PlayerColor.BLACK].powers];
+
+export const getVersusSelectedPower = (session: VersusSession): PawnPower | null => {
+  const pos = session.selectedPiece ?? session.inspectedPiece;
+  return pos ? findPower(session.board[pos.row][pos.col]?.powerId, getVersusPowers(session)) : null;
+};
+
+/**
+ * Legal chess moves for the piece at `pos` plus whatever its power adds.
+ */
+export const getVersusMoves = (session: VersusSession, pos: Position): Position[] => {
+  const { board, chessState, boardInfo: { rules } } = session;
+  const moves = getLegalMoves(board, pos, rules, chessState);
+  const powerMoves = getPowerMoves(board, pos, getVersusPowers(session), rules)
+    .filter(pm => !moves.some(m => samePos(m, pm)));
+  return [...moves, ...powerMoves];
+};
+
+const hasAnyMove = (session: VersusSession, color: PlayerColor): boolean =>
+  session.board.some((row, r) => row.some((piece, c) =>
+    piece?.color === color && getVersusMoves(session, { row: r, col: c }).length > 0));
+
+/**
+ * A new match on `boardInfo`, drafting from `pool`. Undraftable powers are dropped and the pool is
+ * cut to VERSUS_POOL_SIZE. White drafts first.
+ */
+export const createVersusSession = (boardInfo: BoardInfo, pool: PawnPower[], budget: number = VERSUS_BUDGET): VersusSession => {
+  const draft = (): VersusDraft => ({ powers: [], spent: 0, done: false });
+  return advanceDraft({
+    phase: 'draft',
+    boardInfo,
+    board: boardInfo.startingBoard,
+    chessState: createChessState(boardInfo.startingBoard),
+    turn: PlayerColor.BLACK, // advanceDraft hands the first pick to white
+    budget,
+    pool: pool.filter(isDraftablePower).slice(0, VERSUS_POOL_SIZE),
+    drafts: { [PlayerColor.WHITE]: draft(), [PlayerColor.BLACK]: draft() },
+    moveLog: [],
+    winner: null,
+    selectedPiece: null,
+    inspectedPiece: null,
+    validMoves: [],
+    pendingPromotion: null,
+    message: '',
+  });
+};
+
+// The kings stand from the start, and each roster goes onto its own pawns in draft order.
+const startMatch = (session: VersusSession): VersusSession => {
+  let board = cloneBoard(session.boardInfo.startingBoard);
+  board.forEach(row => row.forEach(piece => { if (piece) delete piece.isVisible; }));
+  board = autoDeploy(board, session.drafts[PlayerColor.WHITE].powers, PlayerColor.WHITE);
+  board = autoDeploy(board, session.drafts[PlayerColor.BLACK].powers, PlayerColor.BLACK);
+  return {
+    ...session,
+    phase: 'playing',
+    board,
+    chessState: createChessState(board),
+    turn: PlayerColor.WHITE,
+    message: 'WHITE TO MOVE',
+  };
+};
+
+// Passes the pick to the opponent if they can still draft, keeps it otherwise, and starts the
+// match once neither player can.
+const advanceDraft = (session: VersusSession): VersusSession => {
+  const drafts = { ...session.drafts };
+  [PlayerColor.WHITE, PlayerColor.BLACK].forEach(color => {
+    if (!canDraft(session, color)) drafts[color] = { ...drafts[color], done: true };
+  });
+  const settled = { ...session, drafts };
+  const next = [getOpponent(session.turn), session.turn].find(color => canDraft(settled, color));
+  if (!next) return startMatch(settled);
+  return { ...settled, turn: next, message: `${NAMES[next]} DRAFTS` };
+};
+
+const draftPower = (session: VersusSession, pawnId: string): VersusSession => {
+  const power = session.pool.find(p => p.id === pawnId);
+  const price = power ? getDraftPrice(power) : Infinity;
+  if (!power || price > getBudgetLeft(session, session.turn)) return session;
+  const draft = session.drafts[session.turn];
+  return advanceDraft({
+    ...session,
+    pool: session.pool.filter(p => p !== power),
+    drafts: { ...session.drafts, [session.turn]: { ...draft, powers: [...draft.powers, power], spent: draft.spent + price } },
+  });
+};
+
+const endDraft = (session: VersusSession): VersusSession => advanceDraft({
+  ...session,
+  drafts: { ...session.drafts, [session.turn]: { ...session.drafts[session.turn], done: true } },
+});
+
+const endMatch = (session: VersusSession, winner: PlayerColor | null, message: string): VersusSession => ({
+  ...session,
+  phase: 'over',
+  winner,
+  selectedPiece: null,
+  inspectedPiece: null,
+  validMoves: [],
+  pendingPromotion: null,
+  message,
+});
+
+const movePiece = (session: VersusSession, from: Position, to: Position, promotion: PieceType): VersusResult => {
+  const { board, chessState, turn, boardInfo: { rules } } = session;
+  const opponent = getOpponent(turn);
+  const details = getMoveDetails(board, from, to, chessState, rules);
+  const mover = board[from.row][from.col] as Piece;
+  const result = applyPoweredMove(board, from, to, getVersusPowers(session), details.captureAt ?? to);
+  const record = (san: string, notes: string[]): MoveRecord[] =>
+    [...session.moveLog, { color: turn, from, to, san, notes }];
+  const base: VersusSession = { ...session, selectedPiece: null, inspectedPiece: null, validMoves: [], pendingPromotion: null };
+
+  if (result.blocked) {
+    return {
+      session: {
+        ...base,
+        board: result.board,
+        chessState: recordBlockedAttack(chessState, result.board, opponent),
+        moveLog: record(toSan(board, from, to, details, rules, chessState, false, promotion), [getBlockNote(result.triggered[0])]),
+        turn: opponent,
+        message: `BLOCKED BY ${result.triggered[0].name.toUpperCase()}! ${NAMES[opponent]} TO MOVE`,
+      },
+      events: ['capture'],
+    };
+  }
+
+  const newBoard = completeMove(result.board, to, details, promotion);
+  const capturedPiece = result.captured;
+  const givesCheck = isCheck(newBoard, opponent, rules);
+  const notes: string[] = [];
+  if (details.entersHazard) notes.push(HAZARD_NOTE);
+  if (result.extraMove) notes.push(getExtraMoveNote(result.triggered[0]));
+  const moved: VersusSession = {
+    ...base,
+    board: newBoard,
+    moveLog: record(toSan(board, from, to, details, rules, chessState, givesCheck, promotion), notes),
+  };
+  const events: GameEvent[] = [capturedPiece ? 'capture' : 'move'];
+
+  if (capturedPiece?.type === PieceType.KING) {
+    return { session: endMatch(moved, turn, `${NAMES[turn]} CAPTURES THE KING AND WINS!`), events };
+  }
+
+  const nextToMove = result.extraMove ? turn : opponent;
+  const nextChessState = advanceChessState(chessState, newBoard, mover, from, to, !!capturedPiece, nextToMove);
+  const drawReason = getDrawReason(nextChessState, rules);
+  const next: VersusSession = { ...moved, chessState: nextChessState, turn: nextToMove };
+  if (drawReason) {
+    return { session: endMatch(next, null, DRAW_MESSAGES[drawReason]), events };
+  }
+  // A king lost to a hazard can no longer be captured, so its side has lost.
+  if (!findKing(newBoard, nextToMove) || !hasAnyMove(next, nextToMove)) {
+    const mated = !findKing(newBoard, nextToMove) || isCheck(newBoard, nextToMove, rules);
+    return { session: endMatch(next, mated ? getOpponent(nextToMove) : null, mated ? `CHECKMATE! ${NAMES[getOpponent(nextToMove)]} WINS!` : 'STALEMATE! THE MATCH IS DRAWN.'), events };
+  }
+
+  return {
+    session: {
+      ...next,
+      message: result.extraMove ? `${result.triggered[0].name.toUpperCase()}! ${NAMES[turn]} MOVES AGAIN.`
+        : givesCheck ? `CHECK! ${NAMES[nextToMove]} TO MOVE` : `${NAMES[nextToMove]} TO MOVE`,
+    },
+    events,
+  };
+};
+
+const selectSquare = (session: VersusSession, pos: Position): VersusResult => {
+  const { board, selectedPiece, turn } = session;
+  if (selectedPiece && session.validMoves.some(m => samePos(m, pos))) {
+    const { rules } = session.boardInfo;
+    const details = getMoveDetails(board, selectedPiece, pos, session.chessState, rules);
+    if (details.promotes && !rules.autoPromoteToQueen) {
+      return { session: { ...session, pendingPromotion: { from: selectedPiece, to: pos } }, events: [] };
+    }
+    return movePiece(session, selectedPiece, pos, PieceType.QUEEN);
+  }
+
+  const piece = board[pos.row][pos.col];
+  const reselecting = selectedPiece && samePos(selectedPiece, pos);
+  if (piece?.color === turn && !reselecting) {
+    return { session: { ...session, selectedPiece: pos, inspectedPiece: null, validMoves: getVersusMoves(session, pos) }, events: [] };
+  }
+  const inspecting = piece?.color === getOpponent(turn);
+  return { session: { ...session, selectedPiece: null, inspectedPiece: inspecting ? pos : null, validMoves: [] }, events: [] };
+};
+
+/**
+ * The single entry point for changing a match. Actions that don't apply right now return the
+ * session unchanged.
+ */
+export const applyVersusAction = (session: VersusSession, action: VersusAction): VersusResult => {
+  const unchanged = (next: VersusSession): VersusResult => ({ session: next, events: [] });
+  const isDrafting = session.phase === 'draft';
+  const isPlaying = session.phase === 'playing';
+
+  switch (action.type) {
+    case 'draft-power':
+      if (!isDrafting) return unchanged(session);
+      return unchanged(draftPower(session, action.pawnId));
+    case 'end-draft':
+      if (!isDrafting) return unchanged(session);
+      return unchanged(endDraft(session));
+    case 'select':
+      if (!isPlaying || session.pendingPromotion) return unchanged(session);
+      return selectSquare(session, action.pos);
+    case 'move':
+      if (!isPlaying || session.board[action.from.row]?.[action.from.col]?.color !== session.turn
+        || !getVersusMoves(session, action.from).some(m => samePos(m, action.to))) return unchanged(session);
+      return movePiece(session, action.from, action.to, action.promotion ?? PieceType.QUEEN);
+    case 'cancel-promotion':
+      return unchanged({ ...session, pendingPromotion: null });
+    case 'resign': {
+      if (!isPlaying) return unchanged(session);
+      const loser = action.color ?? session.turn;
+      return unchanged(endMatch(session, getOpponent(loser), `${NAMES[loser]} RESIGNS. ${NAMES[getOpponent(loser)]} WINS!`));
+    }
+  }
+};
@@ -0,0 +1,76 @@
+import { PieceType } from '../types';
+import type { Board, BoardRules, MoveRecord, PawnPower, PlayerColor, Position } from '../types';
+import { getForward, getThreatenedSquares, isOnBoard, isWall } from './movement';
+import { getVisionRange, isStealthy } from './powerEffects';
+
+// Fog of war. On boards with the fogOfWar rule each side sees only the squares its pieces stand on
+// or attack, plus the two squares ahead of each pawn so pawns don't step blindly. Scout powers see
+// further; Stealth powers stay hidden on a seen square unless an enemy piece is next to them.
+// Walls and hazards are always known. The player is shown, and the AI searches, a side's FogView.
+
+const PAWN_SIGHT = 2;
+
+// Stands in for the notation of an enemy move that ended out of sight.
+export const UNSEEN_SAN = '??';
+
+export const hasFog = (rules: BoardRules) => rules.fogOfWar === true;
+
+export interface FogView {
+  board: Board; // Enemy pieces `viewer` can't see are left off
+  visible: boolean[][];
+}
+
+/**
+ * Which squares `color` can see, by row and column.
+ */
+export const getVisibleSquares = (board: Board, color: PlayerColor, rules: BoardRules, knownPowers: PawnPower[]): boolean[][] => {
+  const visible = board.map(row => row.map(() => false));
+  const see = (row: number, col: number) => {
+    if (isOnBoard(board, row, col)) visible[row][col] = true;
+  };
+
+  getThreatenedSquares(board, color, rules).forEach(sq => see(sq.row, sq.col));
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece?.color !== color) return;
+    see(r, c);
+    if (piece.type === PieceType.PAWN) {
+      for (let step = 1, ahead = r + getForward(color); step <= PAWN_SIGHT; step++, ahead += getForward(color)) {
+        if (!isOnBoard(board, ahead, c) || isWall(rules, ahead, c)) break;
+        see(ahead, c);
+        if (board[ahead][c]) break;
+      }
+    }
+    const range = getVisionRange(piece, knownPowers);
+    for (let dr = -range; dr <= range; dr++) {
+      for (let dc = -range; dc <= range; dc++) see(r + dr, c + dc);
+    }
+  }));
+  return visible;
+};
+
+const isNextToEnemyOf = (board: Board, pos: Position, color: PlayerColor): boolean =>
+  board.some((row, r) => row.some((piece, c) =>
+    !!piece && piece.color !== color && Math.abs(r - pos.row) <= 1 && Math.abs(c - pos.col) <= 1));
+
+/**
+ * The board as `viewer` sees it. Its own pieces are always there; an enemy piece is only there if
+ * its square is seen and it isn't a stealthy piece with none of the viewer's pieces beside it.
+ */
+export const getFogView = (board: Board, viewer: PlayerColor, rules: BoardRules, knownPowers: PawnPower[]): FogView => {
+  const visible = getVisibleSquares(board, viewer, rules, knownPowers);
+  const seen = board.map((row, r) => row.map((piece, c) => {
+    if (!piece || piece.color === viewer) return piece;
+    if (!visible[r][c]) return null;
+    return isStealthy(piece, knownPowers) && !isNextToEnemyOf(board, { row: r, col: c }, piece.color) ? null : piece;
+  }));
+  return { board: seen, visible };
+};
+
+/**
+ * The move list as `viewer` may read it. An enemy move is only spelled out if a piece `viewer` can
+ * see now stands where it ended; the rest are reduced to UNSEEN_SAN, without their notes.
+ */
+export const getVisibleMoveLog = (moveLog: MoveRecord[], viewer: PlayerColor, view: FogView): MoveRecord[] =>
+  moveLog.map(move => move.color === viewer || view.board[move.to.row][move.to.col]
+    ? move
+    : { ...move, san: UNSEEN_SAN, notes: [] });
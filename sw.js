@@ -1,14 +1,67 @@
 // sw.js
-const CACHE_NAME = 'pawns-gambit-cache-v1';
+const CACHE_NAME = 'pawns-gambit-cache-v24';
 const URLS_TO_CACHE = [
     '/',
     '/index.html',
     '/index.tsx',
     '/App.tsx',
     '/types.ts',
-    '/services/chessLogic.ts',
-    '/services/geminiService.ts',
-    '/services/soundService.ts',
+    '/components/Pixelated.tsx',
+    '/components/GameBoard.tsx',
+    '/components/MoveHistoryPanel.tsx',
+    '/components/MapScreen.tsx',
+    '/components/ShopScreen.tsx',
+    '/components/DeployScreen.tsx',
+    '/components/ReplayScreen.tsx',
+    '/components/VersusScreen.tsx',
+    '/components/PuzzleScreen.tsx',
+    '/components/SettingsScreen.tsx',
+    '/services/abilityProviders.ts',
+    '/services/audioEngine.ts',
+    '/services/powerEffects.ts',
+    '/services/runStorage.ts',
+    '/services/abilityService.ts',
+    '/services/localAbilityService.ts',
+    '/services/abilityValidation.ts',
+    '/services/abilityCache.ts',
+    '/services/settingsService.ts',
+    '/services/random.ts',
+    '/services/chessRules.ts',
+    '/services/notation.ts',
+    '/services/movement.ts',
+    '/services/boardHighlights.ts',
+    '/services/vision.ts',
+    '/services/ai.ts',
+    '/services/aiWorker.ts',
+    '/services/aiClient.ts',
+    '/services/boardLoader.ts',
+    '/services/gameEngine.ts',
+    '/services/matchText.ts',
+    '/services/enemyArmy.ts',
+    '/services/runMap.ts',
+    '/services/runEvents.ts',
+    '/services/bosses.ts',
+    '/services/achievements.ts',
+    '/services/profileService.ts',
+    '/services/deployment.ts',
+    '/services/relics.ts',
+    '/services/runRecording.ts',
+    '/services/boardSpeech.ts',
+    '/services/moveInput.ts',
+    '/services/versusEngine.ts',
+    '/services/netProtocol.ts',
+    '/services/netClient.ts',
+    '/services/puzzleLoader.ts',
+    '/services/puzzleEngine.ts',
+    '/boards/index.ts',
+    '/boards/classic.json',
+    '/boards/pawn_march.json',
+    '/boards/fortress.json',
+    '/boards/skirmish.json',
+    '/boards/marsh.json',
+    '/boards/mists.json',
+    '/puzzles/index.ts',
+    '/puzzles/tactics.json',
     '/manifest.json',
     '/icon.svg',
 ];
@@ -12,11 +12,56 @@ export enum PlayerColor {
   BLACK = 'black',
 }
 
+export enum PowerTrigger {
+  ON_CAPTURE = 'on-capture',
+  ON_ATTACKED = 'on-attacked',
+  ON_MOVE = 'on-move',
+  TURN_START = 'turn-start',
+  PASSIVE = 'passive',
+}
+
+export enum PowerEffectKind {
+  EXTRA_MOVE = 'extra-move',
+  SHIELD = 'shield',
+  EXTRA_MOVEMENT = 'extra-movement',
+  GOLD_BONUS = 'gold-bonus',
+  VISION = 'vision',
+  STEALTH = 'stealth',
+}
+
+// Offsets are relative to the owner's forward direction: row -1 is "one square forward".
+export interface MoveOffset {
+  row: number;
+  col: number;
+}
+
+export type PowerEffect =
+  | { kind: PowerEffectKind.EXTRA_MOVE }
+  | { kind: PowerEffectKind.SHIELD }
+  | { kind: PowerEffectKind.EXTRA_MOVEMENT; offsets: MoveOffset[]; mode: 'move' | 'capture' | 'both' }
+  | { kind: PowerEffectKind.GOLD_BONUS; amount: number }
+  | { kind: PowerEffectKind.VISION; range: number } // Fog of war: sees every square within `range`
+  | { kind: PowerEffectKind.STEALTH }; // Fog of war: unseen unless an enemy piece is next to it
+
+export interface PowerEffectDefinition {
+  trigger: PowerTrigger;
+  effect: PowerEffect;
+  consumesPower?: boolean; // The pawn loses its power after this effect fires
+}
+
+export enum PowerRarity {
+  COMMON = 'common',
+  RARE = 'rare',
+  LEGENDARY = 'legendary',
+}
+
 export interface PawnPower {
   id: string;
   name: string;
   description: string;
   cost: number;
+  effects: PowerEffectDefinition[];
+  rarity?: PowerRarity;
 }
 
 export interface Piece {
@@ -25,6 +70,7 @@ export interface Piece {
   color: PlayerColor;
   powerId?: string; // Link to a PawnPower
   isVisible?: boolean;
+  isElite?: boolean; // An enemy piece upgraded by the army budget
 }
 
 export type Square = Piece | null;
@@ -45,10 +91,120 @@ export enum GameState {
   LEVEL_WON,
   LEVEL_SELECT,
   GAME_OVER,
+  SETTINGS,
+  LEVEL_DRAWN,
+  REST,
+  EVENT,
+  PROFILE,
+  DEPLOY,
+  REPLAY,
+  VERSUS,
+  PUZZLES,
 }
 
 export interface BoardRules {
   pawnHasLimitedFirstMove?: boolean;
+  disableCastling?: boolean;
+  disableEnPassant?: boolean;
+  autoPromoteToQueen?: boolean; // Skip the promotion picker
+  disableDrawRules?: boolean; // No threefold repetition or fifty-move draws
+  walls?: Position[]; // Impassable squares
+  hazards?: Position[]; // A piece that ends its move here is destroyed
+  promotionRows?: Partial<Record<PlayerColor, number>>; // Defaults to the far edge
+  kingRange?: Partial<Record<PlayerColor, number>>; // How many squares a king may slide; defaults to 1
+  wardedKings?: PlayerColor[]; // Kings of these colors can't be captured
+  fogOfWar?: boolean; // Each side only sees the squares its pieces occupy or attack (see vision.ts)
+}
+
+// Special rules for a boss level, applied on top of the board's own rules (see bosses.ts).
+export type BossModifier =
+  | { kind: 'swift-king'; range: number } // The enemy king slides up to `range` squares like a queen
+  | { kind: 'warded-king' } // The enemy king starts on the board but can't be captured until the capture bar fills
+  | { kind: 'shrinking-board'; every: number; maxRings: number }; // Every `every` enemy moves the outermost files collapse into walls
+
+export interface BossDefinition {
+  id: string;
+  name: string;
+  description: string;
+  modifiers: BossModifier[];
+  reward: PawnPower; // Given to the player for beating the boss
+}
+
+// Run-wide bonuses sold in the shop alongside powers (see relics.ts).
+export type RelicEffect =
+  | { kind: 'capture-gold'; amount: number; by?: PieceType } // Extra gold per capture, or only per capture made by a `by` piece
+  | { kind: 'piece-value'; pieceType: PieceType; amount: number } // Captured `pieceType`s pay this much more gold and capture value
+  | { kind: 'summon-threshold'; amount: number }; // Added to the capture value the enemy king's summon needs
+
+export interface Relic {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;
+  rarity: PowerRarity;
+  effects: RelicEffect[];
+}
+
+// Authored as JSON in boards/. Layout rows run from black's back rank down to white's:
+// KQRBNP for white, kqrbnp for black, '.' empty, '#' wall, '~' hazard.
+export interface BoardDefinition {
+  id: string;
+  name: string;
+  description: string;
+  layout: string[];
+  rules?: Omit<BoardRules, 'walls' | 'hazards' | 'promotionRows'>;
+  promotionRows?: Partial<Record<PlayerColor, number>>;
+  unlockLevel?: number;
+  enemyBudgetBonus?: number; // Added to black's upgrade budget from level 2 on; negative for weaker armies
+}
+
+// What a puzzle asks of white. Turns count whole turns, so an extra move from a power is free.
+export type PuzzleGoal =
+  | { kind: 'capture-king'; turns: number } // Capture or mate the black king within this many turns
+  | { kind: 'survive'; turns: number }; // Keep the white king through this many black turns
+
+// A puzzle is a board plus a goal. Powers are placed by square name, e.g. { "f6": "relentless-pawn" }.
+export interface PuzzleDefinition extends Omit<BoardDefinition, 'unlockLevel' | 'enemyBudgetBonus'> {
+  goal: PuzzleGoal;
+  powers?: Record<string, string>;
+}
+
+export interface Puzzle {
+  id: string;
+  name: string;
+  description: string;
+  goal: PuzzleGoal;
+  boardInfo: BoardInfo; // Its starting board has the powers placed and every piece showing
+  powers: PawnPower[]; // The powers placed on the board
+}
+
+export interface PuzzlePack {
+  id: string;
+  name: string;
+  puzzles: Puzzle[];
+}
+
+export interface CastlingRights {
+  kingSide: boolean;
+  queenSide: boolean;
+}
+
+// Everything about a position that the board itself doesn't record.
+export interface ChessState {
+  castling: Record<PlayerColor, CastlingRights>;
+  enPassantTarget: Position | null; // The square a pawn skipped over on its double step
+  halfmoveClock: number; // Half-moves since the last capture or pawn move
+  positionCounts: Record<string, number>;
+}
+
+export type DrawReason = 'threefold-repetition' | 'fifty-move';
+
+export interface MoveRecord {
+  color: PlayerColor;
+  from: Position;
+  to: Position;
+  san: string;
+  notes: string[]; // Power triggers and other events; exported as PGN comments
 }
 
 export interface BoardInfo {
@@ -56,6 +212,93 @@ export interface BoardInfo {
   name: string;
   description: string;
   rules: BoardRules;
+  startingBoard: Board;
   isLocked: boolean;
   unlockLevel?: number;
-}
\ No newline at end of file
+  enemyBudgetBonus?: number;
+}
+
+export type MapNodeKind = 'battle' | 'elite' | 'shop' | 'rest' | 'event' | 'boss';
+
+export interface MapNode {
+  id: string;
+  kind: MapNodeKind;
+  row: number;
+  col: number;
+  next: string[]; // Ids of the nodes this one leads to, all in the following row
+  eventId?: string; // The event waiting at an 'event' node
+  bossId?: string; // The boss guarding a 'boss' node
+}
+
+// One act of a run. Row 0 opens the act with a battle and the last row is the boss.
+export interface RunMap {
+  act: number;
+  nodes: MapNode[];
+  currentNodeId: string | null; // null until the act's first node is chosen
+  visited: string[];
+}
+
+export interface RunSnapshot {
+  version: number;
+  savedAt: number;
+  gameState: GameState;
+  boardId: string;
+  board: Board;
+  chessState: ChessState;
+  turn: PlayerColor;
+  bank: number;
+  level: number;
+  captureValue: number;
+  isKingSpawned: boolean;
+  ownedPawns: PawnPower[];
+  shopPawns: PawnPower[];
+  shopSource: AbilitySource;
+  moveLog: MoveRecord[];
+  undosRemaining: number;
+  extraUndos: number;
+  seed: string;
+  runMode: RunMode;
+  aiRngState: number;
+  map: RunMap;
+  collapsedSquares: Position[];
+  relics: string[]; // Relic ids
+  shopRelics: string[];
+  shopRerolls: number;
+}
+
+// 'seeded' and 'daily' runs are meant to be reproduced, so their shops always use the local catalog.
+export type RunMode = 'standard' | 'seeded' | 'daily';
+
+// 'http' is a stand-in ability server for development and tests (see scripts/abilityServer.mjs).
+export type AbilitySource = 'gemini' | 'http' | 'local';
+
+export type AbilitySourcePreference = 'auto' | AbilitySource;
+
+// Progress that outlives runs, stored apart from them (see profileService.ts).
+export interface PlayerProfile {
+  totalRuns: number;
+  bestLevels: Record<string, number>; // Highest level reached, by board id
+  unlockedBoards: string[];
+  unlockedPawns: string[]; // Power ids the player may start a run with, besides the Relentless Pawn
+  achievements: string[];
+  levelsWon: number;
+  bossesDefeated: number;
+  sturdyBlocks: number; // Enemy attacks stopped by the player's Sturdy Pawns
+  puzzleStars: Record<string, number>; // Best star rating, by puzzle id; solved puzzles have at least one
+}
+
+export type AnimationSpeed = 'off' | 'fast' | 'normal' | 'slow';
+
+export interface GameSettings {
+  abilitySource: AbilitySourcePreference;
+  abilityServerUrl: string; // Where the 'http' source is served from
+  moveEntry: boolean; // Show the typed-move box under the board
+  relayServerUrl: string; // The relay online versus matches are played through
+  masterVolume: number; // Volumes run from 0 to 1
+  sfxVolume: number;
+  musicVolume: number;
+  muted: boolean;
+  animationSpeed: AnimationSpeed;
+  aiMoveDelayMs: number; // How long the AI's answer waits, so the player sees their own move land
+  showThreats: boolean; // Tint the squares the enemy attacks
+}